@@ -4,6 +4,29 @@
  * @copyright 2026 Firefly Software Solutions Inc.
  */
 
+// Models
+export * from './lib/models/auth.models';
+
 // Services
 export * from './lib/services/auth.service';
 export * from './lib/services/token.service';
+export * from './lib/services/oidc.service';
+export * from './lib/services/jwks.service';
+export * from './lib/services/session-sync.service';
+export * from './lib/services/idle.service';
+export * from './lib/services/policy.service';
+export * from './lib/services/auth-token-provider.service';
+
+// Directives
+export * from './lib/directives/can.directive';
+export * from './lib/directives/has-permission.directive';
+export * from './lib/directives/has-role.directive';
+export * from './lib/directives/authenticated.directive';
+
+// Providers
+export * from './lib/providers/auth.providers';
+
+// Utils
+export * from './lib/utils/pkce.utils';
+export * from './lib/utils/jwt.utils';
+export * from './lib/utils/permission.utils';
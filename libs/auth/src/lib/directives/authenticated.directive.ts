@@ -0,0 +1,57 @@
+/**
+ * @flyfront/auth - Authenticated Directive
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import {
+  Directive,
+  TemplateRef,
+  ViewContainerRef,
+  booleanAttribute,
+  computed,
+  effect,
+  inject,
+  input,
+} from '@angular/core';
+import { AuthService } from '../services/auth.service';
+import { ConditionalView } from './conditional-view';
+
+/**
+ * Render content depending on whether the user is authenticated
+ *
+ * Nothing is rendered while the session is being restored.
+ *
+ * @example
+ * ```html
+ * <fly-user-menu *flyAuthenticated />
+ *
+ * <fly-user-menu *flyAuthenticated="true; else signIn" />
+ * <ng-template #signIn><button (click)="auth.login()">Sign in</button></ng-template>
+ *
+ * <!-- Only for anonymous users -->
+ * <p *flyAuthenticated="false">Create an account to save your work.</p>
+ * ```
+ */
+@Directive({
+  selector: '[flyAuthenticated]',
+  standalone: true,
+})
+export class AuthenticatedDirective {
+  private readonly auth = inject(AuthService);
+  private readonly view = new ConditionalView(inject(TemplateRef), inject(ViewContainerRef));
+
+  /** Authentication state to match (default: `true`) */
+  readonly expected = input(true, { alias: 'flyAuthenticated', transform: booleanAttribute });
+
+  /** Template rendered when the state does not match */
+  readonly flyAuthenticatedElse = input<TemplateRef<unknown> | null>(null);
+
+  private readonly matches = computed(() =>
+    this.auth.isLoading() ? null : this.auth.isAuthenticated() === this.expected()
+  );
+
+  constructor() {
+    effect(() => this.view.update(this.matches(), this.flyAuthenticatedElse()));
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * @flyfront/auth - Can Directive
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Directive, TemplateRef, ViewContainerRef, computed, effect, inject, input } from '@angular/core';
+import { AuthService } from '../services/auth.service';
+import { PolicyService } from '../services/policy.service';
+import { PolicyRule } from '../models/auth.models';
+import { ConditionalView } from './conditional-view';
+
+/**
+ * Render content only when an authorization policy allows it
+ *
+ * The view updates as soon as the user, roles or permissions change.
+ *
+ * @example
+ * ```html
+ * <button *flyCan="'orders.edit'; resource: order; else readOnly">Edit</button>
+ * <ng-template #readOnly><span>Read only</span></ng-template>
+ *
+ * <section *flyCan="{ roles: ['admin'], permissions: ['audit:read'] }">...</section>
+ * ```
+ */
+@Directive({
+  selector: '[flyCan]',
+  standalone: true,
+})
+export class CanDirective {
+  private readonly auth = inject(AuthService);
+  private readonly policies = inject(PolicyService);
+  private readonly view = new ConditionalView(inject(TemplateRef), inject(ViewContainerRef));
+
+  /** Policy name or inline rule */
+  readonly policy = input.required<string | PolicyRule>({ alias: 'flyCan' });
+
+  /** Resource passed to the policy predicates */
+  readonly flyCanResource = input<unknown>();
+
+  /** Template rendered when the policy denies access */
+  readonly flyCanElse = input<TemplateRef<unknown> | null>(null);
+
+  private readonly allowed = computed(() =>
+    this.auth.isLoading() ? null : this.policies.can(this.policy(), { resource: this.flyCanResource() })
+  );
+
+  constructor() {
+    effect(() => this.view.update(this.allowed(), this.flyCanElse()));
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * @flyfront/auth - Conditional View
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TemplateRef, ViewContainerRef } from '@angular/core';
+
+/**
+ * Renders a structural directive's template or its else-template
+ *
+ * Only touches the view container when the template to show changes, so
+ * re-evaluating an unchanged condition keeps the existing view.
+ */
+export class ConditionalView {
+  private rendered: TemplateRef<unknown> | null | undefined;
+
+  constructor(
+    private readonly templateRef: TemplateRef<unknown>,
+    private readonly viewContainer: ViewContainerRef
+  ) {}
+
+  /**
+   * Show the template when `condition` is true, the else-template when it is false,
+   * and nothing while it is still unknown (`null`)
+   */
+  update(condition: boolean | null, elseTemplate: TemplateRef<unknown> | null): void {
+    const template = condition === null ? null : condition ? this.templateRef : elseTemplate;
+    if (template === this.rendered) {
+      return;
+    }
+
+    this.viewContainer.clear();
+    this.rendered = template;
+    if (template) {
+      this.viewContainer.createEmbeddedView(template);
+    }
+  }
+}
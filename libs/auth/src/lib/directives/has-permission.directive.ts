@@ -0,0 +1,57 @@
+/**
+ * @flyfront/auth - Has Permission Directive
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Directive, TemplateRef, ViewContainerRef, computed, effect, inject, input } from '@angular/core';
+import { AuthService } from '../services/auth.service';
+import { PermissionMatchMode } from '../models/auth.models';
+import { ConditionalView } from './conditional-view';
+
+/**
+ * Render content only when the user holds the given permissions
+ *
+ * Requires all listed permissions by default; use `mode: 'any'` to require
+ * at least one. Wildcards in granted permissions apply (`orders:*`).
+ *
+ * @example
+ * ```html
+ * <button *flyHasPermission="'orders:delete'">Delete</button>
+ *
+ * <section *flyHasPermission="['reports:read', 'reports:export']; mode: 'any'; else noAccess">...</section>
+ * <ng-template #noAccess>You cannot view reports.</ng-template>
+ * ```
+ */
+@Directive({
+  selector: '[flyHasPermission]',
+  standalone: true,
+})
+export class HasPermissionDirective {
+  private readonly auth = inject(AuthService);
+  private readonly view = new ConditionalView(inject(TemplateRef), inject(ViewContainerRef));
+
+  /** Required permission(s) */
+  readonly permissions = input.required<string | string[]>({ alias: 'flyHasPermission' });
+
+  /** Whether all (default) or any of the permissions are required */
+  readonly flyHasPermissionMode = input<PermissionMatchMode>('all');
+
+  /** Template rendered when the permissions are missing */
+  readonly flyHasPermissionElse = input<TemplateRef<unknown> | null>(null);
+
+  private readonly allowed = computed(() => {
+    if (this.auth.isLoading()) {
+      return null;
+    }
+
+    const required = ([] as string[]).concat(this.permissions());
+    return this.flyHasPermissionMode() === 'any'
+      ? this.auth.hasAnyPermission(required)
+      : this.auth.hasAllPermissions(required);
+  });
+
+  constructor() {
+    effect(() => this.view.update(this.allowed(), this.flyHasPermissionElse()));
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * @flyfront/auth - Has Role Directive
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Directive, TemplateRef, ViewContainerRef, computed, effect, inject, input } from '@angular/core';
+import { AuthService } from '../services/auth.service';
+import { PermissionMatchMode } from '../models/auth.models';
+import { ConditionalView } from './conditional-view';
+
+/**
+ * Render content only when the user holds the given roles
+ *
+ * Requires any of the listed roles by default, like `permissionGuard`; use
+ * `mode: 'all'` to require every one. Roles inherited through
+ * `AuthConfig.roleHierarchy` count.
+ *
+ * @example
+ * ```html
+ * <a *flyHasRole="'admin'" routerLink="/admin">Administration</a>
+ *
+ * <div *flyHasRole="['auditor', 'finance']; mode: 'all'; else restricted">...</div>
+ * <ng-template #restricted>Restricted</ng-template>
+ * ```
+ */
+@Directive({
+  selector: '[flyHasRole]',
+  standalone: true,
+})
+export class HasRoleDirective {
+  private readonly auth = inject(AuthService);
+  private readonly view = new ConditionalView(inject(TemplateRef), inject(ViewContainerRef));
+
+  /** Required role(s) */
+  readonly roles = input.required<string | string[]>({ alias: 'flyHasRole' });
+
+  /** Whether any (default) or all of the roles are required */
+  readonly flyHasRoleMode = input<PermissionMatchMode>('any');
+
+  /** Template rendered when the roles are missing */
+  readonly flyHasRoleElse = input<TemplateRef<unknown> | null>(null);
+
+  private readonly allowed = computed(() => {
+    if (this.auth.isLoading()) {
+      return null;
+    }
+
+    const required = ([] as string[]).concat(this.roles());
+    return this.flyHasRoleMode() === 'all'
+      ? required.every((role) => this.auth.hasRole(role))
+      : this.auth.hasAnyRole(required);
+  });
+
+  constructor() {
+    effect(() => this.view.update(this.allowed(), this.flyHasRoleElse()));
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * @flyfront/auth - Permission Directive Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Component, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { AuthService } from '../services/auth.service';
+import { HasPermissionDirective } from './has-permission.directive';
+import { HasRoleDirective } from './has-role.directive';
+import { AuthenticatedDirective } from './authenticated.directive';
+
+/**
+ * AuthService exposing writable session signals
+ */
+class TestAuthService {
+  readonly isLoading = signal(false);
+  readonly isAuthenticated = signal(true);
+  readonly permissions = signal<string[]>([]);
+  readonly roles = signal<string[]>([]);
+
+  hasAllPermissions(required: string[]): boolean {
+    return required.every((p) => this.permissions().includes(p));
+  }
+
+  hasAnyPermission(required: string[]): boolean {
+    return required.some((p) => this.permissions().includes(p));
+  }
+
+  hasRole(role: string): boolean {
+    return this.roles().includes(role);
+  }
+
+  hasAnyRole(roles: string[]): boolean {
+    return roles.some((r) => this.hasRole(r));
+  }
+}
+
+@Component({
+  standalone: true,
+  imports: [HasPermissionDirective, HasRoleDirective, AuthenticatedDirective],
+  template: `
+    <span *flyHasPermission="['orders:read', 'orders:write']; else denied">all</span>
+    <span *flyHasPermission="['orders:read', 'orders:write']; mode: 'any'">any</span>
+    <span *flyHasRole="['admin', 'auditor']; mode: 'all'">roles</span>
+    <span *flyAuthenticated="true; else anonymous">member</span>
+    <span *flyAuthenticated="false">guest</span>
+    <ng-template #denied><span>denied</span></ng-template>
+    <ng-template #anonymous><span>anonymous</span></ng-template>
+  `,
+})
+class HostComponent {}
+
+describe('Permission directives', () => {
+  let auth: TestAuthService;
+
+  beforeEach(() => {
+    auth = new TestAuthService();
+    TestBed.configureTestingModule({
+      providers: [{ provide: AuthService, useValue: auth }],
+    });
+  });
+
+  function render(): string[] {
+    const fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+    return [...fixture.nativeElement.querySelectorAll('span')].map((el: HTMLElement) => el.textContent);
+  }
+
+  it('should apply all/any semantics and else-templates', () => {
+    auth.permissions.set(['orders:read']);
+    auth.roles.set(['admin']);
+
+    expect(render()).toEqual(['denied', 'any', 'member']);
+  });
+
+  it('should update the view when the session changes', () => {
+    const fixture = TestBed.createComponent(HostComponent);
+    const texts = () =>
+      [...fixture.nativeElement.querySelectorAll('span')].map((el: HTMLElement) => el.textContent);
+    fixture.detectChanges();
+    expect(texts()).toEqual(['denied', 'member']);
+
+    auth.permissions.set(['orders:read', 'orders:write']);
+    auth.roles.set(['admin', 'auditor']);
+    fixture.detectChanges();
+    expect(texts()).toEqual(['all', 'any', 'roles', 'member']);
+
+    auth.isAuthenticated.set(false);
+    fixture.detectChanges();
+    expect(texts()).toEqual(['all', 'any', 'roles', 'anonymous', 'guest']);
+  });
+
+  it('should render nothing while the session is being restored', () => {
+    auth.isLoading.set(true);
+
+    expect(render()).toEqual([]);
+  });
+});
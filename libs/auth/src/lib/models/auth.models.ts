@@ -0,0 +1,186 @@
+/**
+ * @flyfront/auth - Models and Types
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { User } from '@flyfront/core';
+
+/**
+ * Why the user is not (or no longer) authenticated
+ */
+export type UnauthenticatedReason =
+  | 'logout'
+  | 'session_expired'
+  | 'refresh_token_missing'
+  | 'refresh_rejected'
+  | 'refresh_failed'
+  | 'idle_timeout';
+
+/**
+ * OpenID Provider metadata published at `.well-known/openid-configuration`
+ */
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  end_session_endpoint?: string;
+  jwks_uri?: string;
+  scopes_supported?: string[];
+  response_types_supported?: string[];
+  code_challenge_methods_supported?: string[];
+}
+
+/**
+ * Token endpoint response (RFC 6749 section 5.1)
+ */
+export interface OidcTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+  scope?: string;
+}
+
+/**
+ * Parameters for building an authorization request
+ */
+export interface OidcAuthorizeParams {
+  /** URL to return to once the callback has been handled */
+  returnUrl: string;
+  /** OIDC `prompt` parameter */
+  prompt?: 'none' | 'login' | 'consent' | 'select_account';
+  /** OIDC `login_hint` parameter */
+  loginHint?: string;
+}
+
+/**
+ * Transient state persisted between the authorization redirect and the callback
+ */
+export interface OidcAuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  returnUrl: string;
+  createdAt: number;
+}
+
+/**
+ * Result of a successful authorization code exchange
+ */
+export interface OidcCallbackResult {
+  tokens: OidcTokenResponse;
+  returnUrl: string;
+}
+
+/**
+ * JOSE header of a JWT
+ */
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+/**
+ * JSON Web Key as published in a JWKS document
+ */
+export interface JsonWebKeyEntry extends JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+/**
+ * JSON Web Key Set (RFC 7517 section 5)
+ */
+export interface JsonWebKeySet {
+  keys: JsonWebKeyEntry[];
+}
+
+/**
+ * Signature algorithms accepted when verifying tokens
+ */
+export type JwtSignatureAlgorithm = 'RS256' | 'ES256';
+
+/**
+ * Options for token verification
+ */
+export interface TokenVerificationOptions {
+  /** Expected audience (default: `AuthConfig.audience`, then `AuthConfig.clientId`) */
+  audience?: string;
+}
+
+/**
+ * Session events shared between browser tabs
+ */
+export type AuthSyncEventType = 'login' | 'logout' | 'token_refreshed';
+
+/**
+ * Session event received from another tab
+ */
+export interface AuthSyncEvent {
+  type: AuthSyncEventType;
+  /** ID of the tab that sent the event */
+  tabId: string;
+  timestamp: number;
+  /** Why the session ended (logout events only) */
+  reason?: UnauthenticatedReason;
+}
+
+/**
+ * Idle tracking status
+ * - `inactive`: not tracking (unauthenticated or not configured)
+ * - `active`: tracking, user is active
+ * - `warning`: the session will end soon unless it is kept alive
+ */
+export type IdleStatus = 'inactive' | 'active' | 'warning';
+
+/**
+ * Context an authorization policy is evaluated against
+ */
+export interface PolicyContext {
+  /** Current user (`null` when unauthenticated) */
+  user: User | null;
+  /** User roles including inherited ones */
+  roles: string[];
+  /** Route parameters (when evaluated by a guard) */
+  params: Record<string, string>;
+  /** Query parameters (when evaluated by a guard) */
+  queryParams: Record<string, string>;
+  /** Route data (when evaluated by a guard) */
+  data: Record<string, unknown>;
+  /** Resource being accessed (e.g. passed to `*flyCan`) */
+  resource?: unknown;
+}
+
+/**
+ * Attribute-based condition of a policy
+ */
+export type PolicyPredicate = (context: PolicyContext) => boolean;
+
+/**
+ * Declarative authorization rule; every condition that is set must hold
+ */
+export interface PolicyRule {
+  /** Permissions that must all be granted */
+  permissions?: string[];
+  /** Permissions of which at least one must be granted */
+  anyPermissions?: string[];
+  /** Roles of which the user must hold at least one (inherited roles count) */
+  roles?: string[];
+  /** Predicates on the user, route or resource that must all hold */
+  when?: PolicyPredicate | PolicyPredicate[];
+}
+
+/**
+ * Named authorization policies
+ */
+export type PolicyMap = Record<string, PolicyRule>;
+
+/**
+ * Whether all or any of several roles or permissions are required
+ */
+export type PermissionMatchMode = 'all' | 'any';
@@ -0,0 +1,70 @@
+/**
+ * @flyfront/auth - Providers
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import {
+  EnvironmentProviders,
+  inject,
+  makeEnvironmentProviders,
+  provideEnvironmentInitializer,
+} from '@angular/core';
+import { AUTH_SERVICE, PERMISSION_SERVICE } from '@flyfront/core';
+import { IdleService } from '../services/idle.service';
+import { AUTH_POLICIES, PolicyService } from '../services/policy.service';
+import { PolicyMap } from '../models/auth.models';
+
+/**
+ * Enable the idle session timeout configured in `AuthConfig.idle`
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideConfig({
+ *       auth: { provider: 'oidc', idle: { timeout: 900, warningDuration: 60 } },
+ *     }),
+ *     provideIdleTimeout(),
+ *   ],
+ * };
+ * ```
+ */
+export function provideIdleTimeout(): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    provideEnvironmentInitializer(() => {
+      // Instantiating the service starts tracking whenever the user is authenticated
+      inject(IdleService);
+    }),
+  ]);
+}
+
+/**
+ * Register authorization policies and use them for `authGuard` and `permissionGuard`
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideConfig({
+ *       auth: { provider: 'oidc', roleHierarchy: { admin: ['editor'], editor: ['viewer'] } },
+ *     }),
+ *     provideAuthPolicies({
+ *       'orders.edit': {
+ *         permissions: ['orders:write'],
+ *         when: ({ user, resource }) => (resource as Order).ownerId === user?.id,
+ *       },
+ *     }),
+ *   ],
+ * };
+ * ```
+ */
+export function provideAuthPolicies(policies: PolicyMap = {}): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    { provide: AUTH_POLICIES, useValue: policies },
+    { provide: PERMISSION_SERVICE, useExisting: PolicyService },
+    { provide: AUTH_SERVICE, useExisting: PolicyService },
+  ]);
+}
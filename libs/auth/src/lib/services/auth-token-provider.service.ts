@@ -0,0 +1,76 @@
+/**
+ * @flyfront/auth - Auth Token Provider
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { Observable, from, map } from 'rxjs';
+import { TokenProvider } from '@flyfront/core';
+import { AuthService } from './auth.service';
+import { TokenService } from './token.service';
+
+/**
+ * `TokenProvider` backed by `AuthService`, for use with `authTokenInterceptor`
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts
+ * providers: [
+ *   provideHttpClient(withInterceptors([authTokenInterceptor({ refreshOnUnauthorized: true })])),
+ *   { provide: TOKEN_PROVIDER, useExisting: AuthTokenProvider },
+ * ]
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AuthTokenProvider implements TokenProvider {
+  private readonly authService = inject(AuthService);
+  private readonly tokenService = inject(TokenService);
+  private readonly router = inject(Router);
+
+  /**
+   * Get the current access token
+   */
+  getAccessToken(): string | null {
+    return this.tokenService.getAccessToken() ?? null;
+  }
+
+  /**
+   * Check if the current access token is expired
+   */
+  isTokenExpired(): boolean {
+    return this.tokenService.isTokenExpired(this.tokenService.getAccessToken());
+  }
+
+  /**
+   * Refresh the session and emit the new access token
+   */
+  refreshToken(): Observable<string> {
+    return from(this.authService.refreshToken()).pipe(
+      map((refreshed) => {
+        const token = this.tokenService.getAccessToken();
+        if (!refreshed || !token) {
+          throw new Error('Token refresh failed');
+        }
+        return token;
+      })
+    );
+  }
+
+  /**
+   * Log the user out after a failed refresh
+   *
+   * A failed `AuthService.refreshToken()` has already ended the session, so
+   * only the navigation is left to do.
+   */
+  logout(): void {
+    if (this.authService.state().isAuthenticated) {
+      this.authService.logout();
+    } else {
+      this.router.navigate(['/']);
+    }
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * @flyfront/auth - Authentication Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router, provideRouter } from '@angular/router';
+import { provideConfig } from '@flyfront/core';
+import { AuthService } from './auth.service';
+import { AuthTokenProvider } from './auth-token-provider.service';
+import { TokenService } from './token.service';
+import { SessionSyncService } from './session-sync.service';
+import { OidcDiscoveryDocument } from '../models/auth.models';
+
+const ISSUER = 'https://idp.test';
+
+const DISCOVERY: OidcDiscoveryDocument = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/authorize`,
+  token_endpoint: `${ISSUER}/token`,
+};
+
+/**
+ * Build an unsigned JWT for the given subject expiring in `expiresIn` seconds
+ */
+function createAccessToken(sub: string, expiresIn = 3600): string {
+  const encode = (value: unknown) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  const now = Math.floor(Date.now() / 1000);
+  return `${encode({ alg: 'none' })}.${encode({ sub, iss: ISSUER, aud: 'app', iat: now, exp: now + expiresIn })}.`;
+}
+
+/**
+ * Let pending promise continuations run
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve));
+}
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let tokens: TokenService;
+  let idp: HttpTestingController;
+
+  beforeEach(() => {
+    localStorage.clear();
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([]),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideConfig({
+          auth: { provider: 'oidc', issuerUrl: ISSUER, clientId: 'app', refreshThreshold: 60 },
+        }),
+      ],
+    });
+
+    service = TestBed.inject(AuthService);
+    tokens = TestBed.inject(TokenService);
+    idp = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    idp.verify();
+    TestBed.resetTestingModule();
+  });
+
+  describe('refreshToken', () => {
+    beforeEach(() => {
+      tokens.setTokens({
+        accessToken: createAccessToken('user-1', 30),
+        refreshToken: 'refresh-1',
+        expiresAt: Date.now() + 30000,
+      });
+    });
+
+    it('should collapse concurrent refreshes into one request and rotate the refresh token', async () => {
+      const first = service.refreshToken();
+      const second = service.refreshToken();
+
+      idp.expectOne(`${ISSUER}/.well-known/openid-configuration`).flush(DISCOVERY);
+      await settle();
+
+      const request = idp.expectOne(DISCOVERY.token_endpoint);
+      const body = new URLSearchParams(request.request.body as string);
+      expect(body.get('grant_type')).toBe('refresh_token');
+      expect(body.get('refresh_token')).toBe('refresh-1');
+
+      request.flush({
+        access_token: createAccessToken('user-1'),
+        token_type: 'Bearer',
+        expires_in: 3600,
+        refresh_token: 'refresh-2',
+      });
+
+      expect(await Promise.all([first, second])).toEqual([true, true]);
+      expect(tokens.getRefreshToken()).toBe('refresh-2');
+      expect(service.isAuthenticated()).toBe(true);
+      expect(service.user()?.id).toBe('user-1');
+    });
+
+    it('should end the session with a typed reason when the grant is rejected', async () => {
+      const result = service.refreshToken();
+
+      idp.expectOne(`${ISSUER}/.well-known/openid-configuration`).flush(DISCOVERY);
+      await settle();
+      idp
+        .expectOne(DISCOVERY.token_endpoint)
+        .flush({ error: 'invalid_grant' }, { status: 400, statusText: 'Bad Request' });
+
+      expect(await result).toBe(false);
+      expect(service.isAuthenticated()).toBe(false);
+      expect(service.reason()).toBe('refresh_rejected');
+      expect(tokens.getAccessToken()).toBeUndefined();
+    });
+
+    it('should only navigate when the token provider logs out after a failed refresh', async () => {
+      const provider = TestBed.inject(AuthTokenProvider);
+      const result = service.refreshToken();
+      idp.expectOne(`${ISSUER}/.well-known/openid-configuration`).flush(DISCOVERY);
+      await settle();
+      idp
+        .expectOne(DISCOVERY.token_endpoint)
+        .flush({ error: 'invalid_grant' }, { status: 400, statusText: 'Bad Request' });
+      expect(await result).toBe(false);
+
+      const broadcast = vi.spyOn(TestBed.inject(SessionSyncService), 'broadcast');
+      const clearTokens = vi.spyOn(tokens, 'clearTokens');
+      const navigate = vi.spyOn(TestBed.inject(Router), 'navigate').mockResolvedValue(true);
+      provider.logout();
+
+      expect(broadcast).not.toHaveBeenCalled();
+      expect(clearTokens).not.toHaveBeenCalled();
+      expect(navigate).toHaveBeenCalledWith(['/']);
+      expect(service.reason()).toBe('refresh_rejected');
+    });
+
+    it('should report transport failures separately from rejected grants', async () => {
+      const result = service.refreshToken();
+
+      idp.expectOne(`${ISSUER}/.well-known/openid-configuration`).flush(DISCOVERY);
+      await settle();
+      idp.expectOne(DISCOVERY.token_endpoint).error(new ProgressEvent('error'));
+
+      expect(await result).toBe(false);
+      expect(service.reason()).toBe('refresh_failed');
+    });
+
+    it('should not call the token endpoint without a refresh token', async () => {
+      tokens.clearTokens();
+
+      expect(await service.refreshToken()).toBe(false);
+      expect(service.reason()).toBe('refresh_token_missing');
+    });
+
+    it('should adopt tokens another tab rotated instead of redeeming a stale refresh token', async () => {
+      // The other tab holds the refresh lock and rotates the tokens before releasing it
+      const locks = { request: (_name: string, task: () => Promise<unknown>) => Promise.resolve().then(task) };
+      Object.defineProperty(navigator, 'locks', { value: locks, configurable: true });
+      onTestFinished(() => {
+        delete (navigator as { locks?: unknown }).locks;
+      });
+
+      const result = service.refreshToken();
+      tokens.setTokens({
+        accessToken: createAccessToken('user-1'),
+        refreshToken: 'refresh-2',
+        expiresAt: Date.now() + 3600000,
+      });
+
+      // No discovery or token request is expected
+      expect(await result).toBe(true);
+      expect(service.isAuthenticated()).toBe(true);
+    });
+  });
+
+  describe('cross-tab sync', () => {
+    let otherTab: SessionSyncService;
+
+    beforeEach(() => {
+      otherTab = TestBed.runInInjectionContext(() => new SessionSyncService());
+    });
+
+    afterEach(() => {
+      otherTab.ngOnDestroy();
+    });
+
+    it('should pick up a session established in another tab', async () => {
+      tokens.setTokens({ accessToken: createAccessToken('user-2'), expiresAt: Date.now() + 3600000 });
+
+      otherTab.broadcast('login');
+
+      await vi.waitFor(() => expect(service.isAuthenticated()).toBe(true));
+      expect(service.user()?.id).toBe('user-2');
+    });
+
+    it('should end the session when another tab logs out', async () => {
+      tokens.setTokens({ accessToken: createAccessToken('user-1'), expiresAt: Date.now() + 3600000 });
+      otherTab.broadcast('login');
+      await vi.waitFor(() => expect(service.isAuthenticated()).toBe(true));
+
+      tokens.clearTokens();
+      otherTab.broadcast('logout', 'refresh_rejected');
+
+      await vi.waitFor(() => expect(service.isAuthenticated()).toBe(false));
+      expect(service.reason()).toBe('refresh_rejected');
+    });
+  });
+});
@@ -4,12 +4,18 @@
  * @copyright 2026 Firefly Software Solutions Inc.
  */
 
-import { Injectable, inject, signal, computed } from '@angular/core';
+import { Injectable, inject, signal, computed, OnDestroy, PLATFORM_ID } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+import { HttpErrorResponse } from '@angular/common/http';
 import { Router } from '@angular/router';
-import { BehaviorSubject, Observable, of, from, throwError } from 'rxjs';
-import { map, tap, catchError, switchMap } from 'rxjs/operators';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { BehaviorSubject } from 'rxjs';
 import { TokenService } from './token.service';
-import { User, AuthConfig } from '@flyfront/core';
+import { OidcService } from './oidc.service';
+import { SessionSyncService } from './session-sync.service';
+import { AuthSyncEvent, OidcTokenResponse, UnauthenticatedReason } from '../models/auth.models';
+import { expandRoles, hasGrantedPermission } from '../utils/permission.utils';
+import { ConfigService, User } from '@flyfront/core';
 
 /**
  * Authentication state
@@ -19,8 +25,21 @@ export interface AuthState {
   isLoading: boolean;
   user: User | null;
   error: string | null;
+  /** Reason for the last transition to unauthenticated */
+  reason: UnauthenticatedReason | null;
 }
 
+/**
+ * Seconds before expiry at which a follower tab refreshes on its own because
+ * the leader tab did not (e.g. it was throttled in the background)
+ */
+const FOLLOWER_REFRESH_DEADLINE = 15;
+
+/**
+ * Interval at which a follower tab re-checks a token the leader should refresh
+ */
+const FOLLOWER_RECHECK_INTERVAL = 5000;
+
 /**
  * Login options
  */
@@ -33,6 +52,10 @@ export interface LoginOptions {
 /**
  * Authentication service providing OIDC/OAuth2 authentication
  *
+ * The session is kept in sync across browser tabs: logging in, logging out
+ * or refreshing tokens in one tab updates the `state` of every other tab,
+ * and only the leader tab refreshes tokens on a schedule.
+ *
  * @example
  * ```typescript
  * const auth = inject(AuthService);
@@ -52,15 +75,24 @@ export interface LoginOptions {
 @Injectable({
   providedIn: 'root',
 })
-export class AuthService {
+export class AuthService implements OnDestroy {
   private readonly router = inject(Router);
   private readonly tokenService = inject(TokenService);
+  private readonly oidc = inject(OidcService);
+  private readonly sessionSync = inject(SessionSyncService);
+  private readonly config = inject(ConfigService);
+  private readonly document = inject(DOCUMENT);
+  private readonly platformId = inject(PLATFORM_ID);
+
+  private refreshInFlight: Promise<boolean> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
 
   private readonly _state = signal<AuthState>({
     isAuthenticated: false,
     isLoading: true,
     user: null,
     error: null,
+    reason: null,
   });
 
   /** Authentication state */
@@ -78,9 +110,17 @@ export class AuthService {
   /** Authentication error */
   readonly error = computed(() => this._state().error);
 
+  /** Reason the user is unauthenticated */
+  readonly reason = computed(() => this._state().reason);
+
   /** User roles */
   readonly roles = computed(() => this._state().user?.roles ?? []);
 
+  /** User roles including those inherited through `AuthConfig.roleHierarchy` */
+  readonly effectiveRoles = computed(() =>
+    expandRoles(this.roles(), this.config.get('auth').roleHierarchy)
+  );
+
   /** User permissions */
   readonly permissions = computed(() => this._state().user?.permissions ?? []);
 
@@ -88,9 +128,17 @@ export class AuthService {
   readonly isAuthenticated$ = new BehaviorSubject<boolean>(false);
 
   constructor() {
+    this.sessionSync.events$
+      .pipe(takeUntilDestroyed())
+      .subscribe((event) => this.handleSyncEvent(event));
+
     this.initialize();
   }
 
+  ngOnDestroy(): void {
+    this.cancelScheduledRefresh();
+  }
+
   /**
    * Initialize authentication state
    */
@@ -101,8 +149,10 @@ export class AuthService {
       if (token && !this.tokenService.isTokenExpired(token)) {
         const user = await this.fetchUserInfo();
         this.setAuthenticated(user);
+      } else if (token && this.tokenService.getRefreshToken()) {
+        await this.refreshToken();
       } else {
-        this.setUnauthenticated();
+        this.setUnauthenticated(token ? 'session_expired' : null);
       }
     } catch (error) {
       console.error('Failed to initialize auth:', error);
@@ -119,25 +169,38 @@ export class AuthService {
   }
 
   /**
-   * Login the user
+   * Login the user by redirecting to the OIDC provider
    */
-  login(options: LoginOptions = {}): void {
-    const { returnUrl = '/' } = options;
+  async login(options: LoginOptions = {}): Promise<void> {
+    const { returnUrl = '/', prompt, loginHint } = options;
 
-    // Store return URL
-    sessionStorage.setItem('fly_auth_return_url', returnUrl);
-
-    // For demo purposes, simulate login
-    // In production, redirect to OIDC provider
-    this.simulateLogin();
+    try {
+      const url = await this.oidc.createAuthorizationUrl({ returnUrl, prompt, loginHint });
+      this.document.location.assign(url);
+    } catch (error) {
+      console.error('Login failed:', error);
+      this._state.update((s) => ({
+        ...s,
+        isLoading: false,
+        error: 'Unable to start login',
+      }));
+    }
   }
 
   /**
    * Logout the user
+   * @param returnUrl - URL to navigate to afterwards (default: `/`)
+   * @param reason - Why the session ends (default: `logout`)
    */
-  logout(returnUrl?: string): void {
+  logout(returnUrl?: string, reason: UnauthenticatedReason = 'logout'): void {
+    // Keep the reason of a session that already ended (e.g. a failed refresh)
+    const { isAuthenticated, reason: currentReason } = this._state();
+
+    const endedReason = isAuthenticated ? reason : (currentReason ?? reason);
+
     this.tokenService.clearTokens();
-    this.setUnauthenticated();
+    this.setUnauthenticated(endedReason);
+    this.sessionSync.broadcast('logout', endedReason);
 
     if (returnUrl) {
       this.router.navigate([returnUrl]);
@@ -153,35 +216,18 @@ export class AuthService {
     this._state.update((s) => ({ ...s, isLoading: true }));
 
     try {
-      // Parse callback URL for tokens
-      const hash = window.location.hash;
-      const params = new URLSearchParams(hash.substring(1));
-
-      const accessToken = params.get('access_token');
-      const idToken = params.get('id_token');
-      const expiresIn = params.get('expires_in');
-
-      if (accessToken) {
-        const expirationTime = expiresIn
-          ? Date.now() + parseInt(expiresIn, 10) * 1000
-          : Date.now() + 3600000;
-
-        this.tokenService.setTokens({
-          accessToken,
-          idToken: idToken || undefined,
-          expiresAt: expirationTime,
-        });
+      const { tokens, returnUrl } = await this.oidc.handleAuthorizationResponse(
+        this.document.location.search
+      );
 
-        const user = await this.fetchUserInfo();
-        this.setAuthenticated(user);
+      await this.acceptTokens(tokens);
 
-        // Navigate to return URL
-        const returnUrl = sessionStorage.getItem('fly_auth_return_url') || '/';
-        sessionStorage.removeItem('fly_auth_return_url');
-        this.router.navigate([returnUrl]);
-      } else {
-        throw new Error('No access token in callback');
-      }
+      const user = await this.fetchUserInfo();
+      this.setAuthenticated(user);
+      this.sessionSync.broadcast('login');
+
+      // Navigate to return URL, dropping the code from history
+      this.router.navigateByUrl(returnUrl, { replaceUrl: true });
     } catch (error) {
       console.error('Callback handling failed:', error);
       this._state.update((s) => ({
@@ -193,30 +239,28 @@ export class AuthService {
   }
 
   /**
-   * Refresh the access token
+   * Refresh the access token using the stored refresh token
+   *
+   * Concurrent calls share a single in-flight request, and refreshes are
+   * serialized across tabs. On failure the tokens are cleared and the state
+   * moves to unauthenticated with a typed reason.
    */
-  async refreshToken(): Promise<boolean> {
-    try {
-      const refreshToken = this.tokenService.getRefreshToken();
-      if (!refreshToken) {
-        return false;
-      }
-
-      // In production, call token refresh endpoint
-      // For demo, just return true
-      return true;
-    } catch (error) {
-      console.error('Token refresh failed:', error);
-      this.logout();
-      return false;
+  refreshToken(): Promise<boolean> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.performRefresh().finally(() => {
+        this.refreshInFlight = null;
+      });
     }
+    return this.refreshInFlight;
   }
 
   /**
    * Check if user has a specific permission
+   *
+   * Granted permissions may use wildcards: `orders:*` grants `orders:read`.
    */
   hasPermission(permission: string): boolean {
-    return this.permissions().includes(permission);
+    return hasGrantedPermission(this.permissions(), permission);
   }
 
   /**
@@ -224,7 +268,7 @@ export class AuthService {
    */
   hasAllPermissions(permissions: string[]): boolean {
     const userPermissions = this.permissions();
-    return permissions.every((p) => userPermissions.includes(p));
+    return permissions.every((p) => hasGrantedPermission(userPermissions, p));
   }
 
   /**
@@ -232,21 +276,21 @@ export class AuthService {
    */
   hasAnyPermission(permissions: string[]): boolean {
     const userPermissions = this.permissions();
-    return permissions.some((p) => userPermissions.includes(p));
+    return permissions.some((p) => hasGrantedPermission(userPermissions, p));
   }
 
   /**
-   * Check if user has a specific role
+   * Check if user has a specific role, directly or through the role hierarchy
    */
   hasRole(role: string): boolean {
-    return this.roles().includes(role);
+    return this.effectiveRoles().includes(role);
   }
 
   /**
    * Check if user has any of the specified roles
    */
   hasAnyRole(roles: string[]): boolean {
-    const userRoles = this.roles();
+    const userRoles = this.effectiveRoles();
     return roles.some((r) => userRoles.includes(r));
   }
 
@@ -266,7 +310,9 @@ export class AuthService {
       throw new Error('No access token');
     }
 
-    const payload = this.tokenService.decodeToken(token);
+    const payload = this.tokenService.verificationEnabled
+      ? await this.tokenService.verifyToken(token)
+      : this.tokenService.decodeToken(token);
 
     return {
       id: payload.sub,
@@ -280,6 +326,179 @@ export class AuthService {
     };
   }
 
+  /**
+   * Exchange the refresh token for a new token set
+   */
+  private async performRefresh(): Promise<boolean> {
+    const refreshToken = this.tokenService.getRefreshToken();
+    if (!refreshToken) {
+      this.endSession('refresh_token_missing');
+      return false;
+    }
+
+    return this.sessionSync.runExclusive(() => this.redeemRefreshToken(refreshToken));
+  }
+
+  /**
+   * Redeem the refresh token unless another tab already rotated it
+   * @param expected - Refresh token read before waiting for the cross-tab lock
+   */
+  private async redeemRefreshToken(expected: string): Promise<boolean> {
+    const refreshToken = this.tokenService.getRefreshToken();
+    if (!refreshToken) {
+      this.endSession('refresh_token_missing');
+      return false;
+    }
+
+    const accessToken = this.tokenService.getAccessToken();
+    if (refreshToken !== expected && !this.tokenService.isTokenExpired(accessToken)) {
+      return this.adoptStoredSession();
+    }
+
+    try {
+      const tokens = await this.oidc.refreshTokens(refreshToken);
+      await this.acceptTokens(tokens);
+
+      const user = await this.fetchUserInfo();
+      this.setAuthenticated(user);
+      this.sessionSync.broadcast('token_refreshed');
+      return true;
+    } catch (error) {
+      console.error('Token refresh failed:', error);
+      this.endSession(this.isRejectedGrant(error) ? 'refresh_rejected' : 'refresh_failed');
+      return false;
+    }
+  }
+
+  /**
+   * Apply a session event published by another tab
+   */
+  private handleSyncEvent(event: AuthSyncEvent): void {
+    switch (event.type) {
+      case 'login':
+      case 'token_refreshed':
+        // Tokens live in shared localStorage; pick up what the other tab stored
+        this.adoptStoredSession();
+        break;
+      case 'logout':
+        this.setUnauthenticated(event.reason ?? 'logout');
+        break;
+    }
+  }
+
+  /**
+   * Authenticate from the tokens currently in storage
+   */
+  private async adoptStoredSession(): Promise<boolean> {
+    const token = this.tokenService.getAccessToken();
+    if (!token || this.tokenService.isTokenExpired(token)) {
+      this.setUnauthenticated('session_expired');
+      return false;
+    }
+
+    try {
+      const user = await this.fetchUserInfo();
+      this.setAuthenticated(user);
+      return true;
+    } catch (error) {
+      console.error('Failed to adopt session from another tab:', error);
+      this.setUnauthenticated('session_expired');
+      return false;
+    }
+  }
+
+  /**
+   * Whether the token endpoint rejected the grant (as opposed to a transport failure)
+   */
+  private isRejectedGrant(error: unknown): boolean {
+    return error instanceof HttpErrorResponse && (error.status === 400 || error.status === 401);
+  }
+
+  /**
+   * Schedule a refresh shortly before the access token expires
+   *
+   * Only the leader tab refreshes at the threshold; followers wait for its
+   * `token_refreshed` event and only step in close to expiry.
+   * @param minDelay - Lower bound for the delay in milliseconds
+   */
+  private scheduleRefresh(minDelay = 0): void {
+    this.cancelScheduledRefresh();
+
+    const { autoRefresh = true, refreshThreshold = 60 } = this.config.get('auth');
+    if (!autoRefresh || !isPlatformBrowser(this.platformId) || !this.tokenService.getRefreshToken()) {
+      return;
+    }
+
+    const remaining = this.tokenService.getTimeUntilExpiry();
+    const delay = Math.max(minDelay, (remaining - refreshThreshold) * 1000);
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      const token = this.tokenService.getAccessToken();
+      if (!this.tokenService.willExpireSoon(token, refreshThreshold)) {
+        this.scheduleRefresh();
+      } else if (
+        this.sessionSync.isLeader() ||
+        this.tokenService.willExpireSoon(token, FOLLOWER_REFRESH_DEADLINE)
+      ) {
+        this.refreshToken();
+      } else {
+        this.scheduleRefresh(FOLLOWER_RECHECK_INTERVAL);
+      }
+    }, delay);
+  }
+
+  /**
+   * Cancel a scheduled refresh
+   */
+  private cancelScheduledRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Clear tokens and move to unauthenticated
+   */
+  private endSession(reason: UnauthenticatedReason): void {
+    this.tokenService.clearTokens();
+    this.setUnauthenticated(reason);
+    this.sessionSync.broadcast('logout', reason);
+  }
+
+  /**
+   * Verify (when enabled) and persist a token endpoint response
+   */
+  private async acceptTokens(tokens: OidcTokenResponse): Promise<void> {
+    if (this.tokenService.verificationEnabled) {
+      await this.tokenService.verifyToken(tokens.access_token);
+
+      if (tokens.id_token) {
+        // ID tokens are always issued to the client itself
+        await this.tokenService.verifyToken(tokens.id_token, {
+          audience: this.config.get('auth').clientId,
+        });
+      }
+    }
+
+    this.storeTokens(tokens);
+  }
+
+  /**
+   * Persist a token endpoint response
+   */
+  private storeTokens(tokens: OidcTokenResponse): void {
+    const expiresIn = tokens.expires_in ?? 3600;
+
+    this.tokenService.setTokens({
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      idToken: tokens.id_token,
+      expiresAt: Date.now() + expiresIn * 1000,
+    });
+  }
+
   /**
    * Set authenticated state
    */
@@ -289,57 +508,24 @@ export class AuthService {
       isLoading: false,
       user,
       error: null,
+      reason: null,
     });
     this.isAuthenticated$.next(true);
+    this.scheduleRefresh();
   }
 
   /**
    * Set unauthenticated state
    */
-  private setUnauthenticated(): void {
+  private setUnauthenticated(reason: UnauthenticatedReason | null = null): void {
+    this.cancelScheduledRefresh();
     this._state.set({
       isAuthenticated: false,
       isLoading: false,
       user: null,
       error: null,
+      reason,
     });
     this.isAuthenticated$.next(false);
   }
-
-  /**
-   * Simulate login for demo purposes
-   */
-  private simulateLogin(): void {
-    // Create demo tokens
-    const now = Math.floor(Date.now() / 1000);
-    const payload = {
-      sub: 'demo-user-123',
-      iss: 'https://auth.flyfront.dev',
-      aud: 'flyfront-app',
-      exp: now + 3600,
-      iat: now,
-      preferred_username: 'demo.user',
-      email: 'demo@flyfront.dev',
-      name: 'Demo User',
-      roles: ['user', 'admin'],
-      permissions: ['read', 'write', 'delete'],
-    };
-
-    // Create a simple JWT-like token (not a real JWT)
-    const header = btoa(JSON.stringify({ alg: 'none', typ: 'JWT' }));
-    const body = btoa(JSON.stringify(payload));
-    const token = `${header}.${body}.`;
-
-    this.tokenService.setTokens({
-      accessToken: token,
-      expiresAt: (now + 3600) * 1000,
-    });
-
-    this.fetchUserInfo().then((user) => {
-      this.setAuthenticated(user);
-      const returnUrl = sessionStorage.getItem('fly_auth_return_url') || '/';
-      sessionStorage.removeItem('fly_auth_return_url');
-      this.router.navigate([returnUrl]);
-    });
-  }
 }
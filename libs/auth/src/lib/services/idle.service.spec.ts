@@ -0,0 +1,104 @@
+/**
+ * @flyfront/auth - Idle Session Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideConfig } from '@flyfront/core';
+import { IdleService } from './idle.service';
+import { AuthService, AuthState } from './auth.service';
+
+/**
+ * Minimal AuthService exposing the state the idle service reacts to
+ */
+function createAuthStub() {
+  const state = signal<AuthState>({
+    isAuthenticated: false,
+    isLoading: true,
+    user: null,
+    error: null,
+    reason: null,
+  });
+
+  return {
+    state,
+    logout: vi.fn(() => state.update((s) => ({ ...s, isAuthenticated: false, isLoading: false }))),
+    signIn: () => state.update((s) => ({ ...s, isAuthenticated: true, isLoading: false })),
+  };
+}
+
+describe('IdleService', () => {
+  let idle: IdleService;
+  let auth: ReturnType<typeof createAuthStub>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    auth = createAuthStub();
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideConfig({ auth: { provider: 'oidc', idle: { timeout: 120, warningDuration: 30 } } }),
+        { provide: AuthService, useValue: auth },
+      ],
+    });
+
+    idle = TestBed.inject(IdleService);
+    auth.signIn();
+    TestBed.tick();
+  });
+
+  afterEach(() => {
+    TestBed.resetTestingModule();
+    vi.useRealTimers();
+  });
+
+  it('should warn before the timeout and log out when it elapses', () => {
+    expect(idle.status()).toBe('active');
+    expect(idle.remainingSeconds()).toBe(120);
+
+    vi.advanceTimersByTime(91000);
+    expect(idle.isWarning()).toBe(true);
+    expect(idle.remainingSeconds()).toBe(29);
+
+    vi.advanceTimersByTime(29000);
+    expect(auth.logout).toHaveBeenCalledWith(undefined, 'idle_timeout');
+
+    TestBed.tick();
+    expect(idle.status()).toBe('inactive');
+    expect(idle.remainingSeconds()).toBeNull();
+  });
+
+  it('should extend the session on activity but require keepAlive once warned', () => {
+    vi.advanceTimersByTime(60000);
+    document.dispatchEvent(new MouseEvent('mousemove'));
+    vi.advanceTimersByTime(1000);
+    expect(idle.remainingSeconds()).toBe(119);
+
+    vi.advanceTimersByTime(100000);
+    expect(idle.isWarning()).toBe(true);
+
+    document.dispatchEvent(new KeyboardEvent('keydown'));
+    vi.advanceTimersByTime(1000);
+    expect(idle.isWarning()).toBe(true);
+
+    idle.keepAlive();
+    expect(idle.status()).toBe('active');
+    expect(idle.remainingSeconds()).toBe(120);
+  });
+
+  it('should follow activity recorded by another tab', () => {
+    vi.advanceTimersByTime(100000);
+    expect(idle.isWarning()).toBe(true);
+
+    // Another tab shares its activity through localStorage
+    localStorage.setItem('fly_auth_last_activity', JSON.stringify({ value: Date.now(), createdAt: Date.now() }));
+    vi.advanceTimersByTime(1000);
+
+    expect(idle.status()).toBe('active');
+    expect(idle.remainingSeconds()).toBe(119);
+    expect(auth.logout).not.toHaveBeenCalled();
+  });
+});
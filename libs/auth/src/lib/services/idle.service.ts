@@ -0,0 +1,258 @@
+/**
+ * @flyfront/auth - Idle Session Service
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import {
+  Injectable,
+  inject,
+  signal,
+  computed,
+  effect,
+  untracked,
+  OnDestroy,
+  PLATFORM_ID,
+} from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+import { ConfigService, IdleConfig, StorageService } from '@flyfront/core';
+import { AuthService } from './auth.service';
+import { SessionSyncService } from './session-sync.service';
+import { IdleStatus } from '../models/auth.models';
+
+/**
+ * Storage key of the last user activity, shared by all tabs
+ */
+const LAST_ACTIVITY_KEY = 'auth_last_activity';
+
+/**
+ * DOM events that count as user activity
+ */
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart', 'scroll'];
+
+/**
+ * Minimum interval between two writes of the activity timestamp
+ */
+const ACTIVITY_WRITE_INTERVAL = 1000;
+
+/**
+ * Interval at which a visible tab updates the countdown
+ */
+const TICK_INTERVAL = 1000;
+
+/**
+ * Default warning duration in seconds
+ */
+const DEFAULT_WARNING_DURATION = 60;
+
+/**
+ * Logs the user out after a period of inactivity
+ *
+ * Tracking starts when the user is authenticated and `AuthConfig.idle` is
+ * configured. The last activity is shared between tabs, so activity in any
+ * tab keeps the session alive everywhere. Background tabs stop updating the
+ * countdown; only the leader tab keeps a timer for the deadline itself.
+ *
+ * Once the warning starts, passive activity no longer extends the session:
+ * the user has to confirm with `keepAlive()` (e.g. from a countdown dialog).
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * providers: [
+ *   provideConfig({ auth: { provider: 'oidc', idle: { timeout: 900, warningDuration: 60 } } }),
+ *   provideIdleTimeout(),
+ * ]
+ *
+ * // shell component
+ * readonly idle = inject(IdleService);
+ * ```
+ *
+ * ```html
+ * <fly-session-timeout-dialog
+ *   [open]="idle.isWarning()"
+ *   [remainingSeconds]="idle.remainingSeconds() ?? 0"
+ *   (stay)="idle.keepAlive()"
+ *   (signOut)="auth.logout()"
+ * />
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class IdleService implements OnDestroy {
+  private readonly auth = inject(AuthService);
+  private readonly config = inject(ConfigService);
+  private readonly storage = inject(StorageService);
+  private readonly sessionSync = inject(SessionSyncService);
+  private readonly document = inject(DOCUMENT);
+  private readonly isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastWrite = 0;
+
+  private readonly _status = signal<IdleStatus>('inactive');
+  private readonly _remainingSeconds = signal<number | null>(null);
+
+  /** Idle tracking status */
+  readonly status = this._status.asReadonly();
+
+  /** Seconds until the session ends for inactivity (`null` when not tracking) */
+  readonly remainingSeconds = this._remainingSeconds.asReadonly();
+
+  /** Whether the session is about to end */
+  readonly isWarning = computed(() => this._status() === 'warning');
+
+  constructor() {
+    effect(() => {
+      const { isAuthenticated, isLoading } = this.auth.state();
+
+      untracked(() => {
+        if (isAuthenticated) {
+          this.start();
+        } else if (!isLoading) {
+          this.stop();
+        }
+      });
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.detach();
+  }
+
+  /**
+   * Record activity and dismiss the warning
+   */
+  keepAlive(): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.recordActivity();
+    this.evaluate();
+  }
+
+  /**
+   * Idle configuration, or `null` when the idle timeout is disabled
+   */
+  private get idleConfig(): IdleConfig | null {
+    const idle = this.config.get('auth').idle;
+    return idle && idle.enabled !== false && idle.timeout > 0 ? idle : null;
+  }
+
+  /**
+   * Start tracking activity
+   */
+  private start(): void {
+    if (this.running || !this.isBrowser || !this.idleConfig) {
+      return;
+    }
+
+    this.running = true;
+    ACTIVITY_EVENTS.forEach((type) =>
+      this.document.addEventListener(type, this.onActivity, { capture: true, passive: true })
+    );
+    this.document.addEventListener('visibilitychange', this.onVisibilityChange);
+
+    // A stale timestamp means the user was idle while the app was closed
+    if (this.storage.get<number>(LAST_ACTIVITY_KEY) === undefined) {
+      this.recordActivity();
+    }
+    this.evaluate();
+  }
+
+  /**
+   * Stop tracking and forget the shared activity timestamp
+   */
+  private stop(): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.detach();
+    this.storage.remove(LAST_ACTIVITY_KEY);
+  }
+
+  /**
+   * Remove listeners and timers and reset the signals
+   */
+  private detach(): void {
+    this.running = false;
+    this.clearTimer();
+    ACTIVITY_EVENTS.forEach((type) =>
+      this.document.removeEventListener(type, this.onActivity, { capture: true })
+    );
+    this.document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    this._status.set('inactive');
+    this._remainingSeconds.set(null);
+  }
+
+  /**
+   * Update the signals from the shared activity timestamp and schedule the next check
+   */
+  private evaluate(): void {
+    this.clearTimer();
+
+    const idle = this.idleConfig;
+    if (!this.running || !idle) {
+      return;
+    }
+
+    const lastActivity = this.storage.get<number>(LAST_ACTIVITY_KEY) ?? Date.now();
+    const remaining = lastActivity + idle.timeout * 1000 - Date.now();
+
+    if (remaining <= 0) {
+      this.auth.logout(undefined, 'idle_timeout');
+      return;
+    }
+
+    const warningDuration = idle.warningDuration ?? DEFAULT_WARNING_DURATION;
+    this._remainingSeconds.set(Math.ceil(remaining / 1000));
+    this._status.set(remaining <= warningDuration * 1000 ? 'warning' : 'active');
+
+    if (this.document.visibilityState !== 'hidden') {
+      this.timer = setTimeout(() => this.evaluate(), Math.min(TICK_INTERVAL, remaining));
+    } else if (this.sessionSync.isLeader()) {
+      // Paused in the background, but someone has to enforce the deadline
+      this.timer = setTimeout(() => this.evaluate(), remaining);
+    }
+  }
+
+  /**
+   * Share the current time as the last activity
+   */
+  private recordActivity(): void {
+    this.lastWrite = Date.now();
+    this.storage.set(LAST_ACTIVITY_KEY, this.lastWrite);
+  }
+
+  /**
+   * Clear the pending check
+   */
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Record (throttled) user activity unless the warning is showing
+   */
+  private readonly onActivity = (): void => {
+    if (this._status() === 'warning' || Date.now() - this.lastWrite < ACTIVITY_WRITE_INTERVAL) {
+      return;
+    }
+
+    this.recordActivity();
+  };
+
+  /**
+   * Resume (and catch up) or pause the countdown with the tab's visibility
+   */
+  private readonly onVisibilityChange = (): void => {
+    this.evaluate();
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * @flyfront/auth - JWKS Service
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { SKIP_AUTH } from '@flyfront/core';
+import { OidcService } from './oidc.service';
+import { JsonWebKeyEntry, JsonWebKeySet, JwtSignatureAlgorithm } from '../models/auth.models';
+
+/**
+ * Minimum interval between JWKS refetches triggered by an unknown key ID (ms)
+ */
+const MIN_REFETCH_INTERVAL = 60000;
+
+/**
+ * WebCrypto import parameters per JWS algorithm
+ */
+const IMPORT_ALGORITHMS: Record<JwtSignatureAlgorithm, RsaHashedImportParams | EcKeyImportParams> = {
+  RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  ES256: { name: 'ECDSA', namedCurve: 'P-256' },
+};
+
+/**
+ * Service for fetching and caching the issuer's JSON Web Key Set
+ *
+ * The key set location is taken from the discovery document's `jwks_uri`.
+ * Imported keys are cached per key ID, and an unknown key ID triggers a
+ * (rate-limited) refetch to pick up rotated keys.
+ *
+ * @example
+ * ```typescript
+ * const jwks = inject(JwksService);
+ * const key = await jwks.getVerificationKey('RS256', header.kid);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class JwksService {
+  private readonly http = inject(HttpClient);
+  private readonly oidc = inject(OidcService);
+
+  private keySet: Promise<JsonWebKeySet> | null = null;
+  private readonly importedKeys = new Map<string, Promise<CryptoKey>>();
+  private lastFetchedAt = 0;
+
+  /**
+   * Get the public key for a signature algorithm and key ID
+   */
+  async getVerificationKey(alg: JwtSignatureAlgorithm, kid?: string): Promise<CryptoKey> {
+    let jwk = this.findKey(await this.loadKeySet(), alg, kid);
+
+    if (!jwk && Date.now() - this.lastFetchedAt >= MIN_REFETCH_INTERVAL) {
+      this.clearCache();
+      jwk = this.findKey(await this.loadKeySet(), alg, kid);
+    }
+
+    if (!jwk) {
+      throw new Error(`No ${alg} signing key found in JWKS${kid ? ` for kid "${kid}"` : ''}`);
+    }
+
+    const cacheKey = `${alg}:${jwk.kid ?? ''}`;
+    let key = this.importedKeys.get(cacheKey);
+    if (!key) {
+      key = this.importKey(jwk, alg);
+      this.importedKeys.set(cacheKey, key);
+    }
+
+    return key;
+  }
+
+  /**
+   * Drop the cached key set and imported keys
+   */
+  clearCache(): void {
+    this.keySet = null;
+    this.importedKeys.clear();
+  }
+
+  /**
+   * Load (and cache) the key set
+   */
+  private loadKeySet(): Promise<JsonWebKeySet> {
+    if (!this.keySet) {
+      this.keySet = this.fetchKeySet().catch((error) => {
+        this.keySet = null;
+        throw error;
+      });
+    }
+    return this.keySet;
+  }
+
+  /**
+   * Fetch the key set from the discovered `jwks_uri`
+   */
+  private async fetchKeySet(): Promise<JsonWebKeySet> {
+    const discovery = await this.oidc.loadDiscoveryDocument();
+    if (!discovery.jwks_uri) {
+      throw new Error('Discovery document does not publish a jwks_uri');
+    }
+
+    const keySet = await firstValueFrom(
+      this.http.get<JsonWebKeySet>(discovery.jwks_uri, {
+        context: new HttpContext().set(SKIP_AUTH, true),
+      })
+    );
+    this.lastFetchedAt = Date.now();
+
+    return { keys: Array.isArray(keySet?.keys) ? keySet.keys : [] };
+  }
+
+  /**
+   * Find the signing key matching an algorithm and key ID
+   */
+  private findKey(
+    keySet: JsonWebKeySet,
+    alg: JwtSignatureAlgorithm,
+    kid?: string
+  ): JsonWebKeyEntry | undefined {
+    const candidates = keySet.keys.filter(
+      (key) =>
+        key.use !== 'enc' &&
+        (!key.alg || key.alg === alg) &&
+        (alg === 'RS256' ? key.kty === 'RSA' : key.kty === 'EC' && key.crv === 'P-256')
+    );
+
+    if (kid) {
+      return candidates.find((key) => key.kid === kid);
+    }
+
+    // Without a key ID the choice is only unambiguous for a single key
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  /**
+   * Import a JWK as a WebCrypto verification key
+   */
+  private importKey(jwk: JsonWebKeyEntry, alg: JwtSignatureAlgorithm): Promise<CryptoKey> {
+    const { kty, n, e, crv, x, y } = jwk;
+    const publicKey: JsonWebKey = alg === 'RS256' ? { kty, n, e } : { kty, crv, x, y };
+
+    return crypto.subtle.importKey('jwk', publicKey, IMPORT_ALGORITHMS[alg], false, ['verify']);
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * @flyfront/auth - OIDC Client Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideConfig } from '@flyfront/core';
+import { OidcService } from './oidc.service';
+import { OidcAuthorizationRequest, OidcDiscoveryDocument } from '../models/auth.models';
+import { createCodeChallenge } from '../utils/pkce.utils';
+
+const ISSUER = 'https://idp.test/realms/flyfront';
+
+/**
+ * Discovery document served by the stub IdP
+ */
+const DISCOVERY: OidcDiscoveryDocument = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/protocol/openid-connect/auth`,
+  token_endpoint: `${ISSUER}/protocol/openid-connect/token`,
+  code_challenge_methods_supported: ['S256'],
+};
+
+/**
+ * Build an unsigned JWT carrying the given claims
+ */
+function createIdToken(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims)}.`;
+}
+
+/**
+ * Let pending promise continuations run
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve));
+}
+
+describe('OidcService', () => {
+  let service: OidcService;
+  let idp: HttpTestingController;
+
+  beforeEach(() => {
+    sessionStorage.clear();
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideConfig({
+          auth: {
+            provider: 'oidc',
+            issuerUrl: `${ISSUER}/`,
+            clientId: 'flyfront-test',
+            redirectUri: 'https://app.test/callback',
+            scopes: ['openid', 'profile'],
+          },
+        }),
+      ],
+    });
+
+    service = TestBed.inject(OidcService);
+    idp = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    idp.verify();
+  });
+
+  /**
+   * Start an authorization request and answer the discovery call
+   */
+  async function authorize(returnUrl = '/dashboard'): Promise<URL> {
+    const url$ = service.createAuthorizationUrl({ returnUrl });
+    idp.expectOne(`${ISSUER}/.well-known/openid-configuration`).flush(DISCOVERY);
+    return new URL(await url$);
+  }
+
+  function pendingRequest(): OidcAuthorizationRequest {
+    const raw = sessionStorage.getItem('fly_oidc_authorization_request');
+    return JSON.parse(raw as string).value;
+  }
+
+  describe('createAuthorizationUrl', () => {
+    it('should build a PKCE authorization request from discovered endpoints', async () => {
+      const url = await authorize();
+      const request = pendingRequest();
+
+      expect(`${url.origin}${url.pathname}`).toBe(DISCOVERY.authorization_endpoint);
+      expect(url.searchParams.get('response_type')).toBe('code');
+      expect(url.searchParams.get('client_id')).toBe('flyfront-test');
+      expect(url.searchParams.get('redirect_uri')).toBe('https://app.test/callback');
+      expect(url.searchParams.get('scope')).toBe('openid profile');
+      expect(url.searchParams.get('state')).toBe(request.state);
+      expect(url.searchParams.get('nonce')).toBe(request.nonce);
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('code_challenge')).toBe(
+        await createCodeChallenge(request.codeVerifier)
+      );
+    });
+
+    it('should cache the discovery document', async () => {
+      await authorize();
+      await service.createAuthorizationUrl({ returnUrl: '/' });
+
+      idp.expectNone(`${ISSUER}/.well-known/openid-configuration`);
+    });
+
+    it('should reject a discovery document for another issuer', async () => {
+      const url$ = service.createAuthorizationUrl({ returnUrl: '/' });
+      idp
+        .expectOne(`${ISSUER}/.well-known/openid-configuration`)
+        .flush({ ...DISCOVERY, issuer: 'https://evil.test' });
+
+      await expect(url$).rejects.toThrow('Discovery issuer mismatch');
+    });
+  });
+
+  describe('handleAuthorizationResponse', () => {
+    it('should exchange the code with the stored code verifier', async () => {
+      const url = await authorize('/orders?page=2');
+      const request = pendingRequest();
+      const state = url.searchParams.get('state');
+
+      const result$ = service.handleAuthorizationResponse(`?code=abc123&state=${state}`);
+      await settle();
+
+      const tokenRequest = idp.expectOne(DISCOVERY.token_endpoint);
+      const body = new URLSearchParams(tokenRequest.request.body as string);
+      expect(tokenRequest.request.method).toBe('POST');
+      expect(body.get('grant_type')).toBe('authorization_code');
+      expect(body.get('code')).toBe('abc123');
+      expect(body.get('code_verifier')).toBe(request.codeVerifier);
+      expect(body.get('redirect_uri')).toBe('https://app.test/callback');
+      expect(body.get('client_id')).toBe('flyfront-test');
+
+      tokenRequest.flush({
+        access_token: 'access',
+        token_type: 'Bearer',
+        expires_in: 300,
+        refresh_token: 'refresh',
+        id_token: createIdToken({ sub: 'user-1', nonce: request.nonce }),
+      });
+
+      const result = await result$;
+      expect(result.returnUrl).toBe('/orders?page=2');
+      expect(result.tokens.refresh_token).toBe('refresh');
+      expect(sessionStorage.getItem('fly_oidc_authorization_request')).toBeNull();
+    });
+
+    it('should reject a callback with an unexpected state', async () => {
+      await authorize();
+
+      await expect(service.handleAuthorizationResponse('?code=abc123&state=forged')).rejects.toThrow(
+        'Authorization state mismatch'
+      );
+    });
+
+    it('should reject an ID token with the wrong nonce', async () => {
+      const url = await authorize();
+      const state = url.searchParams.get('state');
+
+      const result$ = service.handleAuthorizationResponse(`?code=abc123&state=${state}`);
+      await settle();
+
+      idp.expectOne(DISCOVERY.token_endpoint).flush({
+        access_token: 'access',
+        token_type: 'Bearer',
+        id_token: createIdToken({ sub: 'user-1', nonce: 'replayed' }),
+      });
+
+      await expect(result$).rejects.toThrow('ID token nonce mismatch');
+    });
+
+    it('should surface provider errors', async () => {
+      await authorize();
+
+      await expect(
+        service.handleAuthorizationResponse('?error=access_denied&error_description=User%20cancelled')
+      ).rejects.toThrow('Authorization failed: User cancelled');
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * @flyfront/auth - OIDC Client Service
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { HttpClient, HttpContext, HttpHeaders, HttpParams } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { AuthConfig, ConfigService, SKIP_AUTH, StorageService } from '@flyfront/core';
+import {
+  OidcAuthorizationRequest,
+  OidcAuthorizeParams,
+  OidcCallbackResult,
+  OidcDiscoveryDocument,
+  OidcTokenResponse,
+} from '../models/auth.models';
+import { createCodeChallenge, createCodeVerifier, generateRandomString } from '../utils/pkce.utils';
+import { decodeJwt } from '../utils/jwt.utils';
+
+/**
+ * Session storage key for the pending authorization request
+ */
+const AUTHORIZATION_REQUEST_KEY = 'oidc_authorization_request';
+
+/**
+ * Maximum age of a pending authorization request (10 minutes)
+ */
+const AUTHORIZATION_REQUEST_MAX_AGE = 600000;
+
+/**
+ * OIDC client implementing the Authorization Code flow with PKCE (RFC 7636)
+ *
+ * Endpoints are discovered from `{issuerUrl}/.well-known/openid-configuration`
+ * and the `state`, `nonce` and code verifier of the pending request are kept
+ * in session storage until the callback is handled.
+ *
+ * @example
+ * ```typescript
+ * const oidc = inject(OidcService);
+ *
+ * // Redirect to the identity provider
+ * const url = await oidc.createAuthorizationUrl({ returnUrl: '/dashboard' });
+ * window.location.assign(url);
+ *
+ * // On the redirect URI
+ * const { tokens, returnUrl } = await oidc.handleAuthorizationResponse(window.location.search);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class OidcService {
+  private readonly http = inject(HttpClient);
+  private readonly config = inject(ConfigService);
+  private readonly storage = inject(StorageService);
+  private readonly document = inject(DOCUMENT);
+
+  private discovery: Promise<OidcDiscoveryDocument> | null = null;
+
+  /**
+   * Authentication configuration
+   */
+  get authConfig(): AuthConfig {
+    return this.config.get('auth');
+  }
+
+  /**
+   * Load (and cache) the provider's discovery document
+   */
+  loadDiscoveryDocument(): Promise<OidcDiscoveryDocument> {
+    if (!this.discovery) {
+      const issuerUrl = this.requireIssuerUrl();
+      const url = `${issuerUrl}/.well-known/openid-configuration`;
+
+      this.discovery = firstValueFrom(
+        this.http.get<OidcDiscoveryDocument>(url, { context: this.createContext() })
+      )
+        .then((document) => {
+          if (this.normalizeIssuer(document.issuer) !== issuerUrl) {
+            throw new Error(`Discovery issuer mismatch: expected ${issuerUrl}, got ${document.issuer}`);
+          }
+          if (!document.authorization_endpoint || !document.token_endpoint) {
+            throw new Error('Discovery document is missing required endpoints');
+          }
+          return document;
+        })
+        .catch((error) => {
+          this.discovery = null;
+          throw error;
+        });
+    }
+
+    return this.discovery;
+  }
+
+  /**
+   * Create the authorization URL and persist the pending request
+   */
+  async createAuthorizationUrl(params: OidcAuthorizeParams): Promise<string> {
+    const { clientId, scopes = ['openid'] } = this.authConfig;
+    if (!clientId) {
+      throw new Error('OIDC clientId is not configured');
+    }
+
+    const discovery = await this.loadDiscoveryDocument();
+    const codeVerifier = createCodeVerifier();
+    const request: OidcAuthorizationRequest = {
+      state: generateRandomString(),
+      nonce: generateRandomString(),
+      codeVerifier,
+      redirectUri: this.getRedirectUri(),
+      returnUrl: params.returnUrl,
+      createdAt: Date.now(),
+    };
+
+    this.storage.set(AUTHORIZATION_REQUEST_KEY, request, {
+      storage: 'session',
+      ttl: AUTHORIZATION_REQUEST_MAX_AGE,
+    });
+
+    const query = new URLSearchParams({
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: request.redirectUri,
+      scope: scopes.join(' '),
+      state: request.state,
+      nonce: request.nonce,
+      code_challenge: await createCodeChallenge(codeVerifier),
+      code_challenge_method: 'S256',
+    });
+
+    if (params.prompt) {
+      query.set('prompt', params.prompt);
+    }
+    if (params.loginHint) {
+      query.set('login_hint', params.loginHint);
+    }
+
+    const separator = discovery.authorization_endpoint.includes('?') ? '&' : '?';
+    return `${discovery.authorization_endpoint}${separator}${query.toString()}`;
+  }
+
+  /**
+   * Validate the authorization response and exchange the code for tokens
+   * @param search - Query string of the callback URL (e.g. `window.location.search`)
+   */
+  async handleAuthorizationResponse(search: string): Promise<OidcCallbackResult> {
+    const params = new URLSearchParams(search.startsWith('?') ? search.substring(1) : search);
+    const request = this.storage.get<OidcAuthorizationRequest>(AUTHORIZATION_REQUEST_KEY, {
+      storage: 'session',
+    });
+    this.storage.remove(AUTHORIZATION_REQUEST_KEY, { storage: 'session' });
+
+    const error = params.get('error');
+    if (error) {
+      throw new Error(`Authorization failed: ${params.get('error_description') || error}`);
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      throw new Error('No authorization code in callback');
+    }
+
+    if (!request || params.get('state') !== request.state) {
+      throw new Error('Authorization state mismatch');
+    }
+
+    const tokens = await this.requestTokens({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: request.redirectUri,
+      code_verifier: request.codeVerifier,
+    });
+
+    if (tokens.id_token) {
+      const { nonce } = decodeJwt(tokens.id_token).payload;
+      if (nonce !== request.nonce) {
+        throw new Error('ID token nonce mismatch');
+      }
+    }
+
+    return { tokens, returnUrl: request.returnUrl };
+  }
+
+  /**
+   * Redeem a refresh token at the token endpoint
+   *
+   * Providers that rotate refresh tokens return a new `refresh_token`
+   * which replaces the one that was redeemed.
+   */
+  refreshTokens(refreshToken: string): Promise<OidcTokenResponse> {
+    return this.requestTokens({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+  }
+
+  /**
+   * Clear the cached discovery document
+   */
+  clearDiscoveryCache(): void {
+    this.discovery = null;
+  }
+
+  /**
+   * POST a grant to the token endpoint
+   */
+  private async requestTokens(grant: Record<string, string>): Promise<OidcTokenResponse> {
+    const { clientId } = this.authConfig;
+    const discovery = await this.loadDiscoveryDocument();
+
+    const body = new HttpParams({ fromObject: { ...grant, client_id: clientId ?? '' } });
+    const headers = new HttpHeaders({ 'Content-Type': 'application/x-www-form-urlencoded' });
+
+    const response = await firstValueFrom(
+      this.http.post<OidcTokenResponse>(discovery.token_endpoint, body.toString(), {
+        headers,
+        context: this.createContext(),
+      })
+    );
+
+    if (!response?.access_token) {
+      throw new Error('Token response did not contain an access token');
+    }
+
+    return response;
+  }
+
+  /**
+   * Request context that keeps provider calls out of the auth interceptor
+   */
+  private createContext(): HttpContext {
+    return new HttpContext().set(SKIP_AUTH, true);
+  }
+
+  /**
+   * Get the configured redirect URI, defaulting to `{origin}/callback`
+   */
+  private getRedirectUri(): string {
+    return this.authConfig.redirectUri ?? `${this.document.location.origin}/callback`;
+  }
+
+  /**
+   * Get the configured issuer URL without a trailing slash
+   */
+  private requireIssuerUrl(): string {
+    const { issuerUrl } = this.authConfig;
+    if (!issuerUrl) {
+      throw new Error('OIDC issuerUrl is not configured');
+    }
+    return this.normalizeIssuer(issuerUrl);
+  }
+
+  /**
+   * Strip a trailing slash from an issuer identifier
+   */
+  private normalizeIssuer(issuer: string): string {
+    return issuer.replace(/\/$/, '');
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * @flyfront/auth - Policy Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { ActivatedRouteSnapshot, provideRouter, RouterStateSnapshot, UrlTree } from '@angular/router';
+import { firstValueFrom, isObservable } from 'rxjs';
+import { MenuItem, permissionGuard, provideConfig } from '@flyfront/core';
+import { PolicyService } from './policy.service';
+import { AuthService } from './auth.service';
+import { TokenService } from './token.service';
+import { provideAuthPolicies } from '../providers/auth.providers';
+import { permissionMatches } from '../utils/permission.utils';
+
+/**
+ * Build an unsigned JWT carrying the given claims
+ */
+function createAccessToken(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  const exp = Math.floor(Date.now() / 1000) + 3600;
+  return `${encode({ alg: 'none' })}.${encode({ sub: 'user-1', exp, ...claims })}.`;
+}
+
+describe('permissionMatches', () => {
+  it('should support trailing, segment and global wildcards', () => {
+    expect(permissionMatches('orders:read', 'orders:read')).toBe(true);
+    expect(permissionMatches('orders:*', 'orders:read')).toBe(true);
+    expect(permissionMatches('orders:*', 'orders:items:delete')).toBe(true);
+    expect(permissionMatches('orders:*', 'orders')).toBe(false);
+    expect(permissionMatches('*:read', 'invoices:read')).toBe(true);
+    expect(permissionMatches('*:read', 'invoices:write')).toBe(false);
+    expect(permissionMatches('*', 'anything:at:all')).toBe(true);
+    expect(permissionMatches('orders:read', 'orders:read:all')).toBe(false);
+  });
+});
+
+describe('PolicyService', () => {
+  let policies: PolicyService;
+
+  beforeEach(async () => {
+    localStorage.clear();
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([]),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideConfig({
+          auth: {
+            provider: 'oidc',
+            clientId: 'app',
+            autoRefresh: false,
+            roleHierarchy: { admin: ['editor'], editor: ['viewer'] },
+          },
+        }),
+        provideAuthPolicies({
+          'orders.edit': {
+            permissions: ['orders:write'],
+            when: ({ user, params }) => user?.attributes?.['region'] === params['region'],
+          },
+          'orders.delete': {
+            roles: ['viewer'],
+            when: ({ user, resource }) => (resource as { ownerId: string }).ownerId === user?.id,
+          },
+          'reports.view': { roles: ['analyst'] },
+        }),
+      ],
+    });
+
+    TestBed.inject(TokenService).setTokens({
+      accessToken: createAccessToken({
+        roles: ['admin'],
+        permissions: ['orders:*'],
+        region: 'eu',
+      }),
+      expiresAt: Date.now() + 3600000,
+    });
+
+    policies = TestBed.inject(PolicyService);
+    await firstValueFrom(policies.isAuthenticated());
+  });
+
+  it('should apply wildcard permissions and the role hierarchy', () => {
+    const auth = TestBed.inject(AuthService);
+
+    expect(auth.hasPermission('orders:write')).toBe(true);
+    expect(auth.hasPermission('invoices:read')).toBe(false);
+    expect(auth.hasRole('viewer')).toBe(true);
+    expect(auth.effectiveRoles()).toEqual(['admin', 'editor', 'viewer']);
+  });
+
+  it('should evaluate predicates on user attributes, route params and resources', () => {
+    expect(policies.can('orders.edit', { params: { region: 'eu' } })).toBe(true);
+    expect(policies.can('orders.edit', { params: { region: 'us' } })).toBe(false);
+    expect(policies.can('orders.delete', { resource: { ownerId: 'user-1' } })).toBe(true);
+    expect(policies.can('orders.delete', { resource: { ownerId: 'user-2' } })).toBe(false);
+    expect(policies.can('reports.view')).toBe(false);
+  });
+
+  it('should deny unknown policies', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(policies.can('missing.policy')).toBe(false);
+  });
+
+  it('should filter menu items by permissions and policies', () => {
+    const items: MenuItem[] = [
+      { id: 'orders', label: 'Orders', path: '/orders', permissions: ['orders:read'] },
+      { id: 'invoices', label: 'Invoices', path: '/invoices', permissions: ['invoices:read'] },
+      {
+        id: 'reports',
+        label: 'Reports',
+        children: [{ id: 'sales', label: 'Sales', path: '/reports/sales', policy: 'reports.view' }],
+      },
+    ];
+
+    expect(policies.filterMenuItems(items).map((item) => item.id)).toEqual(['orders']);
+  });
+
+  it('should drive permissionGuard through PERMISSION_SERVICE', async () => {
+    const runGuard = async (region: string) => {
+      const route = { params: { region }, queryParams: {}, data: {} } as unknown as ActivatedRouteSnapshot;
+      const state = { url: `/orders/${region}/edit` } as RouterStateSnapshot;
+      const result = TestBed.runInInjectionContext(() => permissionGuard({ policy: 'orders.edit' })(route, state));
+      return isObservable(result) ? firstValueFrom(result) : result;
+    };
+
+    expect(await runGuard('eu')).toBe(true);
+
+    const denied = await runGuard('us');
+    expect(denied).toBeInstanceOf(UrlTree);
+    expect((denied as UrlTree).toString()).toBe('/forbidden');
+  });
+});
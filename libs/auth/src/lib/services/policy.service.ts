@@ -0,0 +1,169 @@
+/**
+ * @flyfront/auth - Policy Service
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Observable, filter, map, take } from 'rxjs';
+import { MenuItem, PermissionCheckContext, PermissionServiceInterface } from '@flyfront/core';
+import { AuthService } from './auth.service';
+import { PolicyContext, PolicyMap, PolicyRule } from '../models/auth.models';
+
+/**
+ * Injection token for the named authorization policies
+ */
+export const AUTH_POLICIES = new InjectionToken<PolicyMap>('AUTH_POLICIES');
+
+/**
+ * Evaluates declarative authorization policies against the current user
+ *
+ * Policies combine wildcard permissions, roles (including roles inherited
+ * through `AuthConfig.roleHierarchy`) and predicates on user attributes,
+ * route parameters or a resource. The service implements
+ * `PermissionServiceInterface`, so `provideAuthPolicies()` plugs it into
+ * `permissionGuard`; the same policies drive `*flyCan` and menu filtering.
+ *
+ * @example
+ * ```typescript
+ * provideAuthPolicies({
+ *   'orders.edit': {
+ *     permissions: ['orders:write'],
+ *     when: ({ user, params }) => user?.attributes?.['region'] === params['region'],
+ *   },
+ *   'reports.view': { roles: ['analyst'] },
+ * });
+ *
+ * const policies = inject(PolicyService);
+ * if (policies.can('orders.edit', { resource: order })) {
+ *   // ...
+ * }
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PolicyService implements PermissionServiceInterface {
+  private readonly auth = inject(AuthService);
+  private readonly policies = inject(AUTH_POLICIES, { optional: true }) ?? {};
+
+  /** Emits the authentication status once the session has been restored */
+  readonly isAuthenticated$: Observable<boolean> = toObservable(this.auth.state).pipe(
+    filter((state) => !state.isLoading),
+    map((state) => state.isAuthenticated)
+  );
+
+  /**
+   * Whether the user is authenticated (waits for the session to be restored)
+   */
+  isAuthenticated(): Observable<boolean> {
+    return this.isAuthenticated$.pipe(take(1));
+  }
+
+  /**
+   * Start the login flow
+   */
+  login(returnUrl?: string): void {
+    this.auth.login({ returnUrl });
+  }
+
+  /**
+   * Check if the user has a permission (wildcards in granted permissions apply)
+   */
+  hasPermission(permission: string): boolean {
+    return this.auth.hasPermission(permission);
+  }
+
+  /**
+   * Check if the user has all permissions
+   */
+  hasAllPermissions(permissions: string[]): boolean {
+    return this.auth.hasAllPermissions(permissions);
+  }
+
+  /**
+   * Check if the user has any of the roles (inherited roles count)
+   */
+  hasAnyRole(roles: string[]): boolean {
+    return this.auth.hasAnyRole(roles);
+  }
+
+  /**
+   * Evaluate a named policy or an inline rule
+   *
+   * Reads the `AuthService` signals, so calls inside templates, `computed`
+   * or `effect` are re-evaluated when the user changes.
+   * Unknown policy names are denied.
+   */
+  can(policy: string | PolicyRule, context: Partial<PermissionCheckContext> & { resource?: unknown } = {}): boolean {
+    const rule = typeof policy === 'string' ? this.policies[policy] : policy;
+    if (!rule) {
+      console.warn(`Unknown authorization policy "${policy}"`);
+      return false;
+    }
+
+    return this.evaluate(rule, {
+      user: this.auth.user(),
+      roles: this.auth.effectiveRoles(),
+      params: context.params ?? {},
+      queryParams: context.queryParams ?? {},
+      data: context.data ?? {},
+      resource: context.resource,
+    });
+  }
+
+  /**
+   * Remove menu items the user may not see
+   *
+   * An item is kept when all of its `permissions` are granted and its
+   * `policy` (if any) allows it. Groups whose children are all removed and
+   * which have no target of their own are removed as well.
+   */
+  filterMenuItems(items: MenuItem[]): MenuItem[] {
+    return items.reduce<MenuItem[]>((visible, item) => {
+      if (item.permissions?.length && !this.hasAllPermissions(item.permissions)) {
+        return visible;
+      }
+      if (item.policy && !this.can(item.policy)) {
+        return visible;
+      }
+
+      if (!item.children?.length) {
+        return [...visible, item];
+      }
+
+      const children = this.filterMenuItems(item.children);
+      const hasTarget = !!(item.path || item.url || item.action);
+      return children.length > 0 || hasTarget ? [...visible, { ...item, children }] : visible;
+    }, []);
+  }
+
+  /**
+   * Evaluate every condition of a rule
+   */
+  private evaluate(rule: PolicyRule, context: PolicyContext): boolean {
+    if (!context.user) {
+      return false;
+    }
+    if (rule.permissions?.length && !this.auth.hasAllPermissions(rule.permissions)) {
+      return false;
+    }
+    if (rule.anyPermissions?.length && !this.auth.hasAnyPermission(rule.anyPermissions)) {
+      return false;
+    }
+    if (rule.roles?.length && !rule.roles.some((role) => context.roles.includes(role))) {
+      return false;
+    }
+
+    const predicates = Array.isArray(rule.when) ? rule.when : rule.when ? [rule.when] : [];
+    return predicates.every((predicate) => {
+      try {
+        return predicate(context);
+      } catch (error) {
+        console.error('Authorization policy predicate failed:', error);
+        return false;
+      }
+    });
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * @flyfront/auth - Session Sync Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { SessionSyncService } from './session-sync.service';
+import { AuthSyncEvent } from '../models/auth.models';
+
+describe('SessionSyncService', () => {
+  const tabs: SessionSyncService[] = [];
+
+  /**
+   * Create a service instance standing in for another browser tab
+   */
+  function openTab(): SessionSyncService {
+    const tab = TestBed.runInInjectionContext(() => new SessionSyncService());
+    tabs.push(tab);
+    return tab;
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    tabs.splice(0).forEach((tab) => tab.ngOnDestroy());
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should deliver events to the other tabs only', async () => {
+    const sender = openTab();
+    const receiver = openTab();
+    const sent: AuthSyncEvent[] = [];
+    const received: AuthSyncEvent[] = [];
+    sender.events$.subscribe((event) => sent.push(event));
+    receiver.events$.subscribe((event) => received.push(event));
+
+    sender.broadcast('logout', 'refresh_rejected');
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({ type: 'logout', tabId: sender.tabId, reason: 'refresh_rejected' });
+    expect(sent).toHaveLength(0);
+  });
+
+  it('should fall back to storage events without BroadcastChannel', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const tab = openTab();
+    const received: AuthSyncEvent[] = [];
+    tab.events$.subscribe((event) => received.push(event));
+
+    const event: AuthSyncEvent = { type: 'token_refreshed', tabId: 'other-tab', timestamp: Date.now() };
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'fly_auth_sync', newValue: JSON.stringify(event) })
+    );
+
+    expect(received).toEqual([event]);
+  });
+
+  it('should elect a single leader and hand over when it closes', () => {
+    vi.useFakeTimers();
+    const first = openTab();
+    const second = openTab();
+
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+
+    first.ngOnDestroy();
+    vi.advanceTimersByTime(5000);
+
+    expect(second.isLeader()).toBe(true);
+  });
+
+  it('should take over an expired lease', () => {
+    vi.useFakeTimers();
+    const first = openTab();
+    const second = openTab();
+
+    // Simulate the leader tab being frozen without releasing its lease
+    vi.spyOn(first as unknown as { renewLease(): void }, 'renewLease').mockImplementation(() => undefined);
+    vi.advanceTimersByTime(12000);
+
+    expect(second.isLeader()).toBe(true);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * @flyfront/auth - Session Sync Service
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Injectable, inject, signal, OnDestroy, PLATFORM_ID } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+import { Observable, Subject } from 'rxjs';
+import { StorageService } from '@flyfront/core';
+import { AuthSyncEvent, AuthSyncEventType, UnauthenticatedReason } from '../models/auth.models';
+import { generateRandomString } from '../utils/pkce.utils';
+
+/**
+ * Name of the BroadcastChannel shared by all tabs
+ */
+const CHANNEL_NAME = 'fly_auth';
+
+/**
+ * localStorage key used to relay events when BroadcastChannel is unavailable
+ */
+const FALLBACK_EVENT_KEY = 'fly_auth_sync';
+
+/**
+ * Web Lock held by the leader tab for as long as it is open
+ */
+const LEADER_LOCK = 'fly_auth_leader';
+
+/**
+ * Web Lock serializing token refreshes across tabs
+ */
+const REFRESH_LOCK = 'fly_auth_refresh';
+
+/**
+ * Storage key of the leader lease used when Web Locks are unavailable
+ */
+const LEADER_LEASE_KEY = 'auth_leader';
+
+/**
+ * Lifetime of a leader lease and the interval at which it is renewed
+ */
+const LEADER_LEASE_TTL = 10000;
+const LEADER_LEASE_RENEW_INTERVAL = 4000;
+
+/**
+ * Leader lease persisted in localStorage
+ */
+interface LeaderLease {
+  tabId: string;
+  expiresAt: number;
+}
+
+/**
+ * Synchronizes the session between browser tabs
+ *
+ * Login, logout and token-refresh events are broadcast over a
+ * `BroadcastChannel`, falling back to `storage` events where it is not
+ * supported. One tab is elected leader (through the Web Locks API, or a
+ * renewed localStorage lease) and is the only one that refreshes tokens on
+ * a schedule, so rotated refresh tokens are never redeemed twice.
+ *
+ * @example
+ * ```typescript
+ * const sync = inject(SessionSyncService);
+ *
+ * sync.events$.subscribe((event) => console.log(event.type, 'in tab', event.tabId));
+ * sync.broadcast('logout', 'logout');
+ *
+ * if (sync.isLeader()) {
+ *   // refresh on behalf of every tab
+ * }
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SessionSyncService implements OnDestroy {
+  private readonly document = inject(DOCUMENT);
+  private readonly storage = inject(StorageService);
+  private readonly isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  private readonly events = new Subject<AuthSyncEvent>();
+  private channel: BroadcastChannel | null = null;
+  private leaseTimer: ReturnType<typeof setInterval> | null = null;
+  private releaseLeadership: (() => void) | null = null;
+
+  private readonly _isLeader = signal(false);
+
+  /** Unique ID of this tab */
+  readonly tabId = generateRandomString(16);
+
+  /** Whether this tab is responsible for scheduled token refreshes */
+  readonly isLeader = this._isLeader.asReadonly();
+
+  /** Session events published by other tabs */
+  readonly events$: Observable<AuthSyncEvent> = this.events.asObservable();
+
+  constructor() {
+    if (!this.isBrowser) {
+      // Without other tabs the server (or test) instance leads itself
+      this._isLeader.set(true);
+      return;
+    }
+
+    this.connect();
+    this.electLeader();
+  }
+
+  ngOnDestroy(): void {
+    this.channel?.close();
+    this.channel = null;
+    this.window?.removeEventListener('storage', this.onStorage);
+    this.window?.removeEventListener('pagehide', this.onPageHide);
+    this.resign();
+    this.events.complete();
+  }
+
+  /**
+   * Publish a session event to the other tabs
+   */
+  broadcast(type: AuthSyncEventType, reason?: UnauthenticatedReason): void {
+    if (!this.isBrowser) {
+      return;
+    }
+
+    const event: AuthSyncEvent = { type, tabId: this.tabId, timestamp: Date.now(), reason };
+
+    if (this.channel) {
+      this.channel.postMessage(event);
+      return;
+    }
+
+    // `storage` events only fire in the other tabs, and only when the value changes
+    try {
+      localStorage.setItem(FALLBACK_EVENT_KEY, JSON.stringify(event));
+      localStorage.removeItem(FALLBACK_EVENT_KEY);
+    } catch {
+      // Storage unavailable (private mode, quota) - nothing to relay through
+    }
+  }
+
+  /**
+   * Run `task` while holding the cross-tab refresh lock
+   *
+   * Tabs waiting for the lock should re-read the stored tokens once it is
+   * granted, since the previous holder may already have rotated them.
+   * Runs immediately where the Web Locks API is unavailable.
+   */
+  async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const locks = this.isBrowser ? this.window?.navigator.locks : undefined;
+    return locks ? ((await locks.request(REFRESH_LOCK, task)) as T) : task();
+  }
+
+  /**
+   * Listen for events from other tabs
+   */
+  private connect(): void {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (message: MessageEvent<AuthSyncEvent>) => this.emit(message.data);
+    } else {
+      this.window?.addEventListener('storage', this.onStorage);
+    }
+  }
+
+  /**
+   * Become leader now or as soon as the current leader goes away
+   */
+  private electLeader(): void {
+    const locks = this.window?.navigator.locks;
+
+    if (locks) {
+      // The lock is held until this tab closes; waiting tabs queue behind it
+      locks
+        .request(
+          LEADER_LOCK,
+          () =>
+            new Promise<void>((resolve) => {
+              this.releaseLeadership = resolve;
+              this._isLeader.set(true);
+            })
+        )
+        .catch(() => this._isLeader.set(false));
+      return;
+    }
+
+    this.renewLease();
+    this.leaseTimer = setInterval(() => this.renewLease(), LEADER_LEASE_RENEW_INTERVAL);
+    this.window?.addEventListener('pagehide', this.onPageHide);
+  }
+
+  /**
+   * Take over or extend the leader lease if it is free or ours
+   */
+  private renewLease(): void {
+    const lease = this.storage.get<LeaderLease>(LEADER_LEASE_KEY);
+
+    if (!lease || lease.tabId === this.tabId || lease.expiresAt <= Date.now()) {
+      this.storage.set<LeaderLease>(LEADER_LEASE_KEY, {
+        tabId: this.tabId,
+        expiresAt: Date.now() + LEADER_LEASE_TTL,
+      });
+    }
+
+    // Read back: another tab may have written its lease at the same time
+    this._isLeader.set(this.storage.get<LeaderLease>(LEADER_LEASE_KEY)?.tabId === this.tabId);
+  }
+
+  /**
+   * Give up leadership so another tab can take over
+   */
+  private resign(): void {
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = null;
+    }
+
+    if (this.releaseLeadership) {
+      this.releaseLeadership();
+      this.releaseLeadership = null;
+      this._isLeader.set(false);
+    } else {
+      this.releaseLease();
+    }
+  }
+
+  /**
+   * Drop the leader lease if this tab holds it
+   */
+  private releaseLease(): void {
+    if (this._isLeader()) {
+      this.storage.remove(LEADER_LEASE_KEY);
+      this._isLeader.set(false);
+    }
+  }
+
+  /**
+   * Relay events written by other tabs to the fallback storage key
+   */
+  private readonly onStorage = (event: StorageEvent): void => {
+    if (event.key !== FALLBACK_EVENT_KEY || !event.newValue) {
+      return;
+    }
+
+    try {
+      this.emit(JSON.parse(event.newValue) as AuthSyncEvent);
+    } catch {
+      // Ignore malformed payloads
+    }
+  };
+
+  /**
+   * Release the lease when the tab is closed; a tab restored from the
+   * back/forward cache competes for it again on the next renewal
+   */
+  private readonly onPageHide = (): void => this.releaseLease();
+
+  /**
+   * Forward an event unless this tab sent it
+   */
+  private emit(event: AuthSyncEvent): void {
+    if (event?.tabId && event.tabId !== this.tabId) {
+      this.events.next(event);
+    }
+  }
+
+  /**
+   * Window of the current document
+   */
+  private get window(): (Window & typeof globalThis) | null {
+    return this.document.defaultView;
+  }
+}
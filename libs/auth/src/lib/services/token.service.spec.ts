@@ -0,0 +1,146 @@
+/**
+ * @flyfront/auth - Token Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideConfig } from '@flyfront/core';
+import { TokenService } from './token.service';
+import { JsonWebKeyEntry } from '../models/auth.models';
+import { base64UrlEncode } from '../utils/pkce.utils';
+
+const ISSUER = 'https://idp.test';
+const JWKS_URI = `${ISSUER}/jwks`;
+
+/**
+ * Signing key pair published by the stub IdP
+ */
+interface TestKey {
+  alg: 'RS256' | 'ES256';
+  kid: string;
+  privateKey: CryptoKey;
+  jwk: JsonWebKeyEntry;
+}
+
+async function createKey(alg: 'RS256' | 'ES256', kid: string): Promise<TestKey> {
+  const params =
+    alg === 'RS256'
+      ? { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' }
+      : { name: 'ECDSA', namedCurve: 'P-256' };
+  const pair = (await crypto.subtle.generateKey(params, true, ['sign', 'verify'])) as CryptoKeyPair;
+  const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+  return { alg, kid, privateKey: pair.privateKey, jwk: { ...jwk, kid, use: 'sig' } };
+}
+
+async function sign(key: TestKey, claims: Record<string, unknown>): Promise<string> {
+  const encode = (value: unknown) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+  const signingInput = `${encode({ alg: key.alg, kid: key.kid, typ: 'JWT' })}.${encode(claims)}`;
+  const algorithm =
+    key.alg === 'RS256' ? { name: 'RSASSA-PKCS1-v1_5' } : { name: 'ECDSA', hash: 'SHA-256' };
+  const signature = await crypto.subtle.sign(algorithm, key.privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
+
+function claims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const now = Math.floor(Date.now() / 1000);
+  return { sub: 'user-1', iss: ISSUER, aud: 'app', iat: now, exp: now + 300, ...overrides };
+}
+
+describe('TokenService', () => {
+  let service: TokenService;
+  let idp: HttpTestingController;
+  let rsa: TestKey;
+  let ec: TestKey;
+
+  beforeAll(async () => {
+    rsa = await createKey('RS256', 'rsa-1');
+    ec = await createKey('ES256', 'ec-1');
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideConfig({
+          auth: { provider: 'oidc', issuerUrl: ISSUER, clientId: 'app', verifyTokens: true },
+        }),
+      ],
+    });
+
+    service = TestBed.inject(TokenService);
+    idp = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    idp.verify();
+  });
+
+  /**
+   * Verify a token while the stub IdP serves discovery and the key set
+   */
+  async function verify(token: string, keys: JsonWebKeyEntry[] = [rsa.jwk, ec.jwk]) {
+    const result = service.verifyToken(token);
+    result.catch(() => undefined);
+
+    await new Promise((resolve) => setTimeout(resolve));
+    idp.match(`${ISSUER}/.well-known/openid-configuration`).forEach((req) =>
+      req.flush({
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: JWKS_URI,
+      })
+    );
+    await new Promise((resolve) => setTimeout(resolve));
+    idp.match(JWKS_URI).forEach((req) => req.flush({ keys }));
+
+    return result;
+  }
+
+  describe('verifyToken', () => {
+    it('should accept an RS256 token signed by a published key', async () => {
+      const payload = await verify(await sign(rsa, claims()));
+      expect(payload.sub).toBe('user-1');
+    });
+
+    it('should accept an ES256 token signed by a published key', async () => {
+      const payload = await verify(await sign(ec, claims()));
+      expect(payload.sub).toBe('user-1');
+    });
+
+    it('should reject a tampered payload', async () => {
+      const [header, , signature] = (await sign(rsa, claims())).split('.');
+      const forged = base64UrlEncode(new TextEncoder().encode(JSON.stringify(claims({ sub: 'admin' }))));
+
+      await expect(verify(`${header}.${forged}.${signature}`)).rejects.toThrow('invalid signature');
+    });
+
+    it('should reject unsigned tokens', async () => {
+      const encode = (value: unknown) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+      const token = `${encode({ alg: 'none' })}.${encode(claims())}.`;
+
+      await expect(service.verifyToken(token)).rejects.toThrow('unsupported algorithm "none"');
+    });
+
+    it('should reject tokens signed by an unknown key', async () => {
+      const other = await createKey('RS256', 'rsa-2');
+
+      await expect(verify(await sign(other, claims()), [rsa.jwk])).rejects.toThrow('No RS256 signing key');
+    });
+
+    it('should validate issuer, audience, expiry and not-before', async () => {
+      const now = Math.floor(Date.now() / 1000);
+
+      await expect(verify(await sign(rsa, claims({ iss: 'https://other.test' })))).rejects.toThrow(
+        'unexpected issuer'
+      );
+      await expect(verify(await sign(rsa, claims({ aud: ['other'] })))).rejects.toThrow('unexpected audience');
+      await expect(verify(await sign(rsa, claims({ exp: now - 120 })))).rejects.toThrow('token expired');
+      await expect(verify(await sign(rsa, claims({ nbf: now + 600 })))).rejects.toThrow('not yet valid');
+    });
+  });
+});
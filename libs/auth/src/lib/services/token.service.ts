@@ -5,8 +5,11 @@
  */
 
 import { Injectable, inject } from '@angular/core';
-import { StorageService } from '@flyfront/core';
+import { ConfigService, StorageService } from '@flyfront/core';
 import { TokenPayload } from '@flyfront/core';
+import { JwksService } from './jwks.service';
+import { JwtSignatureAlgorithm, TokenVerificationOptions } from '../models/auth.models';
+import { decodeJwt } from '../utils/jwt.utils';
 
 /**
  * Token storage keys
@@ -18,6 +21,19 @@ const TOKEN_KEYS = {
   EXPIRES_AT: 'expires_at',
 } as const;
 
+/**
+ * Allowed clock skew when validating `exp` and `nbf` (seconds)
+ */
+const CLOCK_SKEW = 60;
+
+/**
+ * WebCrypto verification parameters per JWS algorithm
+ */
+const VERIFY_ALGORITHMS: Record<JwtSignatureAlgorithm, AlgorithmIdentifier | EcdsaParams> = {
+  RS256: { name: 'RSASSA-PKCS1-v1_5' },
+  ES256: { name: 'ECDSA', hash: 'SHA-256' },
+};
+
 /**
  * Token data
  */
@@ -49,6 +65,9 @@ export interface TokenData {
  * if (tokenService.isTokenExpired(token)) {
  *   // Refresh token
  * }
+ *
+ * // Verify signature and claims against the issuer's JWKS
+ * const claims = await tokenService.verifyToken(token);
  * ```
  */
 @Injectable({
@@ -56,6 +75,15 @@ export interface TokenData {
 })
 export class TokenService {
   private readonly storage = inject(StorageService);
+  private readonly config = inject(ConfigService);
+  private readonly jwks = inject(JwksService);
+
+  /**
+   * Whether tokens must be verified before their claims are trusted
+   */
+  get verificationEnabled(): boolean {
+    return this.config.get('auth').verifyTokens === true;
+  }
 
   /**
    * Set authentication tokens
@@ -163,19 +191,43 @@ export class TokenService {
    */
   decodeToken(token: string): TokenPayload {
     try {
-      const parts = token.split('.');
-      if (parts.length !== 3) {
-        throw new Error('Invalid token format');
-      }
-
-      const payload = parts[1];
-      const decoded = this.base64UrlDecode(payload);
-      return JSON.parse(decoded);
+      return decodeJwt(token).payload;
     } catch (error) {
       throw new Error(`Failed to decode token: ${error}`);
     }
   }
 
+  /**
+   * Verify a JWT's RS256/ES256 signature against the issuer's JWKS and
+   * validate its `iss`, `aud`, `nbf` and `exp` claims
+   *
+   * @returns The verified claims
+   * @throws If the token is malformed, unsigned, or fails any check
+   */
+  async verifyToken(token: string, options: TokenVerificationOptions = {}): Promise<TokenPayload> {
+    const { header, payload, signingInput, signature } = decodeJwt(token);
+
+    const alg = header.alg as JwtSignatureAlgorithm;
+    if (!(alg in VERIFY_ALGORITHMS)) {
+      throw new Error(`Token verification failed: unsupported algorithm "${header.alg}"`);
+    }
+
+    const key = await this.jwks.getVerificationKey(alg, header.kid);
+    const valid = await crypto.subtle.verify(
+      VERIFY_ALGORITHMS[alg],
+      key,
+      signature,
+      new TextEncoder().encode(signingInput)
+    );
+
+    if (!valid) {
+      throw new Error('Token verification failed: invalid signature');
+    }
+
+    this.validateClaims(payload, options);
+    return payload;
+  }
+
   /**
    * Get token claims
    */
@@ -220,19 +272,29 @@ export class TokenService {
   }
 
   /**
-   * Decode base64url string
+   * Validate registered claims against the auth configuration
    */
-  private base64UrlDecode(str: string): string {
-    // Replace URL-safe characters
-    let base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+  private validateClaims(payload: TokenPayload, options: TokenVerificationOptions): void {
+    const { issuerUrl, clientId, audience: configuredAudience } = this.config.get('auth');
+    const now = Math.floor(Date.now() / 1000);
+
+    const issuer = issuerUrl?.replace(/\/$/, '');
+    if (!issuer || payload.iss?.replace(/\/$/, '') !== issuer) {
+      throw new Error('Token verification failed: unexpected issuer');
+    }
 
-    // Add padding if necessary
-    const padding = base64.length % 4;
-    if (padding) {
-      base64 += '='.repeat(4 - padding);
+    const audience = options.audience ?? configuredAudience ?? clientId;
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audience || !audiences.includes(audience)) {
+      throw new Error('Token verification failed: unexpected audience');
     }
 
-    // Decode
-    return atob(base64);
+    if (typeof payload.exp !== 'number' || now - CLOCK_SKEW >= payload.exp) {
+      throw new Error('Token verification failed: token expired');
+    }
+
+    if (typeof payload.nbf === 'number' && now + CLOCK_SKEW < payload.nbf) {
+      throw new Error('Token verification failed: token not yet valid');
+    }
   }
 }
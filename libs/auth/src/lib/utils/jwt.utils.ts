@@ -0,0 +1,66 @@
+/**
+ * @flyfront/auth - JWT Utilities
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TokenPayload } from '@flyfront/core';
+import { JwtHeader } from '../models/auth.models';
+
+/**
+ * The parts of a compact-serialized JWT
+ */
+export interface DecodedJwt {
+  header: JwtHeader;
+  payload: TokenPayload;
+  /** `base64url(header).base64url(payload)`, the input to the signature */
+  signingInput: string;
+  signature: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Decode a base64url string to bytes
+ */
+export function base64UrlToBytes(str: string): Uint8Array<ArrayBuffer> {
+  // Replace URL-safe characters
+  let base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+
+  // Add padding if necessary
+  const padding = base64.length % 4;
+  if (padding) {
+    base64 += '='.repeat(4 - padding);
+  }
+
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Decode a base64url string to UTF-8 text
+ */
+export function base64UrlDecode(str: string): string {
+  return new TextDecoder().decode(base64UrlToBytes(str));
+}
+
+/**
+ * Split and decode a compact JWT without verifying it
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Invalid token format');
+  }
+
+  const [header, payload, signature] = parts;
+
+  return {
+    header: JSON.parse(base64UrlDecode(header)),
+    payload: JSON.parse(base64UrlDecode(payload)),
+    signingInput: `${header}.${payload}`,
+    signature: base64UrlToBytes(signature),
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * @flyfront/auth - Permission Utilities
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+/**
+ * Separator between the segments of a permission (e.g. `orders:items:read`)
+ */
+const PERMISSION_SEPARATOR = ':';
+
+/**
+ * Wildcard matching any segment; as the last segment it matches all remaining segments
+ */
+const WILDCARD = '*';
+
+/**
+ * Check whether a granted permission covers a required one
+ *
+ * @example
+ * ```typescript
+ * permissionMatches('orders:*', 'orders:items:read'); // true
+ * permissionMatches('*:read', 'orders:read');         // true
+ * permissionMatches('*:read', 'orders:write');        // false
+ * permissionMatches('*', 'anything');                 // true
+ * ```
+ */
+export function permissionMatches(granted: string, required: string): boolean {
+  if (granted === required || granted === WILDCARD) {
+    return true;
+  }
+
+  const grantedSegments = granted.split(PERMISSION_SEPARATOR);
+  const requiredSegments = required.split(PERMISSION_SEPARATOR);
+
+  for (let i = 0; i < grantedSegments.length; i++) {
+    const segment = grantedSegments[i];
+    const isLast = i === grantedSegments.length - 1;
+
+    if (i >= requiredSegments.length) {
+      return false;
+    }
+    if (segment === WILDCARD && isLast) {
+      return true;
+    }
+    if (segment !== WILDCARD && segment !== requiredSegments[i]) {
+      return false;
+    }
+  }
+
+  return grantedSegments.length === requiredSegments.length;
+}
+
+/**
+ * Check whether any granted permission covers the required one
+ */
+export function hasGrantedPermission(granted: readonly string[], required: string): boolean {
+  return granted.some((permission) => permissionMatches(permission, required));
+}
+
+/**
+ * Expand roles with every role they inherit from the hierarchy
+ *
+ * @param roles - Roles assigned to the user
+ * @param hierarchy - Map of a role to the roles it inherits (e.g. `{ admin: ['editor'] }`)
+ *
+ * @example
+ * ```typescript
+ * expandRoles(['admin'], { admin: ['editor'], editor: ['viewer'] });
+ * // ['admin', 'editor', 'viewer']
+ * ```
+ */
+export function expandRoles(
+  roles: readonly string[],
+  hierarchy: Readonly<Record<string, readonly string[]>> = {}
+): string[] {
+  const expanded = new Set<string>();
+  const pending = [...roles];
+
+  while (pending.length > 0) {
+    const role = pending.pop() as string;
+    if (expanded.has(role)) {
+      continue;
+    }
+
+    expanded.add(role);
+    pending.push(...(hierarchy[role] ?? []));
+  }
+
+  return [...expanded];
+}
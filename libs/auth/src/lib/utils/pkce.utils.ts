@@ -0,0 +1,40 @@
+/**
+ * @flyfront/auth - PKCE Utilities
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+/**
+ * Encode bytes as an unpadded base64url string (RFC 4648 section 5)
+ */
+export function base64UrlEncode(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.byteLength; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Generate a cryptographically random base64url string
+ * @param byteLength - Number of random bytes (default: 32)
+ */
+export function generateRandomString(byteLength = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * Generate a PKCE code verifier (43 characters from 32 random bytes)
+ */
+export function createCodeVerifier(): string {
+  return generateRandomString(32);
+}
+
+/**
+ * Derive the S256 code challenge for a PKCE code verifier
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(digest);
+}
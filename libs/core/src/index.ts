@@ -13,6 +13,7 @@ export * from './lib/services/logger.service';
 export * from './lib/services/storage.service';
 export * from './lib/services/crypto.service';
 export * from './lib/services/secure-storage.service';
+export * from './lib/services/retry-policy.service';
 
 // Interceptors
 export * from './lib/interceptors/error.interceptor';
@@ -23,3 +24,4 @@ export * from './lib/guards/auth.guard';
 
 // Utils
 export * from './lib/utils/type-guards';
+export * from './lib/utils/decoders';
@@ -196,10 +196,22 @@ export interface PermissionGuardOptions extends AuthGuardOptions {
   permissions?: string[];
   /** Required roles (any one must be present) */
   roles?: string[];
+  /** Named policy that must allow access (requires a service implementing `can`) */
+  policy?: string;
   /** Redirect URL when permission denied */
   forbiddenUrl?: string;
 }
 
+/**
+ * Route information passed to policy checks
+ */
+export interface PermissionCheckContext {
+  params: Record<string, string>;
+  queryParams: Record<string, string>;
+  data: Record<string, unknown>;
+  url: string;
+}
+
 /**
  * Permission service interface
  */
@@ -207,6 +219,17 @@ export interface PermissionServiceInterface extends AuthServiceInterface {
   hasPermission(permission: string): Observable<boolean> | boolean;
   hasAnyRole(roles: string[]): Observable<boolean> | boolean;
   hasAllPermissions(permissions: string[]): Observable<boolean> | boolean;
+  /** Evaluate a named policy */
+  can?(policy: string, context?: Partial<PermissionCheckContext>): Observable<boolean> | boolean;
+}
+
+/**
+ * A single access check run by the permission guard
+ */
+interface PermissionCheck {
+  evaluate: () => Observable<boolean> | boolean;
+  message: string;
+  details: Record<string, unknown>;
 }
 
 export const PERMISSION_SERVICE = new InjectionToken<PermissionServiceInterface>('PERMISSION_SERVICE');
@@ -223,6 +246,11 @@ export const PERMISSION_SERVICE = new InjectionToken<PermissionServiceInterface>
  *     component: AdminComponent,
  *     canActivate: [permissionGuard({ permissions: ['admin:read'] })],
  *   },
+ *   {
+ *     path: 'orders/:id/edit',
+ *     component: OrderEditComponent,
+ *     canActivate: [permissionGuard({ policy: 'orders.edit' })],
+ *   },
  * ];
  * ```
  */
@@ -254,49 +282,78 @@ export function permissionGuard(options: PermissionGuardOptions): CanActivateFn
         });
       }
 
+      const { roles, permissions, policy } = mergedOptions;
+      const checks: PermissionCheck[] = [];
+
       // Check roles if specified
-      if (mergedOptions.roles && mergedOptions.roles.length > 0) {
-        const hasRole = permService.hasAnyRole(mergedOptions.roles);
+      if (roles && roles.length > 0) {
+        checks.push({
+          evaluate: () => permService.hasAnyRole(roles),
+          message: 'User lacks required role',
+          details: { roles },
+        });
+      }
 
-        if (typeof hasRole === 'boolean') {
-          if (!hasRole) {
-            logger.debug('User lacks required role', { roles: mergedOptions.roles });
-            return router.createUrlTree([mergedOptions.forbiddenUrl]);
-          }
-        } else {
-          return hasRole.pipe(
-            map((result) => {
-              if (!result) {
-                logger.debug('User lacks required role', { roles: mergedOptions.roles });
-                return router.createUrlTree([mergedOptions.forbiddenUrl]);
+      // Check permissions if specified
+      if (permissions && permissions.length > 0) {
+        checks.push({
+          evaluate: () => permService.hasAllPermissions(permissions),
+          message: 'User lacks required permissions',
+          details: { permissions },
+        });
+      }
+
+      // Check the policy if specified
+      if (policy) {
+        checks.push({
+          evaluate: () => {
+            if (!permService.can) {
+              logger.error('Permission service does not support policies', { policy });
+              return false;
+            }
+            return permService.can(policy, {
+              params: route.params,
+              queryParams: route.queryParams,
+              data: route.data,
+              url: state.url,
+            });
+          },
+          message: 'Policy denied access',
+          details: { policy },
+        });
+      }
+
+      return runChecks(checks);
+    };
+
+    /**
+     * Run checks in order, stopping at the first denial
+     */
+    const runChecks = (checks: PermissionCheck[]): boolean | UrlTree | Observable<boolean | UrlTree> => {
+      for (let i = 0; i < checks.length; i++) {
+        const { evaluate, message, details } = checks[i];
+        const deny = () => {
+          logger.debug(message, details);
+          return router.createUrlTree([mergedOptions.forbiddenUrl]);
+        };
+        const result = evaluate();
+
+        if (typeof result !== 'boolean') {
+          const remaining = checks.slice(i + 1);
+          return result.pipe(
+            switchMap((allowed) => {
+              if (!allowed) {
+                return of(deny());
               }
-              return true;
+              const next = runChecks(remaining);
+              return next instanceof Observable ? next : of(next);
             })
           );
         }
-      }
-
-      // Check permissions if specified
-      if (mergedOptions.permissions && mergedOptions.permissions.length > 0) {
-        const hasPerms = permService.hasAllPermissions(mergedOptions.permissions);
 
-        if (typeof hasPerms === 'boolean') {
-          if (!hasPerms) {
-            logger.debug('User lacks required permissions', { permissions: mergedOptions.permissions });
-            return router.createUrlTree([mergedOptions.forbiddenUrl]);
-          }
-          return true;
+        if (!result) {
+          return deny();
         }
-
-        return hasPerms.pipe(
-          map((result) => {
-            if (!result) {
-              logger.debug('User lacks required permissions', { permissions: mergedOptions.permissions });
-              return router.createUrlTree([mergedOptions.forbiddenUrl]);
-            }
-            return true;
-          })
-        );
       }
 
       return true;
@@ -0,0 +1,139 @@
+/**
+ * @flyfront/core - Auth Token Interceptor Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpContext, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Subject, Observable } from 'rxjs';
+import { authTokenInterceptor, SKIP_AUTH, TOKEN_PROVIDER, TokenProvider } from './auth.interceptor';
+
+/**
+ * Token provider whose refresh is completed manually by the test
+ */
+class TestTokenProvider implements TokenProvider {
+  token: string | null = 'token-1';
+  refreshes = 0;
+  logouts = 0;
+  pending = new Subject<string>();
+
+  getAccessToken(): string | null {
+    return this.token;
+  }
+
+  refreshToken(): Observable<string> {
+    this.refreshes++;
+    return this.pending;
+  }
+
+  logout(): void {
+    this.logouts++;
+  }
+
+  completeRefresh(token: string): void {
+    this.token = token;
+    this.pending.next(token);
+    this.pending.complete();
+  }
+}
+
+describe('authTokenInterceptor', () => {
+  let http: HttpClient;
+  let backend: HttpTestingController;
+  let provider: TestTokenProvider;
+
+  beforeEach(() => {
+    provider = new TestTokenProvider();
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([authTokenInterceptor({ refreshOnUnauthorized: true })])),
+        provideHttpClientTesting(),
+        { provide: TOKEN_PROVIDER, useValue: provider },
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    backend.verify();
+  });
+
+  it('should add the bearer token', () => {
+    http.get('/api/orders').subscribe();
+
+    const req = backend.expectOne('/api/orders');
+    expect(req.request.headers.get('Authorization')).toBe('Bearer token-1');
+    req.flush([]);
+  });
+
+  it('should skip requests flagged with SKIP_AUTH', () => {
+    http.get('/oauth/token', { context: new HttpContext().set(SKIP_AUTH, true) }).subscribe();
+
+    const req = backend.expectOne('/oauth/token');
+    expect(req.request.headers.has('Authorization')).toBe(false);
+    req.flush({});
+  });
+
+  it('should refresh once and replay every request that failed during the refresh', () => {
+    const results: unknown[] = [];
+    http.get('/api/a').subscribe((body) => results.push(body));
+    http.get('/api/b').subscribe((body) => results.push(body));
+
+    backend.expectOne('/api/a').flush(null, { status: 401, statusText: 'Unauthorized' });
+    backend.expectOne('/api/b').flush(null, { status: 401, statusText: 'Unauthorized' });
+    expect(provider.refreshes).toBe(1);
+
+    provider.completeRefresh('token-2');
+
+    const replayA = backend.expectOne('/api/a');
+    const replayB = backend.expectOne('/api/b');
+    expect(replayA.request.headers.get('Authorization')).toBe('Bearer token-2');
+    expect(replayB.request.headers.get('Authorization')).toBe('Bearer token-2');
+    replayA.flush('a');
+    replayB.flush('b');
+
+    expect(results).toEqual(['a', 'b']);
+    expect(provider.logouts).toBe(0);
+  });
+
+  it('should not refresh again when the replayed request is also rejected', () => {
+    let status = 0;
+    http.get('/api/a').subscribe({ error: (error) => (status = error.status) });
+
+    backend.expectOne('/api/a').flush(null, { status: 401, statusText: 'Unauthorized' });
+    provider.completeRefresh('token-2');
+    backend.expectOne('/api/a').flush(null, { status: 401, statusText: 'Unauthorized' });
+
+    expect(status).toBe(401);
+    expect(provider.refreshes).toBe(1);
+  });
+
+  it('should log out only when the refresh fails', () => {
+    let status = 0;
+    http.get('/api/a').subscribe({ error: (error) => (status = error.status) });
+    http.get('/api/b').subscribe({ error: () => undefined });
+
+    backend.expectOne('/api/a').flush(null, { status: 401, statusText: 'Unauthorized' });
+    backend.expectOne('/api/b').flush(null, { status: 401, statusText: 'Unauthorized' });
+    provider.pending.error(new Error('invalid_grant'));
+
+    expect(status).toBe(401);
+    expect(provider.logouts).toBe(1);
+  });
+
+  it('should pass through errors other than 401', () => {
+    let status = 0;
+    http.get('/api/a').subscribe({ error: (error) => (status = error.status) });
+
+    backend.expectOne('/api/a').flush(null, { status: 403, statusText: 'Forbidden' });
+
+    expect(status).toBe(403);
+    expect(provider.refreshes).toBe(0);
+    expect(provider.logouts).toBe(0);
+  });
+});
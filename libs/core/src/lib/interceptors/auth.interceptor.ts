@@ -10,8 +10,10 @@ import {
   HttpHandlerFn,
   HttpEvent,
   HttpInterceptorFn,
+  HttpContextToken,
+  HttpErrorResponse,
 } from '@angular/common/http';
-import { Observable, from, switchMap, catchError, throwError } from 'rxjs';
+import { Observable, switchMap, catchError, throwError, take, finalize, share } from 'rxjs';
 
 /**
  * Token provider interface for flexibility
@@ -20,6 +22,8 @@ export interface TokenProvider {
   getAccessToken(): string | null;
   refreshToken?(): Observable<string>;
   isTokenExpired?(): boolean;
+  /** Called once when a token refresh fails */
+  logout?(): void;
 }
 
 /**
@@ -36,6 +40,16 @@ export interface AuthInterceptorConfig {
   refreshOnUnauthorized?: boolean;
 }
 
+/**
+ * Request context flag that bypasses token injection and refresh handling
+ *
+ * @example
+ * ```typescript
+ * http.post(tokenEndpoint, body, { context: new HttpContext().set(SKIP_AUTH, true) });
+ * ```
+ */
+export const SKIP_AUTH = new HttpContextToken<boolean>(() => false);
+
 /** Injection token for TokenProvider */
 import { InjectionToken } from '@angular/core';
 
@@ -47,6 +61,11 @@ export const AUTH_INTERCEPTOR_CONFIG = new InjectionToken<AuthInterceptorConfig>
 /**
  * Create an auth token interceptor
  *
+ * When `refreshOnUnauthorized` is enabled, a 401 response triggers a single
+ * token refresh. Requests that fail while that refresh is in flight wait for
+ * it and are replayed once with the new token. If the refresh itself fails,
+ * `TokenProvider.logout()` is called and the original error is rethrown.
+ *
  * @example
  * ```typescript
  * // In app.config.ts
@@ -60,7 +79,7 @@ export const AUTH_INTERCEPTOR_CONFIG = new InjectionToken<AuthInterceptorConfig>
  *         })
  *       ])
  *     ),
- *     { provide: TOKEN_PROVIDER, useExisting: TokenService },
+ *     { provide: TOKEN_PROVIDER, useExisting: AuthTokenProvider },
  *   ],
  * };
  * ```
@@ -73,11 +92,34 @@ export function authTokenInterceptor(config: AuthInterceptorConfig = {}): HttpIn
     refreshOnUnauthorized = false,
   } = config;
 
+  // Refresh shared by every request that needs it while it is in flight
+  let refreshInFlight$: Observable<string> | null = null;
+
+  const refresh = (tokenProvider: TokenProvider): Observable<string> => {
+    if (!refreshInFlight$) {
+      const refreshToken$ =
+        tokenProvider.refreshToken?.() ?? throwError(() => new Error('Token refresh not supported'));
+
+      refreshInFlight$ = refreshToken$.pipe(
+        take(1),
+        catchError((error) => {
+          tokenProvider.logout?.();
+          return throwError(() => error);
+        }),
+        finalize(() => {
+          refreshInFlight$ = null;
+        }),
+        share()
+      );
+    }
+    return refreshInFlight$;
+  };
+
   return (req: HttpRequest<unknown>, next: HttpHandlerFn): Observable<HttpEvent<unknown>> => {
     // Check if URL should be excluded
-    const shouldExclude = excludeUrls.some(
-      (url) => req.url.includes(url) || req.url.endsWith(url)
-    );
+    const shouldExclude =
+      req.context.get(SKIP_AUTH) ||
+      excludeUrls.some((url) => req.url.includes(url) || req.url.endsWith(url));
 
     if (shouldExclude) {
       return next(req);
@@ -95,29 +137,45 @@ export function authTokenInterceptor(config: AuthInterceptorConfig = {}): HttpIn
       return next(req);
     }
 
-    const token = tokenProvider.getAccessToken();
+    const provider = tokenProvider;
+    const token = provider.getAccessToken();
 
     if (!token) {
       return next(req);
     }
 
-    // Check if token is expired and refresh is available
-    if (refreshOnUnauthorized && tokenProvider.isTokenExpired?.() && tokenProvider.refreshToken) {
-      return tokenProvider.refreshToken().pipe(
-        switchMap((newToken) => {
-          const authReq = addTokenToRequest(req, newToken, headerName, tokenPrefix);
-          return next(authReq);
-        }),
+    const canRefresh = refreshOnUnauthorized && !!provider.refreshToken;
+
+    const send = (accessToken: string): Observable<HttpEvent<unknown>> =>
+      next(addTokenToRequest(req, accessToken, headerName, tokenPrefix));
+
+    // Replay once with a fresh token after a 401
+    const sendWithReplay = (accessToken: string): Observable<HttpEvent<unknown>> =>
+      send(accessToken).pipe(
         catchError((error) => {
-          // Refresh failed, proceed without token
-          return next(req);
+          if (!canRefresh || !(error instanceof HttpErrorResponse) || error.status !== 401) {
+            return throwError(() => error);
+          }
+
+          // Another request already refreshed the token
+          const current = provider.getAccessToken();
+          if (current && current !== accessToken && !refreshInFlight$) {
+            return send(current);
+          }
+
+          return refresh(provider).pipe(
+            catchError(() => throwError(() => error)),
+            switchMap((newToken) => send(newToken))
+          );
         })
       );
+
+    // Refresh ahead of time when the token is already known to be expired
+    if (canRefresh && provider.isTokenExpired?.()) {
+      return refresh(provider).pipe(switchMap((newToken) => send(newToken)));
     }
 
-    // Add token to request
-    const authReq = addTokenToRequest(req, token, headerName, tokenPrefix);
-    return next(authReq);
+    return sendWithReplay(token);
   };
 }
 
@@ -14,32 +14,18 @@ import {
   HttpInterceptorFn,
   HttpHandlerFn,
 } from '@angular/common/http';
-import { Observable, throwError, timer } from 'rxjs';
-import { catchError, retry } from 'rxjs/operators';
+import { Observable, throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
 import { LoggerService } from '../services/logger.service';
 import { ConfigService } from '../services/config.service';
-
-/**
- * Error codes that should trigger a retry
- */
-const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
-
-/**
- * Maximum number of retry attempts
- */
-const MAX_RETRIES = 3;
-
-/**
- * Base delay for exponential backoff (ms)
- */
-const RETRY_DELAY = 1000;
+import { RETRY_POLICY_OVERRIDE, RetryPolicyService } from '../services/retry-policy.service';
 
 /**
  * HTTP Error Interceptor (class-based)
  *
  * Provides centralized error handling for HTTP requests including:
  * - Logging errors
- * - Retry logic with exponential backoff
+ * - Retries following the shared retry policy (see RetryPolicyService)
  * - Error transformation
  *
  * @deprecated Use httpErrorInterceptor function instead
@@ -48,33 +34,18 @@ const RETRY_DELAY = 1000;
 export class HttpErrorInterceptor implements HttpInterceptor {
   private readonly logger = inject(LoggerService);
   private readonly config = inject(ConfigService);
+  private readonly retryPolicy = inject(RetryPolicyService);
 
   intercept(req: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
     return next.handle(req).pipe(
-      retry({
-        count: MAX_RETRIES,
-        delay: (error, retryCount) => this.shouldRetry(error, retryCount),
-      }),
-      catchError((error: HttpErrorResponse) => this.handleError(error, req))
+      this.retryPolicy.retry({ method: req.method, policy: req.context.get(RETRY_POLICY_OVERRIDE) }),
+      catchError((error: unknown) =>
+        // Errors raised by other interceptors are already typed
+        error instanceof HttpErrorResponse ? this.handleError(error, req) : throwError(() => error)
+      )
     );
   }
 
-  private shouldRetry(error: unknown, retryCount: number): Observable<number> {
-    if (
-      error instanceof HttpErrorResponse &&
-      RETRYABLE_STATUS_CODES.includes(error.status) &&
-      retryCount <= MAX_RETRIES
-    ) {
-      const delay = RETRY_DELAY * Math.pow(2, retryCount - 1);
-      this.logger.warn(`Retrying request (attempt ${retryCount}/${MAX_RETRIES})`, {
-        status: error.status,
-        delay,
-      });
-      return timer(delay);
-    }
-    return throwError(() => error);
-  }
-
   private handleError(error: HttpErrorResponse, req: HttpRequest<unknown>): Observable<never> {
     const errorInfo = this.extractErrorInfo(error);
 
@@ -152,27 +123,16 @@ export const httpErrorInterceptor: HttpInterceptorFn = (
   next: HttpHandlerFn
 ): Observable<HttpEvent<unknown>> => {
   const logger = inject(LoggerService);
+  const retryPolicy = inject(RetryPolicyService);
 
   return next(req).pipe(
-    retry({
-      count: MAX_RETRIES,
-      delay: (error, retryCount) => {
-        if (
-          error instanceof HttpErrorResponse &&
-          RETRYABLE_STATUS_CODES.includes(error.status) &&
-          retryCount <= MAX_RETRIES
-        ) {
-          const delay = RETRY_DELAY * Math.pow(2, retryCount - 1);
-          logger.warn(`Retrying request (attempt ${retryCount}/${MAX_RETRIES})`, {
-            status: error.status,
-            delay,
-          });
-          return timer(delay);
-        }
+    retryPolicy.retry({ method: req.method, policy: req.context.get(RETRY_POLICY_OVERRIDE) }),
+    catchError((error: unknown) => {
+      // Errors raised by other interceptors are already typed
+      if (!(error instanceof HttpErrorResponse)) {
         return throwError(() => error);
-      },
-    }),
-    catchError((error: HttpErrorResponse) => {
+      }
+
       const errorInfo = extractErrorInfo(error);
 
       logger.error('HTTP request failed', error, {
@@ -53,6 +53,26 @@ export interface AuthConfig {
   autoRefresh?: boolean;
   /** Token refresh threshold in seconds */
   refreshThreshold?: number;
+  /** Verify token signatures and claims against the issuer's JWKS */
+  verifyTokens?: boolean;
+  /** Expected access token audience (defaults to clientId) */
+  audience?: string;
+  /** Idle session timeout */
+  idle?: IdleConfig;
+  /** Roles inherited by each role (e.g. `{ admin: ['editor'], editor: ['viewer'] }`) */
+  roleHierarchy?: Record<string, string[]>;
+}
+
+/**
+ * Idle session timeout configuration
+ */
+export interface IdleConfig {
+  /** Enable the idle timeout (default: true when configured) */
+  enabled?: boolean;
+  /** Seconds of inactivity before the user is logged out */
+  timeout: number;
+  /** Seconds before the timeout at which the warning is shown (default: 60) */
+  warningDuration?: number;
 }
 
 /**
@@ -240,6 +260,26 @@ export interface HttpErrorResponse {
   error?: unknown;
 }
 
+/**
+ * Retry policy for failed HTTP requests
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries (default: 3) */
+  maxRetries: number;
+  /** Base delay in milliseconds (default: 1000) */
+  retryDelay: number;
+  /** Status codes to retry, 0 meaning a network failure (default: 408, 429, 500, 502, 503, 504) */
+  retryStatuses: number[];
+  /** Double the delay after each attempt (default: true) */
+  exponentialBackoff?: boolean;
+  /** Upper bound for a single delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /** Pick each delay at random between 0 and the backoff delay (default: true) */
+  jitter?: boolean;
+  /** Also retry non-idempotent methods such as POST and PATCH (default: false) */
+  retryNonIdempotent?: boolean;
+}
+
 /**
  * Storage item with metadata
  */
@@ -344,6 +384,8 @@ export interface MenuItem {
   children?: MenuItem[];
   /** Required permissions to see this item */
   permissions?: string[];
+  /** Named authorization policy that must allow this item */
+  policy?: string;
   /** Whether the item is disabled */
   disabled?: boolean;
   /** Badge content */
@@ -394,3 +436,31 @@ export interface SecureStorageOptions {
   /** Whether to encrypt the data (default: true) */
   encrypt?: boolean;
 }
+
+/**
+ * Value that failed to decode
+ */
+export interface DecodeFailure {
+  /** Location of the value, e.g. `$.items[2].id` */
+  path: string;
+  /** What was expected there */
+  message: string;
+}
+
+/**
+ * Outcome of decoding an unknown value
+ */
+export type DecodeResult<T> = { ok: true; value: T } | { ok: false; failures: DecodeFailure[] };
+
+/**
+ * Runtime validator turning an unknown value into a `T`
+ */
+export interface Decoder<T> {
+  /** Decode a value found at `path` (default: `$`) */
+  decode(value: unknown, path?: string): DecodeResult<T>;
+}
+
+/**
+ * Type produced by a decoder
+ */
+export type DecodedType<D> = D extends Decoder<infer T> ? T : never;
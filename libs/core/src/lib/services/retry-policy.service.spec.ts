@@ -0,0 +1,121 @@
+/**
+ * @flyfront/core - Retry Policy Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import {
+  HttpClient,
+  HttpContext,
+  HttpErrorResponse,
+  HttpHeaders,
+  provideHttpClient,
+  withInterceptors,
+} from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { DEFAULT_RETRY_POLICY, RETRY_POLICY, RETRY_POLICY_OVERRIDE, RetryPolicyService } from './retry-policy.service';
+import { LoggerService } from './logger.service';
+import { httpErrorInterceptor } from '../interceptors/error.interceptor';
+
+describe('RetryPolicyService', () => {
+  let service: RetryPolicyService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [{ provide: RETRY_POLICY, useValue: { retryDelay: 100 } }],
+    });
+    service = TestBed.inject(RetryPolicyService);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should merge the application policy and per-request overrides', () => {
+    expect(service.resolve()).toEqual({ ...DEFAULT_RETRY_POLICY, retryDelay: 100 });
+    expect(service.resolve({ maxRetries: 1 })?.maxRetries).toBe(1);
+    expect(service.resolve(false)).toBeNull();
+  });
+
+  it('should apply exponential backoff with full jitter', () => {
+    const policy = service.resolve() ?? DEFAULT_RETRY_POLICY;
+    const error = new HttpErrorResponse({ status: 502 });
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(service.getDelay(error, 1, policy)).toBe(50);
+    expect(service.getDelay(error, 3, policy)).toBe(200);
+    expect(service.getDelay(error, 3, { ...policy, jitter: false })).toBe(400);
+    expect(service.getDelay(new HttpErrorResponse({ status: 404 }), 1, policy)).toBeNull();
+    expect(service.getDelay({ code: '503', message: 'Unavailable' }, 1, policy)).toBe(50);
+  });
+
+  it('should honor Retry-After on 429 and 503', () => {
+    const policy = service.resolve() ?? DEFAULT_RETRY_POLICY;
+    const withRetryAfter = (status: number, value: string) =>
+      new HttpErrorResponse({ status, headers: new HttpHeaders({ 'Retry-After': value }) });
+
+    expect(service.getDelay(withRetryAfter(429, '2'), 1, policy)).toBe(2000);
+    expect(service.getDelay(withRetryAfter(503, new Date(Date.now() + 60000).toUTCString()), 1, policy)).toBeNull();
+    expect(service.getDelay(withRetryAfter(502, '2'), 1, { ...policy, jitter: false })).toBe(100);
+  });
+});
+
+describe('httpErrorInterceptor retries', () => {
+  let http: HttpClient;
+  let backend: HttpTestingController;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([httpErrorInterceptor])),
+        provideHttpClientTesting(),
+        { provide: RETRY_POLICY, useValue: { retryDelay: 100, jitter: false } },
+      ],
+    });
+    vi.spyOn(TestBed.inject(LoggerService), 'warn').mockImplementation(() => undefined);
+    vi.spyOn(TestBed.inject(LoggerService), 'error').mockImplementation(() => undefined);
+    http = TestBed.inject(HttpClient);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    backend.verify();
+  });
+
+  it('should retry idempotent requests', () => {
+    const result = vi.fn();
+    http.get('/orders').subscribe(result);
+
+    backend.expectOne('/orders').flush(null, { status: 503, statusText: 'Unavailable' });
+    vi.advanceTimersByTime(100);
+    backend.expectOne('/orders').flush(['order']);
+
+    expect(result).toHaveBeenCalledWith(['order']);
+  });
+
+  it('should not retry non-idempotent requests unless they opt in', () => {
+    const error = vi.fn();
+    http.post('/orders', {}).subscribe({ error });
+    backend.expectOne('/orders').flush(null, { status: 503, statusText: 'Unavailable' });
+    expect(error).toHaveBeenCalled();
+
+    const context = new HttpContext().set(RETRY_POLICY_OVERRIDE, { retryNonIdempotent: true });
+    http.post('/orders', {}, { context }).subscribe();
+    backend.expectOne('/orders').flush(null, { status: 503, statusText: 'Unavailable' });
+    vi.advanceTimersByTime(100);
+    backend.expectOne('/orders').flush({});
+  });
+
+  it('should not retry requests that disable retries', () => {
+    const error = vi.fn();
+    http.get('/orders', { context: new HttpContext().set(RETRY_POLICY_OVERRIDE, false) }).subscribe({ error });
+
+    backend.expectOne('/orders').flush(null, { status: 503, statusText: 'Unavailable' });
+
+    expect(error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * @flyfront/core - Retry Policy Service
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpContextToken, HttpErrorResponse } from '@angular/common/http';
+import { MonoTypeOperatorFunction, throwError, timer } from 'rxjs';
+import { retry } from 'rxjs/operators';
+import { LoggerService } from './logger.service';
+import { RetryPolicy } from '../models/core.models';
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  retryDelay: 1000,
+  retryStatuses: [408, 429, 500, 502, 503, 504],
+  exponentialBackoff: true,
+  maxDelay: 30000,
+  jitter: true,
+  retryNonIdempotent: false,
+};
+
+/**
+ * Injection token for the application-wide retry policy
+ */
+export const RETRY_POLICY = new InjectionToken<Partial<RetryPolicy>>('RETRY_POLICY');
+
+/**
+ * Per-request retry policy override (`false` disables retries)
+ *
+ * @example
+ * ```typescript
+ * this.http.get('/reports', {
+ *   context: new HttpContext().set(RETRY_POLICY_OVERRIDE, { maxRetries: 5 }),
+ * });
+ * ```
+ */
+export const RETRY_POLICY_OVERRIDE = new HttpContextToken<Partial<RetryPolicy> | false | null>(() => null);
+
+/**
+ * Methods that can safely be sent more than once
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'];
+
+/**
+ * Statuses whose `Retry-After` header is honored
+ */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * Retry policy engine shared by the HTTP error interceptors and ApiService
+ *
+ * Retries failed requests with exponential backoff and full jitter, waits as
+ * long as `Retry-After` asks on 429/503, and only retries idempotent methods
+ * unless the policy opts in with `retryNonIdempotent`.
+ *
+ * @example
+ * ```typescript
+ * // Application-wide policy
+ * providers: [{ provide: RETRY_POLICY, useValue: { maxRetries: 5 } }]
+ *
+ * // Retry any Observable
+ * source$.pipe(inject(RetryPolicyService).retry({ method: 'GET' }));
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RetryPolicyService {
+  private readonly logger = inject(LoggerService);
+  private readonly defaults: RetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    ...inject(RETRY_POLICY, { optional: true }),
+  };
+
+  /**
+   * Resolve the effective policy, or `null` when retries are disabled
+   */
+  resolve(override?: Partial<RetryPolicy> | false | null): RetryPolicy | null {
+    return override === false ? null : { ...this.defaults, ...override };
+  }
+
+  /**
+   * Operator retrying failed requests according to the policy
+   *
+   * @param method - HTTP method of the request; when omitted the caller is
+   * expected to know the request is safe to repeat
+   */
+  retry<T>(options: { method?: string; policy?: Partial<RetryPolicy> | false | null } = {}): MonoTypeOperatorFunction<T> {
+    const policy = this.resolve(options.policy);
+    const method = options.method?.toUpperCase();
+
+    if (!policy || policy.maxRetries <= 0) {
+      return (source) => source;
+    }
+    if (method && !IDEMPOTENT_METHODS.includes(method) && !policy.retryNonIdempotent) {
+      return (source) => source;
+    }
+
+    return retry({
+      count: policy.maxRetries,
+      delay: (error, retryCount) => {
+        const delay = this.getDelay(error, retryCount, policy);
+        if (delay === null) {
+          return throwError(() => error);
+        }
+
+        this.logger.warn(`Retrying request (attempt ${retryCount}/${policy.maxRetries})`, {
+          status: this.getStatus(error),
+          delay,
+        });
+        return timer(delay);
+      },
+    });
+  }
+
+  /**
+   * Delay before a retry, or `null` when the error must not be retried
+   */
+  getDelay(error: unknown, retryCount: number, policy: RetryPolicy): number | null {
+    const status = this.getStatus(error);
+    if (status === undefined || !policy.retryStatuses.includes(status)) {
+      return null;
+    }
+
+    const maxDelay = policy.maxDelay ?? Infinity;
+    const retryAfter = RETRY_AFTER_STATUSES.includes(status) ? this.getRetryAfter(error) : null;
+    if (retryAfter !== null) {
+      // Waiting longer than the policy allows is not worth it
+      return retryAfter <= maxDelay ? retryAfter : null;
+    }
+
+    const backoff = Math.min(
+      policy.exponentialBackoff ? policy.retryDelay * Math.pow(2, retryCount - 1) : policy.retryDelay,
+      maxDelay
+    );
+    return policy.jitter ? Math.floor(Math.random() * backoff) : backoff;
+  }
+
+  /**
+   * Read the status of an HttpErrorResponse or of an error already mapped to a plain object
+   */
+  private getStatus(error: unknown): number | undefined {
+    if (error instanceof HttpErrorResponse) {
+      return error.status;
+    }
+
+    const { status, code } = (error ?? {}) as { status?: unknown; code?: unknown };
+    if (typeof status === 'number') {
+      return status;
+    }
+    return typeof code === 'string' && /^\d+$/.test(code) ? Number(code) : undefined;
+  }
+
+  /**
+   * Parse `Retry-After` (delay in seconds or HTTP date) into milliseconds
+   */
+  private getRetryAfter(error: unknown): number | null {
+    const header = error instanceof HttpErrorResponse ? error.headers.get('Retry-After') : null;
+    if (!header) {
+      return null;
+    }
+
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+}
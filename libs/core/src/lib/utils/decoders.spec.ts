@@ -0,0 +1,56 @@
+/**
+ * @flyfront/core - Decoders Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { schema } from './decoders';
+import { isTokenPayload } from './type-guards';
+
+describe('schema', () => {
+  const userSchema = schema.object({
+    id: schema.string(),
+    roles: schema.array(schema.literal('admin', 'user')),
+    manager: schema.nullable(schema.string()),
+    lastLogin: schema.optional(schema.date()),
+  });
+
+  it('should decode matching values', () => {
+    const result = userSchema.decode({ id: 'u1', roles: ['admin'], manager: null, lastLogin: '2026-01-02T03:04:05Z', extra: 1 });
+
+    expect(result).toEqual({
+      ok: true,
+      value: { id: 'u1', roles: ['admin'], manager: null, lastLogin: new Date('2026-01-02T03:04:05Z'), extra: 1 },
+    });
+  });
+
+  it('should report every offending path', () => {
+    const result = schema.array(userSchema).decode([{ id: 'u1', roles: ['user'], manager: null }, { id: 2, roles: ['user', 'root'] }]);
+
+    expect(result).toEqual({
+      ok: false,
+      failures: [
+        { path: '$[1].id', message: 'expected string, got number' },
+        { path: '$[1].roles[1]', message: 'expected one of "admin", "user", got "root"' },
+        { path: '$[1].manager', message: 'expected string, got undefined' },
+      ],
+    });
+  });
+
+  it('should compose unions, records, refinements and type guards', () => {
+    const id = schema.union(schema.string(), schema.number());
+    const counts = schema.record(schema.refine(schema.number(), (value) => value >= 0, 'expected a positive count'));
+    const token = schema.fromGuard(isTokenPayload, 'token payload');
+
+    expect(id.decode(1)).toEqual({ ok: true, value: 1 });
+    expect(id.decode(true)).toEqual({
+      ok: false,
+      failures: [{ path: '$', message: 'expected string, got boolean or expected number, got boolean' }],
+    });
+    expect(counts.decode({ 'in stock': -1 })).toEqual({
+      ok: false,
+      failures: [{ path: '$["in stock"]', message: 'expected a positive count' }],
+    });
+    expect(token.decode({ sub: 'u1' }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * @flyfront/core - Decoders
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { DecodeFailure, DecodeResult, DecodedType, Decoder } from '../models/core.models';
+import { isBoolean, isNumber, isObject, isString } from './type-guards';
+
+type Shape = Record<string, Decoder<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends DecodedType<S[K]> ? K : never;
+}[keyof S];
+
+/**
+ * Type produced by `schema.object`: properties whose decoder accepts `undefined` are optional
+ */
+export type ObjectType<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: DecodedType<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: DecodedType<S[K]>;
+};
+
+type Literal = string | number | boolean | null;
+
+function success<T>(value: T): DecodeResult<T> {
+  return { ok: true, value };
+}
+
+function failure<T>(path: string, message: string): DecodeResult<T> {
+  return { ok: false, failures: [{ path, message }] };
+}
+
+/**
+ * Short description of a value for failure messages
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Path of a property below `path`
+ */
+function propertyPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Create a decoder from a decoding function
+ */
+function decoder<T>(decode: (value: unknown, path: string) => DecodeResult<T>): Decoder<T> {
+  return { decode: (value, path = '$') => decode(value, path) };
+}
+
+/**
+ * Decoder accepting the values a type guard accepts
+ */
+function fromGuard<T>(guard: (value: unknown) => value is T, expected: string): Decoder<T> {
+  return decoder((value, path) =>
+    guard(value) ? success(value) : failure(path, `expected ${expected}, got ${describe(value)}`)
+  );
+}
+
+function string(): Decoder<string> {
+  return fromGuard(isString, 'string');
+}
+
+function number(): Decoder<number> {
+  return fromGuard(isNumber, 'number');
+}
+
+function boolean(): Decoder<boolean> {
+  return fromGuard(isBoolean, 'boolean');
+}
+
+function unknown(): Decoder<unknown> {
+  return decoder((value) => success(value));
+}
+
+function literal<const T extends readonly Literal[]>(...values: T): Decoder<T[number]> {
+  const expected = values.map((value) => JSON.stringify(value)).join(', ');
+  return decoder((value, path) =>
+    values.includes(value as Literal)
+      ? success(value as T[number])
+      : failure(path, `expected one of ${expected}, got ${JSON.stringify(value) ?? describe(value)}`)
+  );
+}
+
+/**
+ * Date parsed from a date string
+ */
+function date(): Decoder<Date> {
+  return decoder((value, path) => {
+    const time = isString(value) ? Date.parse(value) : NaN;
+    return Number.isNaN(time) ? failure(path, `expected date string, got ${describe(value)}`) : success(new Date(time));
+  });
+}
+
+function array<T>(item: Decoder<T>): Decoder<T[]> {
+  return decoder((value, path) => {
+    if (!Array.isArray(value)) {
+      return failure(path, `expected array, got ${describe(value)}`);
+    }
+
+    const items: T[] = [];
+    const failures: DecodeFailure[] = [];
+    value.forEach((element, index) => {
+      const result = item.decode(element, `${path}[${index}]`);
+      if (result.ok) {
+        items.push(result.value);
+      } else {
+        failures.push(...result.failures);
+      }
+    });
+    return failures.length > 0 ? { ok: false, failures } : success(items);
+  });
+}
+
+function record<T>(item: Decoder<T>): Decoder<Record<string, T>> {
+  return decoder((value, path) => {
+    if (!isObject(value)) {
+      return failure(path, `expected object, got ${describe(value)}`);
+    }
+
+    const entries: Record<string, T> = {};
+    const failures: DecodeFailure[] = [];
+    Object.entries(value).forEach(([key, element]) => {
+      const result = item.decode(element, propertyPath(path, key));
+      if (result.ok) {
+        entries[key] = result.value;
+      } else {
+        failures.push(...result.failures);
+      }
+    });
+    return failures.length > 0 ? { ok: false, failures } : success(entries);
+  });
+}
+
+/**
+ * Object with the given properties; properties not in the shape are kept as they are
+ */
+function object<S extends Shape>(shape: S): Decoder<ObjectType<S>> {
+  return decoder((value, path) => {
+    if (!isObject(value)) {
+      return failure(path, `expected object, got ${describe(value)}`);
+    }
+
+    const decoded: Record<string, unknown> = { ...value };
+    const failures: DecodeFailure[] = [];
+    Object.entries(shape).forEach(([key, property]) => {
+      const result = property.decode(value[key], propertyPath(path, key));
+      if (!result.ok) {
+        failures.push(...result.failures);
+      } else if (result.value !== undefined) {
+        decoded[key] = result.value;
+      }
+    });
+    return failures.length > 0 ? { ok: false, failures } : success(decoded as ObjectType<S>);
+  });
+}
+
+function optional<T>(inner: Decoder<T>): Decoder<T | undefined> {
+  return decoder((value, path) => (value === undefined ? success(undefined) : inner.decode(value, path)));
+}
+
+function nullable<T>(inner: Decoder<T>): Decoder<T | null> {
+  return decoder((value, path) => (value === null ? success(null) : inner.decode(value, path)));
+}
+
+/**
+ * First alternative that decodes the value
+ *
+ * When every alternative fails, the failures of the first one that got
+ * past the value itself (e.g. an object with a wrong property) are reported.
+ */
+function union<const D extends readonly Decoder<unknown>[]>(...alternatives: D): Decoder<DecodedType<D[number]>> {
+  return decoder((value, path) => {
+    const failures: DecodeFailure[][] = [];
+    for (const alternative of alternatives) {
+      const result = alternative.decode(value, path);
+      if (result.ok) {
+        return result as DecodeResult<DecodedType<D[number]>>;
+      }
+      failures.push(result.failures);
+    }
+
+    const nested = failures.find((list) => list.some((item) => item.path !== path));
+    return nested
+      ? { ok: false, failures: nested }
+      : failure(path, failures.map((list) => list.map((item) => item.message).join('; ')).join(' or '));
+  });
+}
+
+/**
+ * Transform a decoded value
+ */
+function map<T, U>(inner: Decoder<T>, transform: (value: T) => U): Decoder<U> {
+  return decoder((value, path) => {
+    const result = inner.decode(value, path);
+    return result.ok ? success(transform(result.value)) : result;
+  });
+}
+
+/**
+ * Add a constraint to a decoder
+ */
+function refine<T>(inner: Decoder<T>, predicate: (value: T) => boolean, message: string): Decoder<T> {
+  return decoder((value, path) => {
+    const result = inner.decode(value, path);
+    return !result.ok || predicate(result.value) ? result : failure(path, message);
+  });
+}
+
+/**
+ * Decoder created on first use, for recursive structures
+ */
+function lazy<T>(create: () => Decoder<T>): Decoder<T> {
+  let inner: Decoder<T> | undefined;
+  return decoder((value, path) => (inner ??= create()).decode(value, path));
+}
+
+/**
+ * Composable runtime validators
+ *
+ * @example
+ * ```typescript
+ * const userSchema = schema.object({
+ *   id: schema.string(),
+ *   email: schema.string(),
+ *   roles: schema.array(schema.literal('admin', 'user')),
+ *   lastLogin: schema.optional(schema.date()),
+ * });
+ * type User = DecodedType<typeof userSchema>;
+ *
+ * const result = userSchema.decode(json);
+ * if (!result.ok) {
+ *   console.warn(result.failures); // [{ path: '$.roles[1]', message: 'expected one of "admin", "user", got "root"' }]
+ * }
+ *
+ * // Reuse existing type guards
+ * const tokenSchema = schema.fromGuard(isTokenPayload, 'token payload');
+ * ```
+ */
+export const schema = {
+  string,
+  number,
+  boolean,
+  unknown,
+  literal,
+  date,
+  array,
+  record,
+  object,
+  optional,
+  nullable,
+  union,
+  map,
+  refine,
+  lazy,
+  fromGuard,
+  custom: decoder,
+};
@@ -10,4 +10,28 @@ export * from './lib/models/data-access.models';
 // Services
 export * from './lib/services/api.service';
 export * from './lib/services/websocket.service';
+export * from './lib/services/websocket-connection';
 export * from './lib/services/cache.service';
+export * from './lib/services/outbox.service';
+export * from './lib/services/request-cancellation.service';
+export * from './lib/services/circuit-breaker.service';
+export * from './lib/services/graphql.service';
+export * from './lib/services/graphql-cache';
+export * from './lib/services/upload-queue.service';
+
+// Interceptors
+export * from './lib/interceptors/circuit-breaker.interceptor';
+
+// Resources
+export * from './lib/resources/create-resource';
+
+// Storage
+export { IndexedDbCacheStorage } from './lib/storage/indexed-db-cache.storage';
+
+// Providers
+export * from './lib/providers/data-access.providers';
+
+// Utils
+export * from './lib/utils/type-guards';
+export * from './lib/utils/pagination';
+export * from './lib/utils/websocket-codecs';
@@ -0,0 +1,78 @@
+/**
+ * @flyfront/data-access - Circuit Breaker Interceptor
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { inject } from '@angular/core';
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpEventType,
+  HttpHandlerFn,
+  HttpInterceptorFn,
+  HttpRequest,
+} from '@angular/common/http';
+import { Observable, defer, throwError } from 'rxjs';
+import { finalize, tap } from 'rxjs/operators';
+import { CircuitBreakerService } from '../services/circuit-breaker.service';
+
+/**
+ * Functional interceptor failing fast while the backend of a request is down
+ *
+ * Register it after `httpErrorInterceptor` so every retry attempt passes
+ * through the circuit: once it opens, pending retries stop hitting the
+ * backend and fail with an `ApiCircuitOpenError`.
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideHttpClient(withInterceptors([httpErrorInterceptor, circuitBreakerInterceptor])),
+ *   ],
+ * };
+ * ```
+ */
+export const circuitBreakerInterceptor: HttpInterceptorFn = (
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn
+): Observable<HttpEvent<unknown>> => {
+  const breaker = inject(CircuitBreakerService);
+  const key = breaker.keyFor(req.url);
+
+  // Check the circuit on every subscription, retries included
+  return defer(() => {
+    if (!breaker.acquire(key)) {
+      return throwError(() => breaker.createOpenError(key, req.url));
+    }
+
+    let settled = false;
+    return next(req).pipe(
+      tap({
+        next: (event) => {
+          if (event.type === HttpEventType.Response) {
+            settled = true;
+            breaker.recordSuccess(key);
+          }
+        },
+        error: (error) => {
+          settled = true;
+          if (breaker.isFailure(error)) {
+            breaker.recordFailure(key);
+          } else if (error instanceof HttpErrorResponse) {
+            // The backend answered, so it is up
+            breaker.recordSuccess(key);
+          } else {
+            breaker.release(key);
+          }
+        },
+      }),
+      finalize(() => {
+        if (!settled) {
+          breaker.release(key);
+        }
+      })
+    );
+  });
+};
@@ -5,6 +5,8 @@
  */
 
 import { HttpHeaders, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { Decoder, RetryPolicy } from '@flyfront/core';
 
 /**
  * Pagination parameters for API requests
@@ -31,6 +33,19 @@ export interface PaginatedResponse<T> {
   };
 }
 
+/**
+ * Cursor-paginated response wrapper
+ */
+export interface CursorPaginatedResponse<T> {
+  data: T[];
+  meta: {
+    /** Cursor of the page after this one; null on the last page */
+    nextCursor?: string | null;
+    /** Cursor of the page before this one; null on the first page */
+    previousCursor?: string | null;
+  };
+}
+
 /**
  * API error response
  */
@@ -43,6 +58,79 @@ export interface ApiErrorResponse {
   traceId?: string;
 }
 
+/**
+ * Error code of a request that exceeded its timeout
+ */
+export const TIMEOUT_ERROR_CODE = 'TIMEOUT';
+
+/**
+ * Error raised when a request exceeds its timeout
+ */
+export interface ApiTimeoutError extends ApiErrorResponse {
+  code: typeof TIMEOUT_ERROR_CODE;
+  /** Timeout that was exceeded, in milliseconds */
+  timeout: number;
+}
+
+/**
+ * Error code of a response that does not match its decoder
+ */
+export const VALIDATION_ERROR_CODE = 'INVALID_RESPONSE';
+
+/**
+ * Error raised when a response fails validation
+ */
+export interface ApiValidationError extends ApiErrorResponse {
+  code: typeof VALIDATION_ERROR_CODE;
+  /** Failure messages keyed by the offending path, e.g. `{ '$.items[2].id': ['expected string, got number'] }` */
+  details: Record<string, string[]>;
+}
+
+/**
+ * Error code of a request rejected because its circuit is open
+ */
+export const CIRCUIT_OPEN_ERROR_CODE = 'CIRCUIT_OPEN';
+
+/**
+ * Error raised when a request fails fast because its backend is considered down
+ */
+export interface ApiCircuitOpenError extends ApiErrorResponse {
+  code: typeof CIRCUIT_OPEN_ERROR_CODE;
+  /** Key of the open circuit (origin or configured endpoint prefix) */
+  circuit: string;
+  /** When the circuit lets a trial request through, as a timestamp */
+  retryAt: number;
+}
+
+/**
+ * Error code of a GraphQL operation that returned errors
+ */
+export const GRAPHQL_ERROR_CODE = 'GRAPHQL_ERROR';
+
+/**
+ * Error raised when a GraphQL response carries `errors`
+ */
+export interface ApiGraphQLError extends ApiErrorResponse {
+  code: typeof GRAPHQL_ERROR_CODE;
+  errors: GraphQLError[];
+  /** Partial data returned alongside the errors */
+  data?: unknown;
+}
+
+/**
+ * Error code of a streamed record that could not be parsed
+ */
+export const STREAM_PARSE_ERROR_CODE = 'STREAM_PARSE_ERROR';
+
+/**
+ * Error raised when a record of `ApiService.stream` fails to parse
+ */
+export interface ApiStreamParseError extends ApiErrorResponse {
+  code: typeof STREAM_PARSE_ERROR_CODE;
+  /** The record that failed, e.g. the malformed NDJSON line */
+  record: string;
+}
+
 /**
  * Request configuration options
  */
@@ -55,6 +143,30 @@ export interface RequestConfig {
   skipAuth?: boolean;
   skipErrorHandler?: boolean;
   cache?: CacheConfig;
+  /** Cache entries to invalidate once a mutation succeeds */
+  invalidates?: CacheInvalidation;
+  /** Share an identical in-flight GET (same URL and params) instead of sending it again (default: true) */
+  dedupe?: boolean;
+  /** Queue the mutation in the offline outbox when the network is unavailable */
+  offline?: boolean;
+  /** Sent as the `Idempotency-Key` header (generated for offline mutations) */
+  idempotencyKey?: string;
+  /** Fail with a timeout error after this many milliseconds (overrides `DataAccessConfig.timeout`) */
+  timeout?: number;
+  /** Cancel the request when the signal aborts; the Observable then completes without emitting */
+  signal?: AbortSignal;
+  /** Cancel the request when the user navigates away (overrides `DataAccessConfig.cancelOnNavigation`) */
+  cancelOnNavigation?: boolean;
+  /** Retry policy override for this request (`false` disables retries); applied by the HTTP error interceptor */
+  retry?: Partial<RetryConfig> | false;
+}
+
+/**
+ * Request configuration validating the response
+ */
+export interface TypedRequestConfig<T> extends RequestConfig {
+  /** Decode the response body; responses that do not match fail with an `ApiValidationError` */
+  decoder?: Decoder<T>;
 }
 
 /**
@@ -64,6 +176,100 @@ export interface CacheConfig {
   enabled: boolean;
   ttl?: number; // Time to live in milliseconds
   key?: string; // Custom cache key
+  tags?: string[]; // Tags for grouped invalidation
+  /** How long (ms) after `ttl` a stale entry is still served while it is refreshed in the background */
+  staleWhileRevalidate?: number;
+  /** Refresh the entry in the background when the window regains focus */
+  revalidateOnFocus?: boolean;
+  /** Refresh the entry in the background when the browser comes back online */
+  revalidateOnReconnect?: boolean;
+  /** Keep the response in the cache storage backend so it survives reloads and serves as an offline fallback */
+  persist?: boolean;
+}
+
+/**
+ * Cache entries to invalidate after a mutation
+ */
+export interface CacheInvalidation {
+  /** Invalidate entries carrying any of these tags */
+  tags?: string[];
+  /** Invalidate entries whose key matches any of these patterns */
+  patterns?: Array<string | RegExp>;
+  /** Invalidate these exact keys */
+  keys?: string[];
+}
+
+/**
+ * Cache entry as kept by a cache storage backend
+ */
+export interface PersistedCacheEntry<T = unknown> {
+  key: string;
+  data: T;
+  expiry: number;
+  staleUntil: number;
+  createdAt: number;
+  tags: string[];
+}
+
+/**
+ * Persistent storage backend for CacheService
+ *
+ * Backends keep entries past their expiry (until evicted) so they can be
+ * served as an offline fallback.
+ */
+export interface CacheStorageAdapter {
+  /** Read every stored entry */
+  entries(): Promise<PersistedCacheEntry[]>;
+  /** Read an entry and mark it as recently used */
+  get(key: string): Promise<PersistedCacheEntry | undefined>;
+  /** Store an entry, evicting others if needed */
+  set(entry: PersistedCacheEntry): Promise<void>;
+  /** Mark an entry as recently used */
+  touch(key: string): Promise<void>;
+  /** Delete an entry */
+  delete(key: string): Promise<void>;
+  /** Delete entries matching a predicate */
+  deleteWhere(predicate: (entry: Pick<PersistedCacheEntry, 'key' | 'tags'>) => boolean): Promise<void>;
+  /** Delete every entry */
+  clear(): Promise<void>;
+}
+
+/**
+ * IndexedDB cache storage options
+ */
+export interface IndexedDbCacheOptions {
+  /** Database name (default: 'fly_cache') */
+  name?: string;
+  /** Maximum total size of stored entries in bytes (default: 50 MB) */
+  quota?: number;
+}
+
+/**
+ * HTTP method of a queued mutation
+ */
+export type MutationMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Mutation waiting in the offline outbox
+ */
+export interface OutboxEntry {
+  /** Idempotency key, sent with every attempt */
+  id: string;
+  method: MutationMethod;
+  url: string;
+  body: unknown;
+  /** Request configuration with headers and params as plain records */
+  config: RequestConfig;
+  createdAt: number;
+  attempts: number;
+}
+
+/**
+ * Queued mutation rejected by the server during replay
+ */
+export interface OutboxConflict {
+  entry: OutboxEntry;
+  error: ApiErrorResponse;
 }
 
 /**
@@ -91,6 +297,40 @@ export interface WebSocketConfig {
   reconnectInterval?: number;
   reconnectAttempts?: number;
   heartbeatInterval?: number;
+  /** Messages kept while disconnected and sent once connected (default: 100; 0 drops them) */
+  queueLimit?: number;
+  /** Keep queued messages in storage so they survive reloads (default: false) */
+  persistQueue?: boolean;
+  /** Topic subscription messages (default: `subscribe`/`unsubscribe` with `{ channel }`) */
+  topics?: Partial<WebSocketTopicProtocol>;
+  /** Wire format of the messages (default: `jsonCodec()`) */
+  codec?: WebSocketCodec;
+}
+
+/**
+ * Data of a WebSocket frame
+ */
+export type WebSocketFrame = string | ArrayBuffer | ArrayBufferView | Blob;
+
+/**
+ * Converts values to and from WebSocket frames
+ */
+export interface WebSocketCodec<T = WebSocketMessage> {
+  encode(value: T): WebSocketFrame;
+  /** Value carried by a received frame; null to ignore the frame */
+  decode(frame: WebSocketFrame): T | null;
+  /** How the socket delivers binary frames to `decode` */
+  binaryType?: BinaryType;
+}
+
+/**
+ * How a connection subscribes to topics and recognizes their messages
+ */
+export interface WebSocketTopicProtocol {
+  subscribe(topic: string, params?: unknown): WebSocketMessage;
+  unsubscribe(topic: string, params?: unknown): WebSocketMessage;
+  /** Whether a received message belongs to a topic */
+  matches(message: WebSocketMessage, topic: string): boolean;
 }
 
 /**
@@ -112,6 +352,53 @@ export interface UploadResponse<T = unknown> {
   mimeType: string;
 }
 
+/**
+ * Chunked upload settings of `UploadQueueService`
+ */
+export interface UploadQueueConfig {
+  /** Chunk size in bytes (default: 5 MiB) */
+  chunkSize: number;
+  /** Chunks of one file sent in parallel (default: 3) */
+  concurrency: number;
+  /** Files uploaded in parallel (default: 2) */
+  maxConcurrentFiles: number;
+  /** Send a SHA-256 `Content-Digest` with every chunk (default: true) */
+  checksum: boolean;
+  /** Re-sends of a chunk the server rejected with 460 Checksum Mismatch (default: 3) */
+  maxChecksumRetries: number;
+  /** Remember upload sessions so that adding the same file again resumes it (default: true) */
+  persist: boolean;
+}
+
+/**
+ * Options of one file added to `UploadQueueService`
+ */
+export interface ChunkedUploadOptions
+  extends Partial<Pick<UploadQueueConfig, 'chunkSize' | 'concurrency' | 'checksum' | 'maxChecksumRetries' | 'persist'>> {
+  /** Endpoint of the chunk upload protocol */
+  endpoint: string;
+  /** Sent to the server when the upload session is created */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Status of a file in the upload queue
+ */
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'completed' | 'error' | 'cancelled';
+
+/**
+ * A file in the upload queue
+ */
+export interface UploadItem<T = unknown> {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  progress: UploadProgress;
+  /** Response of the server once the upload completed */
+  result?: T;
+  error?: ApiErrorResponse;
+}
+
 /**
  * Query parameters builder type
  */
@@ -123,13 +410,45 @@ export type QueryParams = Record<string, string | number | boolean | string[] |
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
 
 /**
- * Retry configuration
+ * Retry configuration (the shared retry policy of `@flyfront/core`)
+ */
+export type RetryConfig = RetryPolicy;
+
+/**
+ * Circuit breaker configuration
  */
-export interface RetryConfig {
-  maxRetries: number;
-  retryDelay: number;
-  retryStatuses: number[];
-  exponentialBackoff?: boolean;
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open a circuit (default: 5) */
+  failureThreshold: number;
+  /** How long an open circuit fails fast before letting a trial request through, in ms (default: 30000) */
+  resetTimeout: number;
+  /** Successful trial requests needed to close a half-open circuit (default: 1) */
+  successThreshold: number;
+  /** Response statuses counted as failures; 0 means the server could not be reached (default: 0, 500, 502, 503, 504) */
+  failureStatuses: number[];
+  /** Endpoint prefixes with a circuit of their own; other requests share the circuit of their origin */
+  scopes?: string[];
+}
+
+/**
+ * Circuit breaker status
+ * - `closed`: requests go through
+ * - `open`: requests fail fast
+ * - `half-open`: one trial request at a time decides whether the circuit closes again
+ */
+export type CircuitStatus = 'closed' | 'open' | 'half-open';
+
+/**
+ * State of one circuit
+ */
+export interface CircuitState {
+  /** Origin or endpoint prefix the circuit guards */
+  key: string;
+  status: CircuitStatus;
+  /** Consecutive failures while closed */
+  failures: number;
+  /** When an open circuit lets a trial request through, as a timestamp */
+  retryAt?: number;
 }
 
 /**
@@ -138,8 +457,18 @@ export interface RetryConfig {
 export interface DataAccessConfig {
   baseUrl: string;
   defaultHeaders?: Record<string, string>;
+  /** Default request timeout in milliseconds */
   timeout?: number;
-  retry?: RetryConfig;
+  /** Cancel pending requests when the user navigates away (default: false) */
+  cancelOnNavigation?: boolean;
+  /** Retry policy for the HTTP error interceptor and `ApiService.withRetry` */
+  retry?: Partial<RetryConfig>;
+  /** Circuit breaker settings for `circuitBreakerInterceptor` */
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  /** Endpoints and socket settings for `GraphQLService` */
+  graphql?: Partial<GraphQLConfig>;
+  /** Chunk sizes and concurrency of `UploadQueueService` */
+  upload?: Partial<UploadQueueConfig>;
   cache?: {
     enabled: boolean;
     defaultTtl: number;
@@ -176,12 +505,26 @@ export interface SSEConfig {
   id?: string;
   /** Include credentials in the request */
   withCredentials?: boolean;
-  /** Continue on error instead of completing */
+  /** Complete instead of erroring when the connection fails for good */
   continueOnError?: boolean;
   /** Automatically parse JSON data (default: true) */
   parseJson?: boolean;
-  /** Specific event types to listen for */
+  /** Event types to emit besides `message` */
   eventTypes?: string[];
+  /** Headers, params and cancellation of the request, which goes through the HTTP interceptors; `timeout` is ignored */
+  requestConfig?: RequestConfig;
+  /** Event ID to resume after, sent as `Last-Event-ID` on the first request */
+  lastEventId?: string;
+  /** Reconnect when the stream ends or fails with a network or 5xx error (default: true) */
+  reconnect?: boolean;
+  /** First reconnect delay in milliseconds, replaced by the server's `retry:` field (default: 1000) */
+  reconnectDelay?: number;
+  /** Upper bound of the doubling reconnect delay (default: 30000) */
+  maxReconnectDelay?: number;
+  /** Consecutive failed reconnects before giving up (default: unlimited) */
+  maxReconnectAttempts?: number;
+  /** Response text a connection may hold before it is replaced at the next event boundary (default: 1 MiB) */
+  maxBufferedBytes?: number;
 }
 
 /**
@@ -198,6 +541,39 @@ export interface SSEMessage<T = unknown> {
   origin: string;
 }
 
+/**
+ * How a streamed response body is split into records
+ *
+ * - `ndjson`: one JSON value per line, blank lines skipped
+ * - `lines`: one string per line
+ * - `text`: one string per received chunk, e.g. tokens of a generated answer
+ */
+export type StreamFormat = 'ndjson' | 'lines' | 'text';
+
+/**
+ * Streaming request configuration
+ */
+export interface StreamConfig<T = unknown> extends RequestConfig {
+  /** Record format of the body (default: 'ndjson') */
+  format?: StreamFormat;
+  /** Convert a record, e.g. to validate it (default: `JSON.parse` for ndjson, the raw string otherwise) */
+  parse?: (record: string) => T;
+  /** HTTP method (default: 'GET') */
+  method?: 'GET' | 'POST';
+  /** Request body, e.g. the prompt of a generated answer */
+  body?: unknown;
+}
+
+/**
+ * Event of a streamed response
+ *
+ * Records are delivered in one batch per received chunk rather than one
+ * emission each, so bursts do not flood subscribers.
+ */
+export type StreamEvent<T> =
+  | { type: 'records'; records: T[] }
+  | { type: 'progress'; loaded: number; total?: number };
+
 /**
  * Reactive request configuration
  */
@@ -223,3 +599,205 @@ export interface PaginatedStreamState<T> {
   page: number;
   pageSize: number;
 }
+
+/**
+ * Position of a page: a page number or an opaque cursor
+ */
+export type PageCursor = string | number;
+
+/**
+ * Direction of a page request relative to the loaded items
+ */
+export type PageDirection = 'forward' | 'backward';
+
+/**
+ * Items and neighbouring pages of one response
+ */
+export interface PageInfo<T> {
+  items: T[];
+  /** Cursor of the following page; null or undefined when there is none */
+  nextCursor?: PageCursor | null;
+  /** Cursor of the preceding page; null or undefined when there is none */
+  previousCursor?: PageCursor | null;
+}
+
+/**
+ * How `createPaginatedStream` requests pages and reads responses
+ */
+export interface PaginationStrategy<T, R = unknown> {
+  /** Cursor of the first page to load */
+  initialCursor: PageCursor | null;
+  /** Query parameters requesting the page at `cursor` */
+  params(cursor: PageCursor | null, direction: PageDirection, pageSize: number): QueryParams;
+  /** Items and neighbouring cursors of a response */
+  pageInfo(response: R): PageInfo<T>;
+}
+
+/**
+ * Paginated stream configuration
+ */
+export interface PaginatedStreamConfig<T, R = PaginatedResponse<T>> {
+  /** Items per page (default: 20) */
+  pageSize?: number;
+  /** First page number when using the default page-number strategy (default: 1) */
+  initialPage?: number;
+  /** Page request and response format (default: `pageNumberPagination`) */
+  strategy?: PaginationStrategy<T, R>;
+  requestConfig?: RequestConfig;
+}
+
+/**
+ * Paginated stream returned by `createPaginatedStream`
+ */
+export interface PaginatedStream<T> {
+  data$: Observable<T[]>;
+  loading$: Observable<boolean>;
+  /** Whether a following page exists */
+  hasMore$: Observable<boolean>;
+  /** Whether a preceding page exists */
+  hasPrevious$: Observable<boolean>;
+  error$: Observable<ApiErrorResponse | null>;
+  /** Append the following page */
+  loadMore: () => void;
+  /** Prepend the preceding page */
+  loadPrevious: () => void;
+  /** Reload the first page, keeping the current items until it arrives */
+  refresh: () => void;
+  /** Clear the items and reload the first page */
+  reset: () => void;
+  destroy: () => void;
+}
+
+// ============================================================
+// RESOURCE TYPES
+// ============================================================
+
+/**
+ * Values substituted into the `:name` placeholders of a resource path
+ */
+export type PathParams = Record<string, string | number>;
+
+/**
+ * Request configuration of a resource call
+ */
+export interface ResourceRequestConfig extends RequestConfig {
+  /** Values for the path placeholders other than `:id` */
+  path?: PathParams;
+}
+
+/**
+ * Resource definition for `createResource`
+ */
+export interface ResourceConfig {
+  /** Collection path template, e.g. `/orgs/:orgId/users` */
+  path: string;
+  /** Item path template (default: `${path}/:id`) */
+  itemPath?: string;
+  /** Tag carried by every cached response of the resource, for invalidation from elsewhere */
+  name?: string;
+  /** Cache `list` and `get` responses (tags are added to the resource tags) */
+  cache?: Omit<CacheConfig, 'enabled' | 'key'>;
+  /** Further cache entries to invalidate after every successful mutation */
+  invalidates?: CacheInvalidation;
+}
+
+/**
+ * Typed REST client produced by `createResource`
+ */
+export interface Resource<T, Id extends string | number = string> {
+  /** GET the collection, one page at a time */
+  list(pagination?: PaginationParams, config?: ResourceRequestConfig): Observable<PaginatedResponse<T>>;
+  /** GET one item */
+  get(id: Id, config?: ResourceRequestConfig): Observable<T>;
+  /** POST a new item to the collection */
+  create(body: Partial<T>, config?: ResourceRequestConfig): Observable<T>;
+  /** PUT a whole item */
+  update(id: Id, body: T, config?: ResourceRequestConfig): Observable<T>;
+  /** PATCH part of an item */
+  patch(id: Id, changes: Partial<T>, config?: ResourceRequestConfig): Observable<T>;
+  /** DELETE an item */
+  remove(id: Id, config?: ResourceRequestConfig): Observable<void>;
+  /** Resolve the collection URL, or the item URL when an id is given */
+  url(id?: Id, path?: PathParams): string;
+}
+
+// ============================================================
+// GRAPHQL TYPES
+// ============================================================
+
+/**
+ * Variables of a GraphQL operation
+ */
+export type GraphQLVariables = Record<string, unknown>;
+
+/**
+ * GraphQL operation source, typed with its result and variables
+ *
+ * Created with `gql`; the type parameters only exist at compile time.
+ */
+export interface GraphQLDocument<TData = unknown, TVariables extends GraphQLVariables = GraphQLVariables> {
+  readonly source: string;
+  readonly operationName?: string;
+  /** Type carrier, never set at runtime */
+  readonly __types?: { data: TData; variables: TVariables };
+}
+
+/**
+ * Error entry of a GraphQL response
+ */
+export interface GraphQLError {
+  message: string;
+  locations?: Array<{ line: number; column: number }>;
+  path?: Array<string | number>;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * GraphQL response body
+ */
+export interface GraphQLResponse<TData = unknown> {
+  data?: TData | null;
+  errors?: GraphQLError[];
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * How a query uses the normalized cache
+ *
+ * - `cache-first`: answer from the cache when every entity is there, otherwise fetch
+ * - `network-only`: always fetch, then write the result to the cache
+ * - `no-cache`: always fetch and leave the cache alone
+ */
+export type GraphQLFetchPolicy = 'cache-first' | 'network-only' | 'no-cache';
+
+/**
+ * Options of `GraphQLService.query` and `GraphQLService.watchQuery`
+ */
+export interface GraphQLQueryOptions extends RequestConfig {
+  /** Cache usage (default: 'cache-first') */
+  fetchPolicy?: GraphQLFetchPolicy;
+}
+
+/**
+ * Options of `GraphQLService.mutate`
+ */
+export interface GraphQLMutationOptions<TData = unknown> extends RequestConfig {
+  /** Whether returned entities are written to the cache (default: 'network-only') */
+  fetchPolicy?: Exclude<GraphQLFetchPolicy, 'cache-first'>;
+  /** Called with the result once it is in the cache, e.g. to add a created entity to cached lists */
+  update?: (data: TData) => void;
+}
+
+/**
+ * GraphQL endpoint configuration
+ */
+export interface GraphQLConfig {
+  /** HTTP endpoint, relative to the API base URL (default: '/graphql') */
+  endpoint: string;
+  /** graphql-ws endpoint for subscriptions (default: the HTTP endpoint with a ws(s) scheme) */
+  wsUrl?: string;
+  /** Payload of the `connection_init` message (default: the current access token, if any) */
+  connectionParams?: () => Record<string, unknown> | null;
+  /** Socket settings other than the URL and protocol */
+  websocket?: Omit<WebSocketConfig, 'url' | 'protocols'>;
+}
@@ -0,0 +1,71 @@
+/**
+ * @flyfront/data-access - Providers
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { EnvironmentProviders, makeEnvironmentProviders } from '@angular/core';
+import { RETRY_POLICY } from '@flyfront/core';
+import { DATA_ACCESS_CONFIG } from '../services/api.service';
+import { CACHE_STORAGE } from '../services/cache.service';
+import { IndexedDbCacheStorage } from '../storage/indexed-db-cache.storage';
+import { CacheStorageAdapter, DataAccessConfig, IndexedDbCacheOptions } from '../models/data-access.models';
+
+/**
+ * Configure ApiService defaults
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideHttpClient(withInterceptors([httpErrorInterceptor, circuitBreakerInterceptor])),
+ *     provideDataAccess({
+ *       timeout: 30000,
+ *       cancelOnNavigation: true,
+ *       retry: { maxRetries: 5 },
+ *       circuitBreaker: { failureThreshold: 3, resetTimeout: 10000 },
+ *     }),
+ *   ],
+ * };
+ * ```
+ */
+export function provideDataAccess(config: Partial<DataAccessConfig>): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    { provide: DATA_ACCESS_CONFIG, useValue: config },
+    ...(config.retry ? [{ provide: RETRY_POLICY, useValue: config.retry }] : []),
+  ]);
+}
+
+/**
+ * Use a custom persistent storage backend for CacheService
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [provideCacheStorage(() => new MyCacheStorage())],
+ * };
+ * ```
+ */
+export function provideCacheStorage(factory: () => CacheStorageAdapter): EnvironmentProviders {
+  return makeEnvironmentProviders([{ provide: CACHE_STORAGE, useFactory: factory }]);
+}
+
+/**
+ * Persist CacheService entries in IndexedDB
+ *
+ * Responses requested with `cache: { enabled: true, persist: true }` then
+ * survive reloads and are served when the network is unavailable.
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [provideIndexedDbCache({ quota: 20 * 1024 * 1024 })],
+ * };
+ * ```
+ */
+export function provideIndexedDbCache(options?: IndexedDbCacheOptions): EnvironmentProviders {
+  return provideCacheStorage(() => new IndexedDbCacheStorage(options));
+}
@@ -0,0 +1,85 @@
+/**
+ * @flyfront/data-access - Resource Factory Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideConfig } from '@flyfront/core';
+import { createResource } from './create-resource';
+import { CacheService } from '../services/cache.service';
+import { Resource } from '../models/data-access.models';
+
+const API = 'https://api.test';
+
+interface Project {
+  id: number;
+  name: string;
+}
+
+describe('createResource', () => {
+  let projects: Resource<Project, number>;
+  let cache: CacheService;
+  let backend: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideConfig({ apiBaseUrl: API })],
+    });
+    projects = TestBed.runInInjectionContext(() =>
+      createResource<Project, number>({ path: '/orgs/:orgId/projects', name: 'projects', cache: { ttl: 60000 } })
+    );
+    cache = TestBed.inject(CacheService);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    backend.verify();
+  });
+
+  it('should build URLs from path parameters', () => {
+    const path = { orgId: 'acme corp' };
+
+    projects.list({ page: 2, pageSize: 10 }, { path }).subscribe();
+    projects.get(7, { path }).subscribe();
+    projects.create({ name: 'Site' }, { path }).subscribe();
+    projects.update(7, { id: 7, name: 'Site' }, { path }).subscribe();
+    projects.patch(7, { name: 'App' }, { path }).subscribe();
+    projects.remove(7, { path }).subscribe();
+
+    const collection = `${API}/orgs/acme%20corp/projects`;
+    backend.expectOne(`${collection}?page=2&pageSize=10`).flush({ data: [], meta: {} });
+    backend.expectOne({ method: 'GET', url: `${collection}/7` }).flush({ id: 7, name: 'Site' });
+    backend.expectOne({ method: 'POST', url: collection }).flush({});
+    backend.expectOne({ method: 'PUT', url: `${collection}/7` }).flush({});
+    backend.expectOne({ method: 'PATCH', url: `${collection}/7` }).flush({});
+    backend.expectOne({ method: 'DELETE', url: `${collection}/7` }).flush(null);
+    expect(() => projects.url(7)).toThrow('Missing path parameter "orgId" for /orgs/:orgId/projects/:id');
+  });
+
+  it('should cache reads and invalidate them after mutations', () => {
+    const path = { orgId: 1 };
+    const list = `${API}/orgs/1/projects`;
+    projects.list(undefined, { path }).subscribe();
+    backend.expectOne(list).flush({ data: [], meta: {} });
+    projects.get(1, { path }).subscribe();
+    backend.expectOne(`${list}/1`).flush({ id: 1 });
+    projects.get(2, { path }).subscribe();
+    backend.expectOne(`${list}/2`).flush({ id: 2 });
+
+    projects.create({ name: 'New' }, { path }).subscribe();
+    backend.expectOne({ method: 'POST', url: list }).flush({});
+    expect(cache.has(list)).toBe(false);
+    expect(cache.has(`${list}/1`)).toBe(true);
+
+    projects.patch(1, { name: 'Renamed' }, { path }).subscribe();
+    backend.expectOne({ method: 'PATCH', url: `${list}/1` }).flush({});
+    expect(cache.has(`${list}/1`)).toBe(false);
+    expect(cache.has(`${list}/2`)).toBe(true);
+
+    cache.invalidateTags(['projects']);
+    expect(cache.has(`${list}/2`)).toBe(false);
+  });
+});
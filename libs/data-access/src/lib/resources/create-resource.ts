@@ -0,0 +1,129 @@
+/**
+ * @flyfront/data-access - Resource Factory
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { inject } from '@angular/core';
+import { ApiService } from '../services/api.service';
+import {
+  CacheInvalidation,
+  PathParams,
+  RequestConfig,
+  Resource,
+  ResourceConfig,
+  ResourceRequestConfig,
+} from '../models/data-access.models';
+
+/**
+ * Substitute the `:name` placeholders of a path template
+ */
+function resolvePath(template: string, params: PathParams = {}): string {
+  return template.replace(/:([A-Za-z_]\w*)/g, (_match, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      throw new Error(`Missing path parameter "${name}" for ${template}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+/**
+ * Combine cache invalidations
+ */
+function mergeInvalidations(...invalidations: Array<CacheInvalidation | undefined>): CacheInvalidation {
+  return {
+    tags: invalidations.flatMap((invalidation) => invalidation?.tags ?? []),
+    patterns: invalidations.flatMap((invalidation) => invalidation?.patterns ?? []),
+    keys: invalidations.flatMap((invalidation) => invalidation?.keys ?? []),
+  };
+}
+
+/**
+ * Create a typed REST client for a collection endpoint
+ *
+ * Must be called in an injection context (e.g. a field initializer of a
+ * service). Path placeholders are filled from `config.path` on each call
+ * and `:id` from the item id. With `cache`, `list` responses are tagged
+ * with the collection URL and `get` responses with the item URL; mutations
+ * invalidate the collection and, for existing items, the item.
+ *
+ * @example
+ * ```typescript
+ * @Injectable({ providedIn: 'root' })
+ * export class ProjectApi {
+ *   readonly projects = createResource<Project>({
+ *     path: '/orgs/:orgId/projects',
+ *     name: 'projects',
+ *     cache: { ttl: 60000 },
+ *   });
+ * }
+ *
+ * // In a component
+ * this.projectApi.projects.list({ page: 1 }, { path: { orgId } });
+ * this.projectApi.projects.patch(project.id, { archived: true }, { path: { orgId } });
+ * ```
+ */
+export function createResource<T, Id extends string | number = string>(config: ResourceConfig): Resource<T, Id> {
+  const api = inject(ApiService);
+  const itemPath = config.itemPath ?? `${config.path.replace(/\/$/, '')}/:id`;
+
+  const url = (id?: Id, path?: PathParams): string =>
+    id === undefined ? resolvePath(config.path, path) : resolvePath(itemPath, { ...path, id });
+
+  /** Request configuration of a read, cached under the resource tags */
+  const read = (tag: string, request: ResourceRequestConfig = {}): RequestConfig => {
+    const requestConfig = withoutPath(request);
+    if (config.cache && !request.cache) {
+      requestConfig.cache = {
+        ...config.cache,
+        enabled: true,
+        tags: [...(config.name ? [config.name] : []), tag, ...(config.cache.tags ?? [])],
+      };
+    }
+    return requestConfig;
+  };
+
+  /** Request configuration of a mutation, invalidating the given tags */
+  const write = (tags: string[], request: ResourceRequestConfig = {}): RequestConfig => ({
+    ...withoutPath(request),
+    invalidates: mergeInvalidations({ tags }, config.invalidates, request.invalidates),
+  });
+
+  return {
+    list: (pagination, request) => {
+      const collection = url(undefined, request?.path);
+      return api.getPaginated<T>(collection, pagination, read(collection, request));
+    },
+    get: (id, request) => {
+      const item = url(id, request?.path);
+      return api.get<T>(item, read(item, request));
+    },
+    create: (body, request) => {
+      const collection = url(undefined, request?.path);
+      return api.post<T>(collection, body, write([collection], request));
+    },
+    update: (id, body, request) => {
+      const item = url(id, request?.path);
+      return api.put<T>(item, body, write([url(undefined, request?.path), item], request));
+    },
+    patch: (id, changes, request) => {
+      const item = url(id, request?.path);
+      return api.patch<T>(item, changes, write([url(undefined, request?.path), item], request));
+    },
+    remove: (id, request) => {
+      const item = url(id, request?.path);
+      return api.delete<void>(item, write([url(undefined, request?.path), item], request));
+    },
+    url,
+  };
+}
+
+/**
+ * Request configuration without the resource path parameters
+ */
+function withoutPath(request: ResourceRequestConfig): RequestConfig {
+  const requestConfig: ResourceRequestConfig = { ...request };
+  delete requestConfig.path;
+  return requestConfig;
+}
@@ -0,0 +1,588 @@
+/**
+ * @flyfront/data-access - API Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { HttpEventType, HttpHeaderResponse, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter, Router } from '@angular/router';
+import { authTokenInterceptor, httpErrorInterceptor, provideConfig, RETRY_POLICY_OVERRIDE, schema, TOKEN_PROVIDER } from '@flyfront/core';
+import { firstValueFrom } from 'rxjs';
+import { ApiService } from './api.service';
+import { provideDataAccess } from '../providers/data-access.providers';
+import { isApiStreamParseError, isApiTimeoutError, isApiValidationError } from '../utils/type-guards';
+import { cursorPagination } from '../utils/pagination';
+import { CACHE_STORAGE, CacheService } from './cache.service';
+import { CacheStorageAdapter, SSEMessage, StreamEvent } from '../models/data-access.models';
+
+const API = 'https://api.test';
+
+describe('ApiService', () => {
+  let api: ApiService;
+  let cache: CacheService;
+  let backend: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideConfig({ apiBaseUrl: API })],
+    });
+
+    api = TestBed.inject(ApiService);
+    cache = TestBed.inject(CacheService);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    backend.verify();
+  });
+
+  describe('caching', () => {
+    it('should cache GET responses in CacheService keyed by URL and params', () => {
+      const results: unknown[] = [];
+      const config = { params: { page: 1 }, cache: { enabled: true, tags: ['users'] } };
+
+      api.get('/users', config).subscribe((users) => results.push(users));
+      backend.expectOne(`${API}/users?page=1`).flush(['ada']);
+      api.get('/users', config).subscribe((users) => results.push(users));
+
+      api.get('/users', { ...config, params: { page: 2 } }).subscribe((users) => results.push(users));
+      backend.expectOne(`${API}/users?page=2`).flush(['grace']);
+
+      expect(results).toEqual([['ada'], ['ada'], ['grace']]);
+      expect(cache.has(`${API}/users?page=1`)).toBe(true);
+      expect(cache.stats().hits).toBe(1);
+    });
+
+    it('should invalidate tagged and matching entries after a successful mutation', () => {
+      api.get('/users', { cache: { enabled: true, tags: ['users'] } }).subscribe();
+      backend.expectOne(`${API}/users`).flush([]);
+      api.get('/orders/1', { cache: { enabled: true } }).subscribe();
+      backend.expectOne(`${API}/orders/1`).flush({});
+
+      api.post('/users', { name: 'ada' }, { invalidates: { tags: ['users'] } }).subscribe();
+      backend.expectOne(`${API}/users`).flush({});
+      expect(cache.has(`${API}/users`)).toBe(false);
+      expect(cache.has(`${API}/orders/1`)).toBe(true);
+
+      api.delete('/orders/1', { invalidates: { patterns: [/\/orders\//] } }).subscribe();
+      backend.expectOne(`${API}/orders/1`).flush(null);
+      expect(cache.has(`${API}/orders/1`)).toBe(false);
+    });
+
+    it('should keep the cache when a mutation fails', () => {
+      api.get('/users', { cache: { enabled: true, tags: ['users'] } }).subscribe();
+      backend.expectOne(`${API}/users`).flush([]);
+
+      api.put('/users/1', {}, { invalidates: { tags: ['users'] } }).subscribe({ error: () => undefined });
+      backend.expectOne(`${API}/users/1`).flush(null, { status: 500, statusText: 'Server Error' });
+
+      expect(cache.has(`${API}/users`)).toBe(true);
+    });
+
+    it('should clear only API responses', () => {
+      cache.set('user-preferences', { theme: 'dark' });
+      api.get('/users', { cache: { enabled: true } }).subscribe();
+      backend.expectOne(`${API}/users`).flush([]);
+
+      api.clearCache();
+
+      expect(cache.has(`${API}/users`)).toBe(false);
+      expect(cache.has('user-preferences')).toBe(true);
+    });
+
+    it('should serve stale entries while revalidating in the background', () => {
+      const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+      const results: unknown[] = [];
+      const config = { cache: { enabled: true, ttl: 1000, staleWhileRevalidate: 5000 } };
+
+      api.get('/settings', config).subscribe((settings) => results.push(settings));
+      backend.expectOne(`${API}/settings`).flush({ version: 1 });
+
+      now.mockReturnValue(3000);
+      api.get('/settings', config).subscribe((settings) => results.push(settings));
+      expect(results).toEqual([{ version: 1 }, { version: 1 }]);
+
+      backend.expectOne(`${API}/settings`).flush({ version: 2 });
+      api.get('/settings', config).subscribe((settings) => results.push(settings));
+      expect(results[2]).toEqual({ version: 2 });
+
+      now.mockReturnValue(10000);
+      api.get('/settings', config).subscribe((settings) => results.push(settings));
+      backend.expectOne(`${API}/settings`).flush({ version: 3 });
+      expect(results[3]).toEqual({ version: 3 });
+    });
+
+    it('should revalidate on window focus and reconnect', () => {
+      api.get('/feed', { cache: { enabled: true, revalidateOnFocus: true } }).subscribe();
+      backend.expectOne(`${API}/feed`).flush([1]);
+      api.get('/inbox', { cache: { enabled: true, revalidateOnReconnect: true } }).subscribe();
+      backend.expectOne(`${API}/inbox`).flush([1]);
+
+      window.dispatchEvent(new Event('focus'));
+      backend.expectOne(`${API}/feed`).flush([1, 2]);
+      expect(cache.get(`${API}/feed`)).toEqual([1, 2]);
+
+      window.dispatchEvent(new Event('online'));
+      backend.expectOne(`${API}/inbox`).flush([1, 2]);
+
+      api.clearCache();
+      window.dispatchEvent(new Event('focus'));
+      backend.expectNone(`${API}/feed`);
+    });
+  });
+
+  describe('retries', () => {
+    it('should pass the per-request retry policy to the HTTP error interceptor', () => {
+      api.get('/reports', { retry: { maxRetries: 5 } }).subscribe();
+      api.post('/reports', {}, { retry: false }).subscribe();
+      api.get('/users').subscribe();
+
+      expect(backend.expectOne({ method: 'GET', url: `${API}/reports` }).request.context.get(RETRY_POLICY_OVERRIDE)).toEqual({
+        maxRetries: 5,
+      });
+      expect(backend.expectOne({ method: 'POST', url: `${API}/reports` }).request.context.get(RETRY_POLICY_OVERRIDE)).toBe(
+        false
+      );
+      expect(backend.expectOne(`${API}/users`).request.context.get(RETRY_POLICY_OVERRIDE)).toBeNull();
+    });
+  });
+
+  describe('validation', () => {
+    const userSchema = schema.object({ id: schema.string(), roles: schema.array(schema.string()) });
+
+    it('should return responses that match the decoder', () => {
+      const result = vi.fn();
+
+      api.get('/users/1', { decoder: userSchema }).subscribe(result);
+      backend.expectOne(`${API}/users/1`).flush({ id: 'u1', roles: ['admin'] });
+
+      expect(result).toHaveBeenCalledWith({ id: 'u1', roles: ['admin'] });
+    });
+
+    it('should fail with the offending paths and skip caching', () => {
+      const errors: unknown[] = [];
+
+      api
+        .get('/users/1', { decoder: userSchema, cache: { enabled: true } })
+        .subscribe({ error: (error) => errors.push(error) });
+      backend.expectOne(`${API}/users/1`).flush({ id: 1, roles: ['admin', 2] });
+      api.post('/users', {}, { decoder: userSchema }).subscribe({ error: (error) => errors.push(error) });
+      backend.expectOne(`${API}/users`).flush(null);
+
+      expect(errors.every(isApiValidationError)).toBe(true);
+      expect(errors[0]).toMatchObject({
+        code: 'INVALID_RESPONSE',
+        path: `${API}/users/1`,
+        details: { '$.id': ['expected string, got number'], '$.roles[1]': ['expected string, got number'] },
+      });
+      expect(errors[1]).toMatchObject({ details: { $: ['expected object, got null'] } });
+      expect(cache.has(`${API}/users/1`)).toBe(false);
+    });
+  });
+
+  describe('deduplication', () => {
+    it('should share an identical in-flight GET', () => {
+      const results: unknown[] = [];
+
+      api.get('/users', { params: { page: 1 } }).subscribe((users) => results.push(users));
+      api.get('/users', { params: { page: 1 } }).subscribe((users) => results.push(users));
+      api.get('/users', { params: { page: 2 } }).subscribe((users) => results.push(users));
+
+      backend.expectOne(`${API}/users?page=1`).flush(['ada']);
+      backend.expectOne(`${API}/users?page=2`).flush(['grace']);
+      expect(results).toEqual([['ada'], ['ada'], ['grace']]);
+
+      api.get('/users', { params: { page: 1 } }).subscribe();
+      backend.expectOne(`${API}/users?page=1`).flush([]);
+    });
+
+    it('should send separate requests when deduplication is disabled', () => {
+      api.get('/users', { dedupe: false }).subscribe();
+      api.get('/users', { dedupe: false }).subscribe();
+
+      const requests = backend.match(`${API}/users`);
+      expect(requests).toHaveLength(2);
+      requests.forEach((request) => request.flush([]));
+    });
+  });
+
+  describe('paginated streams', () => {
+    const meta = (page: number, hasNextPage: boolean) => ({
+      page,
+      pageSize: 2,
+      totalItems: 6,
+      totalPages: 3,
+      hasNextPage,
+      hasPreviousPage: page > 1,
+    });
+
+    it('should append page-number pages and refresh in place', () => {
+      const stream = api.createPaginatedStream<string>('/users', { pageSize: 2 });
+      let data: string[] = [];
+      stream.data$.subscribe((items) => (data = items));
+
+      backend.expectOne(`${API}/users?page=1&pageSize=2`).flush({ data: ['a', 'b'], meta: meta(1, true) });
+      stream.loadMore();
+      backend.expectOne(`${API}/users?page=2&pageSize=2`).flush({ data: ['c', 'd'], meta: meta(2, false) });
+      stream.loadMore();
+      backend.expectNone(`${API}/users?page=3&pageSize=2`);
+
+      stream.refresh();
+      expect(data).toEqual(['a', 'b', 'c', 'd']);
+      backend.expectOne(`${API}/users?page=1&pageSize=2`).flush({ data: ['a', 'b'], meta: meta(1, true) });
+      expect(data).toEqual(['a', 'b']);
+      stream.destroy();
+    });
+
+    it('should prepend and append cursor pages around a starting point', () => {
+      const stream = api.createPaginatedStream<string, { items: string[]; older: string | null; newer: string | null }>(
+        '/messages',
+        {
+          pageSize: 2,
+          strategy: cursorPagination({
+            initialCursor: 'm4',
+            pageInfo: (page) => ({ items: page.items, nextCursor: page.newer, previousCursor: page.older }),
+          }),
+        }
+      );
+      let data: string[] = [];
+      let hasPrevious = false;
+      stream.data$.subscribe((items) => (data = items));
+      stream.hasPrevious$.subscribe((value) => (hasPrevious = value));
+
+      backend.expectOne(`${API}/messages?limit=2&after=m4`).flush({ items: ['m5', 'm6'], older: 'm5', newer: null });
+      expect(hasPrevious).toBe(true);
+
+      stream.loadPrevious();
+      backend.expectOne(`${API}/messages?limit=2&before=m5`).flush({ items: ['m3', 'm4'], older: null, newer: 'm4' });
+      stream.loadMore();
+
+      backend.expectNone(`${API}/messages?limit=2&after=m4`);
+      expect(data).toEqual(['m3', 'm4', 'm5', 'm6']);
+      expect(hasPrevious).toBe(false);
+      stream.destroy();
+    });
+  });
+
+  describe('streaming', () => {
+    it('should emit NDJSON records per chunk with progress', () => {
+      const events: StreamEvent<{ id: number }>[] = [];
+      api.stream<{ id: number }>('/export').subscribe((event) => events.push(event));
+      const request = backend.expectOne(`${API}/export`);
+      expect(request.request.responseType).toBe('text');
+
+      const chunk = '{"id":1}\r\n\n{"id":2}\n{"i';
+      request.event({ type: HttpEventType.DownloadProgress, loaded: chunk.length, total: 40, partialText: chunk });
+      request.flush(`${chunk}d":3}`);
+
+      expect(events).toEqual([
+        { type: 'records', records: [{ id: 1 }, { id: 2 }] },
+        { type: 'progress', loaded: chunk.length, total: 40 },
+        { type: 'records', records: [{ id: 3 }] },
+      ]);
+    });
+
+    it('should fail with a typed error on a malformed record', () => {
+      const errors: unknown[] = [];
+      api.stream('/export').subscribe({ error: (error) => errors.push(error) });
+      const request = backend.expectOne(`${API}/export`);
+
+      const chunk = '{"id":1}\n{"id":\n';
+      request.event({ type: HttpEventType.DownloadProgress, loaded: chunk.length, partialText: chunk });
+
+      expect(errors).toHaveLength(1);
+      expect(isApiStreamParseError(errors[0])).toBe(true);
+      expect(errors[0]).toMatchObject({ code: 'STREAM_PARSE_ERROR', record: '{"id":', path: `${API}/export` });
+      expect(request.cancelled).toBe(true);
+    });
+
+    it('should stream text chunks and abort the request on unsubscribe', () => {
+      const chunks: string[] = [];
+      const subscription = api
+        .stream<string>('/answer', { method: 'POST', body: { prompt: 'Hi' }, format: 'text' })
+        .subscribe((event) => event.type === 'records' && chunks.push(...event.records));
+      const request = backend.expectOne(`${API}/answer`);
+      expect(request.request.body).toEqual({ prompt: 'Hi' });
+
+      request.event({ type: HttpEventType.DownloadProgress, loaded: 5, partialText: 'Hello' });
+      request.event({ type: HttpEventType.DownloadProgress, loaded: 12, partialText: 'Hello, world' });
+      subscription.unsubscribe();
+
+      expect(chunks).toEqual(['Hello', ', world']);
+      expect(request.cancelled).toBe(true);
+    });
+  });
+});
+
+describe('ApiService offline cache', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('should serve the persisted copy when the network is unavailable', async () => {
+    const storage: Partial<CacheStorageAdapter> = {
+      entries: async () => [],
+      get: async (key) => ({ key, data: ['offline'], expiry: 0, staleUntil: 0, createdAt: 0, tags: ['api'] }),
+    };
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideConfig({ apiBaseUrl: API }),
+        { provide: CACHE_STORAGE, useValue: storage },
+      ],
+    });
+    const api = TestBed.inject(ApiService);
+    const backend = TestBed.inject(HttpTestingController);
+    const result = new Promise((resolve, reject) =>
+      api.get('/catalog', { cache: { enabled: true, persist: true } }).subscribe({ next: resolve, error: reject })
+    );
+
+    (await vi.waitFor(() => backend.expectOne(`${API}/catalog`))).error(new ProgressEvent('error'));
+
+    expect(await result).toEqual(['offline']);
+  });
+
+  it('should fall back to the persisted copy behind httpErrorInterceptor', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const storage: Partial<CacheStorageAdapter> = {
+      entries: async () => [],
+      get: async (key) => ({ key, data: ['offline'], expiry: 0, staleUntil: 0, createdAt: 0, tags: ['api'] }),
+    };
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([httpErrorInterceptor])),
+        provideHttpClientTesting(),
+        provideConfig({ apiBaseUrl: API }),
+        { provide: CACHE_STORAGE, useValue: storage },
+      ],
+    });
+    const api = TestBed.inject(ApiService);
+    const backend = TestBed.inject(HttpTestingController);
+    const result = new Promise((resolve, reject) =>
+      api
+        .get('/catalog', { cache: { enabled: true, persist: true }, retry: false })
+        .subscribe({ next: resolve, error: reject })
+    );
+
+    (await vi.waitFor(() => backend.expectOne(`${API}/catalog`))).error(new ProgressEvent('error'));
+
+    expect(await result).toEqual(['offline']);
+  });
+
+  it('should serve entries restored from the previous session without a request', async () => {
+    const now = Date.now();
+    const storage: Partial<CacheStorageAdapter> = {
+      entries: async () => [
+        { key: `${API}/catalog`, data: ['restored'], expiry: now + 60000, staleUntil: now + 60000, createdAt: now, tags: ['api'] },
+      ],
+      touch: async () => undefined,
+    };
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideConfig({ apiBaseUrl: API }),
+        { provide: CACHE_STORAGE, useValue: storage },
+      ],
+    });
+    const api = TestBed.inject(ApiService);
+    const backend = TestBed.inject(HttpTestingController);
+
+    const result = await firstValueFrom(api.get('/catalog', { cache: { enabled: true, persist: true } }));
+
+    expect(result).toEqual(['restored']);
+    backend.verify();
+  });
+});
+
+describe('ApiService timeouts and cancellation', () => {
+  let api: ApiService;
+  let backend: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([{ path: '**', children: [] }]),
+        provideConfig({ apiBaseUrl: API }),
+        provideDataAccess({ timeout: 5000 }),
+      ],
+    });
+    api = TestBed.inject(ApiService);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    backend.verify();
+  });
+
+  it('should fail with a typed timeout error after the global or per-request timeout', () => {
+    vi.useFakeTimers();
+    const errors: unknown[] = [];
+
+    api.get('/slow').subscribe({ error: (error) => errors.push(error) });
+    api.post('/slower', {}, { timeout: 10000 }).subscribe({ error: (error) => errors.push(error) });
+    const slow = backend.expectOne(`${API}/slow`);
+    const slower = backend.expectOne(`${API}/slower`);
+
+    vi.advanceTimersByTime(5000);
+    expect(slow.cancelled).toBe(true);
+    expect(slower.cancelled).toBe(false);
+
+    vi.advanceTimersByTime(5000);
+    expect(slower.cancelled).toBe(true);
+    expect(errors).toHaveLength(2);
+    expect(errors.every(isApiTimeoutError)).toBe(true);
+    expect(errors[1]).toMatchObject({ code: 'TIMEOUT', timeout: 10000, path: `${API}/slower` });
+  });
+
+  it('should cancel requests when their signal aborts', () => {
+    const scope = new AbortController();
+    const completed = vi.fn();
+
+    api.get('/reports', { signal: scope.signal }).subscribe({ complete: completed });
+    const request = backend.expectOne(`${API}/reports`);
+    scope.abort();
+
+    expect(request.cancelled).toBe(true);
+    expect(completed).toHaveBeenCalled();
+
+    api.get('/reports', { signal: scope.signal }).subscribe();
+    backend.expectNone(`${API}/reports`);
+  });
+
+  it('should cancel requests that opt in when navigation starts', async () => {
+    api.get('/orders', { cancelOnNavigation: true }).subscribe();
+    api.get('/profile').subscribe();
+    const orders = backend.expectOne(`${API}/orders`);
+    const profile = backend.expectOne(`${API}/profile`);
+
+    await TestBed.inject(Router).navigateByUrl('/elsewhere');
+
+    expect(orders.cancelled).toBe(true);
+    expect(profile.cancelled).toBe(false);
+    profile.flush({});
+  });
+});
+
+describe('ApiService server-sent events', () => {
+  let api: ApiService;
+  let backend: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([authTokenInterceptor()])),
+        provideHttpClientTesting(),
+        provideConfig({ apiBaseUrl: API }),
+        { provide: TOKEN_PROVIDER, useValue: { getAccessToken: () => 'secret' } },
+      ],
+    });
+    api = TestBed.inject(ApiService);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    backend.verify();
+  });
+
+  it('should parse the stream through the interceptors and resume with Last-Event-ID', () => {
+    vi.useFakeTimers();
+    const messages: SSEMessage<unknown>[] = [];
+    const errors: unknown[] = [];
+    api.sse('/events', { eventTypes: ['update'] }).subscribe({
+      next: (message) => messages.push(message),
+      error: (error) => errors.push(error),
+    });
+
+    const first = backend.expectOne(`${API}/events`);
+    expect(first.request.headers.get('Authorization')).toBe('Bearer secret');
+    expect(first.request.headers.get('Accept')).toBe('text/event-stream');
+
+    // The second chunk starts in the middle of a CRLF
+    const chunk = 'retry: 500\nid: 1\ndata: {"n":1}\n\n: keep-alive\r\nevent: update\r';
+    first.event(new HttpHeaderResponse({ status: 200 }));
+    first.event({ type: HttpEventType.DownloadProgress, loaded: chunk.length, partialText: chunk });
+    first.flush(`${chunk}\nid: 2\ndata: plain\r\n\r\nevent: ignored\ndata: x\n\n`);
+
+    expect(messages).toEqual([
+      { type: 'open', data: null, lastEventId: '', origin: `${API}/events` },
+      { type: 'message', data: { n: 1 }, lastEventId: '1', origin: API },
+      { type: 'update', data: 'plain', lastEventId: '2', origin: API },
+    ]);
+
+    // The server's retry field sets the first delay, which doubles on failures
+    vi.advanceTimersByTime(499);
+    backend.expectNone(`${API}/events`);
+    vi.advanceTimersByTime(1);
+    const resumed = backend.expectOne(`${API}/events`);
+    expect(resumed.request.headers.get('Last-Event-ID')).toBe('2');
+    resumed.flush('', { status: 503, statusText: 'Service Unavailable' });
+
+    vi.advanceTimersByTime(999);
+    backend.expectNone(`${API}/events`);
+    vi.advanceTimersByTime(1);
+    backend.expectOne(`${API}/events`).flush('', { status: 401, statusText: 'Unauthorized' });
+
+    vi.advanceTimersByTime(60000);
+    backend.expectNone(`${API}/events`);
+    expect(errors).toEqual([expect.objectContaining({ code: '401', path: `${API}/events` })]);
+  });
+
+  it('should replace a connection at an event boundary once it buffered maxBufferedBytes', () => {
+    const messages: SSEMessage<unknown>[] = [];
+    api.sse('/feed', { maxBufferedBytes: 20 }).subscribe((message) => messages.push(message));
+    const first = backend.expectOne(`${API}/feed`);
+
+    // Past the limit in the middle of an event
+    let text = 'id: 1\ndata: one\n\nid: 2\ndata: t';
+    first.event({ type: HttpEventType.DownloadProgress, loaded: text.length, partialText: text });
+    expect(first.cancelled).toBe(false);
+
+    text += 'wo\n\n';
+    first.event({ type: HttpEventType.DownloadProgress, loaded: text.length, partialText: text });
+    expect(first.cancelled).toBe(true);
+
+    // Without a reconnect delay
+    const second = backend.expectOne(`${API}/feed`);
+    expect(second.request.headers.get('Last-Event-ID')).toBe('2');
+    second.event({ type: HttpEventType.DownloadProgress, loaded: 15, partialText: 'id: 3\ndata: 3\n\n' });
+
+    expect(messages.filter((message) => message.type === 'message').map((message) => message.data)).toEqual([
+      'one',
+      'two',
+      3,
+    ]);
+  });
+
+  it('should complete and stop reconnecting when its signal aborts', () => {
+    vi.useFakeTimers();
+    const scope = new AbortController();
+    const completed = vi.fn();
+    api.sse('/feed', { requestConfig: { signal: scope.signal } }).subscribe({ complete: completed });
+    backend.expectOne(`${API}/feed`).flush('');
+
+    // Aborting during the reconnect delay
+    scope.abort();
+    vi.advanceTimersByTime(60000);
+
+    expect(completed).toHaveBeenCalled();
+    backend.expectNone(`${API}/feed`);
+  });
+
+  it('should complete and abort the request when closed by id', () => {
+    const completed = vi.fn();
+    api.sse('/feed', { id: 'feed' }).subscribe({ complete: completed });
+    const request = backend.expectOne(`${API}/feed`);
+
+    api.closeSSE('feed');
+
+    expect(completed).toHaveBeenCalled();
+    expect(request.cancelled).toBe(true);
+  });
+});
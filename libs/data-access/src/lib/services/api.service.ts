@@ -4,8 +4,9 @@
  * @copyright 2026 Firefly Software Solutions Inc.
  */
 
-import { Injectable, inject, NgZone, PLATFORM_ID } from '@angular/core';
+import { Injectable, InjectionToken, inject, PLATFORM_ID } from '@angular/core';
 import { isPlatformBrowser } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import {
   HttpClient,
   HttpHeaders,
@@ -13,9 +14,11 @@ import {
   HttpErrorResponse,
   HttpEvent,
   HttpEventType,
+  HttpContext,
 } from '@angular/common/http';
 import {
   Observable,
+  MonoTypeOperatorFunction,
   throwError,
   timer,
   Subject,
@@ -23,6 +26,10 @@ import {
   of,
   EMPTY,
   defer,
+  fromEvent,
+  from,
+  merge,
+  Subscription,
 } from 'rxjs';
 import {
   catchError,
@@ -31,12 +38,17 @@ import {
   switchMap,
   takeUntil,
   tap,
-  retryWhen,
-  scan,
   distinctUntilChanged,
+  filter,
   finalize,
+  share,
+  timeout,
+  mergeMap,
 } from 'rxjs/operators';
-import { ConfigService } from '@flyfront/core';
+import { ConfigService, Decoder, RETRY_POLICY_OVERRIDE, RetryPolicyService } from '@flyfront/core';
+import { CacheService } from './cache.service';
+import { IDEMPOTENCY_KEY_HEADER, OutboxService } from './outbox.service';
+import { RequestCancellationService } from './request-cancellation.service';
 import {
   RequestConfig,
   PaginatedResponse,
@@ -48,8 +60,47 @@ import {
   PollingConfig,
   SSEConfig,
   SSEMessage,
+  StreamConfig,
+  StreamEvent,
+  ApiStreamParseError,
+  STREAM_PARSE_ERROR_CODE,
   ReactiveRequestConfig,
+  MutationMethod,
+  DataAccessConfig,
+  ApiTimeoutError,
+  TIMEOUT_ERROR_CODE,
+  ApiValidationError,
+  VALIDATION_ERROR_CODE,
+  TypedRequestConfig,
+  PageCursor,
+  PageDirection,
+  PaginatedStream,
+  PaginatedStreamConfig,
+  PaginationStrategy,
 } from '../models/data-access.models';
+import { isApiCircuitOpenError } from '../utils/type-guards';
+import { SSEParser } from '../utils/sse-parser';
+import { StreamRecordReader } from '../utils/stream-records';
+import { pageNumberPagination } from '../utils/pagination';
+
+/**
+ * Injection token for the data access configuration
+ */
+export const DATA_ACCESS_CONFIG = new InjectionToken<Partial<DataAccessConfig>>('DATA_ACCESS_CONFIG');
+
+/**
+ * Tag carried by every response cached by ApiService
+ */
+const API_CACHE_TAG = 'api';
+
+/**
+ * Background refresh registered for a cached response
+ */
+interface Revalidation {
+  refresh$: Observable<unknown>;
+  onFocus: boolean;
+  onReconnect: boolean;
+}
 
 /**
  * Type-safe HTTP client wrapper for API communication
@@ -69,32 +120,72 @@ import {
  *   return this.api.post<User>('/users', data);
  * }
  *
+ * // Cached GET, invalidated by a mutation tagged the same way
+ * getUsers() {
+ *   return this.api.get<User[]>('/users', { cache: { enabled: true, tags: ['users'] } });
+ * }
+ * deleteUser(id: string) {
+ *   return this.api.delete(`/users/${id}`, { invalidates: { tags: ['users'] } });
+ * }
+ *
+ * // Keep the response across reloads and serve it offline (requires provideIndexedDbCache())
+ * getCatalog() {
+ *   return this.api.get<Product[]>('/catalog', { cache: { enabled: true, persist: true } });
+ * }
+ *
+ * // Serve a stale copy for up to 5 minutes while refreshing it in the background
+ * getSettings() {
+ *   return this.api.get<Settings>('/settings', {
+ *     cache: { enabled: true, ttl: 30000, staleWhileRevalidate: 300000, revalidateOnFocus: true },
+ *   });
+ * }
+ *
  * // Paginated request
  * getUsers(params: PaginationParams) {
  *   return this.api.getPaginated<User>('/users', params);
  * }
  * ```
  */
-/**
- * Default retry configuration
- */
-const DEFAULT_RETRY_CONFIG: RetryConfig = {
-  maxRetries: 3,
-  retryDelay: 1000,
-  retryStatuses: [408, 429, 500, 502, 503, 504],
-  exponentialBackoff: true,
-};
-
 @Injectable({ providedIn: 'root' })
 export class ApiService {
   private readonly http = inject(HttpClient);
   private readonly config = inject(ConfigService);
-  private readonly ngZone = inject(NgZone);
   private readonly platformId = inject(PLATFORM_ID);
+  private readonly cache = inject(CacheService);
+  private readonly outbox = inject(OutboxService);
+  private readonly cancellation = inject(RequestCancellationService);
+  private readonly retryPolicy = inject(RetryPolicyService);
+  private readonly dataAccessConfig = inject(DATA_ACCESS_CONFIG, { optional: true }) ?? {};
 
-  private readonly cache = new Map<string, { data: unknown; expiry: number }>();
   private readonly activePolls = new Map<string, Subject<void>>();
-  private readonly activeSSE = new Map<string, EventSource>();
+  private readonly activeSSE = new Map<string, () => void>();
+  private readonly inFlight = new Map<string, Observable<unknown>>();
+  private readonly revalidations = new Map<string, Revalidation>();
+
+  constructor() {
+    // Forget background refreshes of entries that left the cache
+    this.cache.invalidated
+      .pipe(takeUntilDestroyed())
+      .subscribe((key) => this.revalidations.delete(key));
+
+    if (isPlatformBrowser(this.platformId)) {
+      merge(
+        fromEvent(window, 'focus').pipe(
+          filter(() => navigator.onLine),
+          map(() => 'onFocus' as const)
+        ),
+        fromEvent(window, 'online').pipe(map(() => 'onReconnect' as const))
+      )
+        .pipe(takeUntilDestroyed())
+        .subscribe((trigger) => {
+          for (const revalidation of this.revalidations.values()) {
+            if (revalidation[trigger]) {
+              this.refreshInBackground(revalidation.refresh$);
+            }
+          }
+        });
+    }
+  }
 
   /**
    * Get the base API URL from configuration
@@ -105,37 +196,74 @@ export class ApiService {
 
   /**
    * Perform a GET request
+   *
+   * Identical requests (same URL and params) made while one is in flight
+   * share its response unless `dedupe` is false. With a `decoder`, the
+   * response is validated before it is returned or cached.
    */
-  get<T>(endpoint: string, config?: RequestConfig): Observable<T> {
+  get<T>(endpoint: string, config?: TypedRequestConfig<T>): Observable<T> {
     const url = this.buildUrl(endpoint);
     const options = this.buildOptions(config);
-
-    // Check cache
-    if (config?.cache?.enabled) {
-      const cached = this.getFromCache<T>(config.cache.key ?? url);
-      if (cached) {
-        return cached;
-      }
+    const requestKey = this.buildCacheKey(url, options.params);
+
+    const send = () =>
+      this.http.get<T>(url, options).pipe(catchError((error) => this.handleError(error, config)));
+    const request$ = this.withLimits(
+      config?.dedupe === false ? defer(send) : this.dedupe(requestKey, send),
+      url,
+      config
+    ).pipe(this.decodeWith(url, config?.decoder));
+
+    if (!config?.cache?.enabled) {
+      return request$;
     }
 
-    let request$ = this.http.get<T>(url, options).pipe(
-      catchError((error) => this.handleError(error, config))
+    // Serve from and populate the shared cache
+    const {
+      key = requestKey,
+      ttl = 60000,
+      tags = [],
+      staleWhileRevalidate = 0,
+      revalidateOnFocus = false,
+      revalidateOnReconnect = false,
+      persist = false,
+    } = config.cache;
+
+    const fetch$: Observable<T> = request$.pipe(
+      tap((data) => {
+        this.cache.set(key, data, ttl, { tags: [API_CACHE_TAG, ...tags], staleWhileRevalidate, persist });
+        if (revalidateOnFocus || revalidateOnReconnect) {
+          this.revalidations.set(key, {
+            refresh$: fetch$,
+            onFocus: revalidateOnFocus,
+            onReconnect: revalidateOnReconnect,
+          });
+        }
+      }),
+      // Fall back to the last persisted copy while offline
+      catchError((error) =>
+        persist && this.isNetworkError(error)
+          ? from(this.cache.getPersisted<T>(key)).pipe(
+              switchMap((data) => (data !== null ? of(data) : throwError(() => error)))
+            )
+          : throwError(() => error)
+      )
     );
 
-    // Cache the response
-    if (config?.cache?.enabled) {
-      const cacheKey = config.cache.key ?? url;
-      const ttl = config.cache.ttl ?? 60000;
-      request$ = request$.pipe(
-        shareReplay(1),
-        map((data) => {
-          this.setCache(cacheKey, data, ttl);
-          return data;
-        })
-      );
-    }
+    const lookup$ = defer(() => {
+      const cached = this.cache.lookup<T>(key);
+      if (!cached) {
+        return fetch$;
+      }
 
-    return request$;
+      if (cached.stale) {
+        this.refreshInBackground(fetch$);
+      }
+      return of(cached.data);
+    });
+
+    // Requests made at startup must see the entries restored from the previous session
+    return persist ? from(this.cache.restored).pipe(switchMap(() => lookup$)) : lookup$;
   }
 
   /**
@@ -144,7 +272,7 @@ export class ApiService {
   getPaginated<T>(
     endpoint: string,
     pagination?: PaginationParams,
-    config?: RequestConfig
+    config?: TypedRequestConfig<PaginatedResponse<T>>
   ): Observable<PaginatedResponse<T>> {
     const paginationParams = this.buildPaginationParams(pagination);
     const mergedParams = config?.params
@@ -159,53 +287,36 @@ export class ApiService {
   /**
    * Perform a POST request
    */
-  post<T>(endpoint: string, body: unknown, config?: RequestConfig): Observable<T> {
-    const url = this.buildUrl(endpoint);
-    const options = this.buildOptions(config);
-
-    return this.http.post<T>(url, body, options).pipe(
-      catchError((error) => this.handleError(error, config))
-    );
+  post<T>(endpoint: string, body: unknown, config?: TypedRequestConfig<T>): Observable<T> {
+    return this.mutate<T>('POST', endpoint, body, config);
   }
 
   /**
    * Perform a PUT request
    */
-  put<T>(endpoint: string, body: unknown, config?: RequestConfig): Observable<T> {
-    const url = this.buildUrl(endpoint);
-    const options = this.buildOptions(config);
-
-    return this.http.put<T>(url, body, options).pipe(
-      catchError((error) => this.handleError(error, config))
-    );
+  put<T>(endpoint: string, body: unknown, config?: TypedRequestConfig<T>): Observable<T> {
+    return this.mutate<T>('PUT', endpoint, body, config);
   }
 
   /**
    * Perform a PATCH request
    */
-  patch<T>(endpoint: string, body: unknown, config?: RequestConfig): Observable<T> {
-    const url = this.buildUrl(endpoint);
-    const options = this.buildOptions(config);
-
-    return this.http.patch<T>(url, body, options).pipe(
-      catchError((error) => this.handleError(error, config))
-    );
+  patch<T>(endpoint: string, body: unknown, config?: TypedRequestConfig<T>): Observable<T> {
+    return this.mutate<T>('PATCH', endpoint, body, config);
   }
 
   /**
    * Perform a DELETE request
    */
-  delete<T>(endpoint: string, config?: RequestConfig): Observable<T> {
-    const url = this.buildUrl(endpoint);
-    const options = this.buildOptions(config);
-
-    return this.http.delete<T>(url, options).pipe(
-      catchError((error) => this.handleError(error, config))
-    );
+  delete<T>(endpoint: string, config?: TypedRequestConfig<T>): Observable<T> {
+    return this.mutate<T>('DELETE', endpoint, undefined, config);
   }
 
   /**
    * Upload a file with progress tracking
+   *
+   * Sends the file in one multipart request; use `UploadQueueService` for
+   * large files that should be chunked and resumable.
    */
   upload<T>(
     endpoint: string,
@@ -215,14 +326,14 @@ export class ApiService {
     const url = this.buildUrl(endpoint);
     const formData = file instanceof FormData ? file : this.createFormData(file);
 
-    return this.http
+    const request$ = this.http
       .post<T>(url, formData, {
         ...this.buildOptions(config),
         reportProgress: true,
         observe: 'events',
       })
       .pipe(
-        map((event: HttpEvent<T>) => {
+        mergeMap((event: HttpEvent<T>): (UploadProgress | T)[] => {
           switch (event.type) {
             case HttpEventType.UploadProgress: {
               const progress: UploadProgress = {
@@ -230,16 +341,86 @@ export class ApiService {
                 total: event.total ?? 0,
                 percentage: event.total ? Math.round((event.loaded / event.total) * 100) : 0,
               };
-              return progress;
+              return [progress];
             }
             case HttpEventType.Response:
-              return event.body as T;
+              return [event.body as T];
             default:
-              return { loaded: 0, total: 0, percentage: 0 } as UploadProgress;
+              // Sent, header and download events carry no upload progress
+              return [];
           }
         }),
         catchError((error) => this.handleError(error, config))
       );
+
+    return this.withLimits(request$, url, config);
+  }
+
+  /**
+   * Stream a response body as records while it is received
+   *
+   * Suited to NDJSON feeds and chunked text such as generated answers. Records
+   * arrive in one `records` event per received chunk, followed by a `progress`
+   * event. Unsubscribing aborts the request. A `timeout` applies between chunks,
+   * not to the whole stream.
+   *
+   * @example
+   * ```typescript
+   * // NDJSON export
+   * this.api.stream<AuditEntry>('/audit/export', { params: { since } })
+   *   .subscribe((event) => {
+   *     if (event.type === 'records') this.entries.update((all) => [...all, ...event.records]);
+   *   });
+   *
+   * // Generated text, token by token
+   * this.api.stream<string>('/assistant/answer', { method: 'POST', body: { prompt }, format: 'text' })
+   *   .subscribe((event) => event.type === 'records' && this.answer.update((text) => text + event.records.join('')));
+   * ```
+   */
+  stream<T = unknown>(endpoint: string, config?: StreamConfig<T>): Observable<StreamEvent<T>> {
+    const url = this.buildUrl(endpoint);
+    const format = config?.format ?? 'ndjson';
+    const parse = config?.parse ?? ((record: string) => (format === 'ndjson' ? JSON.parse(record) : record) as T);
+
+    const request$ = defer(() => {
+      const reader = new StreamRecordReader(format);
+      const parseRecord = (record: string): T => {
+        try {
+          return parse(record);
+        } catch (error) {
+          throw this.createStreamParseError(url, record, error);
+        }
+      };
+      const batch = (records: string[]): StreamEvent<T>[] =>
+        records.length > 0 ? [{ type: 'records', records: records.map(parseRecord) }] : [];
+
+      return this.http
+        .request(config?.method ?? 'GET', url, {
+          ...this.buildOptions(config),
+          body: config?.body,
+          observe: 'events',
+          reportProgress: true,
+          responseType: 'text',
+        })
+        .pipe(
+          catchError((error) => this.handleError(error, config)),
+          mergeMap((event): StreamEvent<T>[] => {
+            switch (event.type) {
+              case HttpEventType.DownloadProgress:
+                return [
+                  ...batch(reader.read(event.partialText ?? '')),
+                  { type: 'progress', loaded: event.loaded, total: event.total },
+                ];
+              case HttpEventType.Response:
+                return batch(reader.read(event.body ?? '', true));
+              default:
+                return [];
+            }
+          })
+        );
+    });
+
+    return this.withLimits(request$, url, config);
   }
 
   /**
@@ -247,22 +428,24 @@ export class ApiService {
    */
   download(endpoint: string, config?: RequestConfig): Observable<Blob> {
     const url = this.buildUrl(endpoint);
-    return this.http
+    const request$ = this.http
       .get(url, {
         ...this.buildOptions(config),
         responseType: 'blob',
       })
       .pipe(catchError((error) => this.handleError(error, config)));
+
+    return this.withLimits(request$, url, config);
   }
 
   /**
-   * Clear the response cache
+   * Clear cached responses (all of them, or a single key)
    */
   clearCache(key?: string): void {
     if (key) {
       this.cache.delete(key);
     } else {
-      this.cache.clear();
+      this.cache.invalidateTags([API_CACHE_TAG]);
     }
   }
 
@@ -353,16 +536,29 @@ export class ApiService {
   /**
    * Connect to a Server-Sent Events (SSE) endpoint
    *
+   * The stream is read through HttpClient, so the HTTP interceptors apply
+   * (including the `Authorization` header). As HttpClient keeps the whole
+   * response text of a connection in memory, a connection that received more
+   * than `maxBufferedBytes` is closed at the next event boundary and replaced
+   * right away, resuming from `Last-Event-ID`. When the stream ends or fails
+   * with a network, 5xx, 408 or 429 error it reconnects with a doubling delay,
+   * starting from the server's `retry:` field when sent, and resumes with
+   * `Last-Event-ID`.
+   * Other 4xx responses fail the stream; 204 No Content completes it. The
+   * `signal` and `cancelOnNavigation` of `requestConfig` complete the stream;
+   * its `timeout` is ignored.
+   *
    * @example
    * ```typescript
    * // Subscribe to SSE stream
    * this.api.sse<Notification>('/events/notifications')
    *   .subscribe(event => console.log(event.data));
    *
-   * // With specific event types
+   * // With specific event types, resuming after the last seen event
    * this.api.sse<Update>('/events/updates', {
    *   eventTypes: ['update', 'delete'],
-   *   withCredentials: true
+   *   lastEventId: this.lastSeenId,
+   *   maxReconnectDelay: 60000,
    * }).subscribe(...);
    * ```
    */
@@ -372,105 +568,145 @@ export class ApiService {
     }
 
     const url = this.buildUrl(endpoint);
+    const origin = new URL(url, window.location.href).origin;
     const sseId = config?.id ?? `sse-${endpoint}-${Date.now()}`;
+    const {
+      reconnect = true,
+      reconnectDelay = 1000,
+      maxReconnectDelay = 30000,
+      maxReconnectAttempts = Infinity,
+      maxBufferedBytes = 1024 * 1024,
+    } = config ?? {};
+    const eventTypes = new Set(['message', ...(config?.eventTypes ?? [])]);
+    // Reconnects are handled here, not by the HTTP error interceptor
+    const options = this.buildOptions({
+      ...config?.requestConfig,
+      withCredentials: config?.withCredentials ?? config?.requestConfig?.withCredentials,
+      retry: false,
+    });
 
-    return new Observable<SSEMessage<T>>((subscriber) => {
+    const sse$ = new Observable<SSEMessage<T>>((subscriber) => {
       // Close any existing SSE with same ID
       this.closeSSE(sseId);
 
-      const eventSource = new EventSource(url, {
-        withCredentials: config?.withCredentials ?? false,
+      const parser = new SSEParser((event) => {
+        if (!eventTypes.has(event.type)) {
+          return;
+        }
+        let data: unknown = event.data;
+        if (config?.parseJson !== false) {
+          try {
+            data = JSON.parse(event.data);
+          } catch (_e) {
+            // Not JSON, keep the raw string
+          }
+        }
+        subscriber.next({ type: event.type, data: data as T, lastEventId: event.lastEventId, origin });
       });
-
-      this.activeSSE.set(sseId, eventSource);
-
-      // Handle open event
-      eventSource.onopen = () => {
-        this.ngZone.run(() => {
-          subscriber.next({
-            type: 'open',
-            data: null as unknown as T,
-            lastEventId: '',
-            origin: url,
-          });
-        });
+      parser.lastEventId = config?.lastEventId ?? '';
+
+      let attempts = 0;
+      let connection: Subscription | undefined;
+
+      const scheduleReconnect = (error?: unknown) => {
+        const status = (error as { status?: number } | undefined)?.status ?? 0;
+        const fatal =
+          !isApiCircuitOpenError(error) && status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+        if (reconnect && !fatal && attempts < maxReconnectAttempts) {
+          const delay = Math.min((parser.retry ?? reconnectDelay) * 2 ** attempts, maxReconnectDelay);
+          attempts++;
+          connection = timer(delay).subscribe(() => connect());
+        } else if (error === undefined || config?.continueOnError) {
+          subscriber.complete();
+        } else {
+          this.handleError(error as HttpErrorResponse).subscribe({ error: (apiError) => subscriber.error(apiError) });
+        }
       };
 
-      // Handle error event
-      eventSource.onerror = (_error) => {
-        this.ngZone.run(() => {
-          if (eventSource.readyState === EventSource.CLOSED) {
-            subscriber.complete();
-          } else if (!config?.continueOnError) {
-            subscriber.error(new Error('SSE connection error'));
+      const connect = () => {
+        let opened = false;
+        let received = 0;
+        const read = (text: string | null | undefined) => {
+          if (opened && text) {
+            parser.push(text.slice(received));
+            received = text.length;
           }
-        });
-      };
-
-      // Handle message event (default)
-      eventSource.onmessage = (event) => {
-        this.ngZone.run(() => {
-          try {
-            const data = config?.parseJson !== false ? JSON.parse(event.data) : event.data;
-            subscriber.next({
-              type: 'message',
-              data: data as T,
-              lastEventId: event.lastEventId,
-              origin: event.origin,
-            });
-          } catch (_e) {
-            subscriber.next({
-              type: 'message',
-              data: event.data as T,
-              lastEventId: event.lastEventId,
-              origin: event.origin,
-            });
+        };
+        const open = (ok: boolean) => {
+          if (opened || !ok) {
+            return;
           }
-        });
-      };
+          opened = true;
+          attempts = 0;
+          subscriber.next({ type: 'open', data: null as unknown as T, lastEventId: parser.lastEventId, origin: url });
+        };
+
+        parser.reset();
+        let headers = (options.headers ?? new HttpHeaders()).set('Accept', 'text/event-stream');
+        if (parser.lastEventId) {
+          headers = headers.set('Last-Event-ID', parser.lastEventId);
+        }
 
-      // Handle specific event types
-      if (config?.eventTypes) {
-        config.eventTypes.forEach((eventType) => {
-          eventSource.addEventListener(eventType, (event: MessageEvent) => {
-            this.ngZone.run(() => {
-              try {
-                const data = config?.parseJson !== false ? JSON.parse(event.data) : event.data;
-                subscriber.next({
-                  type: eventType,
-                  data: data as T,
-                  lastEventId: event.lastEventId,
-                  origin: event.origin,
-                });
-              } catch (_e) {
-                subscriber.next({
-                  type: eventType,
-                  data: event.data as T,
-                  lastEventId: event.lastEventId,
-                  origin: event.origin,
-                });
+        connection = this.http
+          .request('GET', url, { ...options, headers, observe: 'events', reportProgress: true, responseType: 'text' })
+          .subscribe({
+            next: (event) => {
+              switch (event.type) {
+                case HttpEventType.ResponseHeader:
+                  open(event.ok);
+                  break;
+                case HttpEventType.DownloadProgress:
+                  // The fetch backend reports no separate header event
+                  open(true);
+                  read(event.partialText);
+                  // Replace the connection before its response text grows without bound
+                  if (received > maxBufferedBytes && parser.atEventBoundary) {
+                    connection?.unsubscribe();
+                    connect();
+                  }
+                  break;
+                case HttpEventType.Response:
+                  open(event.ok);
+                  read(event.body);
+                  // 204 No Content tells the client not to reconnect
+                  if (event.status === 204) {
+                    subscriber.complete();
+                  } else {
+                    scheduleReconnect();
+                  }
+                  break;
               }
-            });
+            },
+            error: (error) => scheduleReconnect(error),
           });
-        });
-      }
+      };
+
+      const close = () => subscriber.complete();
+      this.activeSSE.set(sseId, close);
+      connect();
 
       // Cleanup on unsubscribe
       return () => {
-        eventSource.close();
-        this.activeSSE.delete(sseId);
+        connection?.unsubscribe();
+        if (this.activeSSE.get(sseId) === close) {
+          this.activeSSE.delete(sseId);
+        }
       };
     });
+
+    // Cancellation signals close the stream; a timeout would cut off quiet streams
+    return this.withLimits(sse$, url, { ...config?.requestConfig, timeout: 0 });
   }
 
   /**
    * Close an active SSE connection
    */
   closeSSE(sseId: string): void {
-    const eventSource = this.activeSSE.get(sseId);
-    if (eventSource) {
-      eventSource.close();
+    const close = this.activeSSE.get(sseId);
+    if (close) {
       this.activeSSE.delete(sseId);
+      close();
     }
   }
 
@@ -478,12 +714,17 @@ export class ApiService {
    * Close all active SSE connections
    */
   closeAllSSE(): void {
-    this.activeSSE.forEach((eventSource) => eventSource.close());
+    const connections = [...this.activeSSE.values()];
     this.activeSSE.clear();
+    connections.forEach((close) => close());
   }
 
   /**
-   * Perform a request with automatic retry and exponential backoff
+   * Perform a request with automatic retry, following the shared retry policy
+   *
+   * Wrapping a request in `withRetry` is an explicit opt-in, so it is retried
+   * whatever its method. Prefer `RequestConfig.retry` with the HTTP error
+   * interceptor, which retries idempotent methods only.
    *
    * @example
    * ```typescript
@@ -502,35 +743,7 @@ export class ApiService {
     requestFn: () => Observable<T>,
     config?: Partial<RetryConfig>
   ): Observable<T> {
-    const retryConfig = { ...DEFAULT_RETRY_CONFIG, ...config };
-
-    return requestFn().pipe(
-      retryWhen((errors) =>
-        errors.pipe(
-          scan((retryCount: number, error: unknown) => {
-            if (retryCount >= retryConfig.maxRetries) {
-              throw error;
-            }
-
-            // Check if error is retryable
-            if (error instanceof HttpErrorResponse) {
-              if (!retryConfig.retryStatuses.includes(error.status)) {
-                throw error;
-              }
-            }
-
-            return retryCount + 1;
-          }, 0),
-          switchMap((retryCount: number) => {
-            const baseDelay = retryConfig.retryDelay;
-            const delayMs = retryConfig.exponentialBackoff
-              ? Math.min(baseDelay * Math.pow(2, retryCount), 30000)
-              : baseDelay;
-            return timer(delayMs);
-          })
-        )
-      )
-    );
+    return requestFn().pipe(this.retryPolicy.retry<T>({ policy: config }));
   }
 
   /**
@@ -590,6 +803,11 @@ export class ApiService {
   /**
    * Create a paginated reactive stream with load more functionality
    *
+   * Pages are requested and read through a pagination strategy: page numbers
+   * over `PaginatedResponse` by default, or `cursorPagination()` for opaque
+   * cursors. `loadMore` appends the following page and `loadPrevious`
+   * prepends the preceding one, so a stream can start in the middle of a list.
+   *
    * @example
    * ```typescript
    * const stream = this.api.createPaginatedStream<User>('/users', { pageSize: 20 });
@@ -601,80 +819,108 @@ export class ApiService {
    * // Load next page
    * stream.loadMore();
    *
-   * // Reset to first page
+   * // Reload the first page in place, or start over
+   * stream.refresh();
    * stream.reset();
+   *
+   * // Cursor pagination
+   * const feed = this.api.createPaginatedStream<Post>('/feed', { strategy: cursorPagination() });
    * ```
    */
-  createPaginatedStream<T>(endpoint: string, config?: {
-    pageSize?: number;
-    initialPage?: number;
-    requestConfig?: RequestConfig;
-  }): {
-    data$: Observable<T[]>;
-    loading$: Observable<boolean>;
-    hasMore$: Observable<boolean>;
-    error$: Observable<ApiErrorResponse | null>;
-    loadMore: () => void;
-    reset: () => void;
-    destroy: () => void;
-  } {
+  createPaginatedStream<T, R = PaginatedResponse<T>>(
+    endpoint: string,
+    config?: PaginatedStreamConfig<T, R>
+  ): PaginatedStream<T> {
     const pageSize = config?.pageSize ?? 20;
-    const initialPage = config?.initialPage ?? 1;
+    const strategy =
+      config?.strategy ??
+      (pageNumberPagination<T>({ initialPage: config?.initialPage }) as unknown as PaginationStrategy<T, R>);
 
-    const page$ = new BehaviorSubject<number>(initialPage);
+    type PageRequest = { cursor: PageCursor | null; direction: PageDirection; mode: 'replace' | 'append' | 'prepend' };
+    const first = (): PageRequest => ({ cursor: strategy.initialCursor, direction: 'forward', mode: 'replace' });
+
+    const request$ = new BehaviorSubject<PageRequest>(first());
     const data$ = new BehaviorSubject<T[]>([]);
     const loading$ = new BehaviorSubject<boolean>(false);
-    const hasMore$ = new BehaviorSubject<boolean>(true);
     const error$ = new BehaviorSubject<ApiErrorResponse | null>(null);
+    const hasMore$ = new BehaviorSubject<boolean>(true);
+    const hasPrevious$ = new BehaviorSubject<boolean>(false);
     const stop$ = new Subject<void>();
+    let nextCursor: PageCursor | null = null;
+    let previousCursor: PageCursor | null = null;
 
-    page$.pipe(
+    request$.pipe(
       takeUntil(stop$),
       tap(() => loading$.next(true)),
-      switchMap((page) =>
-        this.getPaginated<T>(endpoint, { page, pageSize }, config?.requestConfig).pipe(
+      switchMap((request) => {
+        const params = strategy.params(request.cursor, request.direction, pageSize);
+        return this.get<R>(endpoint, {
+          ...config?.requestConfig,
+          params: { ...config?.requestConfig?.params, ...params } as Record<string, string | number | boolean | string[]>,
+        }).pipe(
+          map((response) => ({ request, page: strategy.pageInfo(response) })),
           catchError((err) => {
+            loading$.next(false);
             error$.next(err);
             return EMPTY;
           })
-        )
-      )
-    ).subscribe((response) => {
+        );
+      })
+    ).subscribe(({ request, page }) => {
       loading$.next(false);
       error$.next(null);
 
-      const currentPage = page$.value;
-      if (currentPage === initialPage) {
-        data$.next(response.data);
+      if (request.mode === 'append') {
+        data$.next([...data$.value, ...page.items]);
+      } else if (request.mode === 'prepend') {
+        data$.next([...page.items, ...data$.value]);
       } else {
-        data$.next([...data$.value, ...response.data]);
+        data$.next(page.items);
       }
 
-      hasMore$.next(response.meta.hasNextPage);
+      if (request.mode !== 'prepend') {
+        nextCursor = page.nextCursor ?? null;
+        hasMore$.next(nextCursor !== null);
+      }
+      if (request.mode !== 'append') {
+        previousCursor = page.previousCursor ?? null;
+        hasPrevious$.next(previousCursor !== null);
+      }
     });
 
     return {
       data$: data$.asObservable(),
       loading$: loading$.asObservable(),
       hasMore$: hasMore$.asObservable(),
+      hasPrevious$: hasPrevious$.asObservable(),
       error$: error$.asObservable(),
       loadMore: () => {
         if (!loading$.value && hasMore$.value) {
-          page$.next(page$.value + 1);
+          request$.next({ cursor: nextCursor, direction: 'forward', mode: 'append' });
         }
       },
+      loadPrevious: () => {
+        if (!loading$.value && hasPrevious$.value) {
+          request$.next({ cursor: previousCursor, direction: 'backward', mode: 'prepend' });
+        }
+      },
+      refresh: () => {
+        request$.next(first());
+      },
       reset: () => {
         data$.next([]);
         hasMore$.next(true);
-        page$.next(initialPage);
+        hasPrevious$.next(false);
+        request$.next(first());
       },
       destroy: () => {
         stop$.next();
         stop$.complete();
-        page$.complete();
+        request$.complete();
         data$.complete();
         loading$.complete();
         hasMore$.complete();
+        hasPrevious$.complete();
         error$.complete();
       },
     };
@@ -799,6 +1045,7 @@ export class ApiService {
     headers?: HttpHeaders;
     params?: HttpParams;
     withCredentials?: boolean;
+    context?: HttpContext;
   } {
     let headers = new HttpHeaders();
     let params = new HttpParams();
@@ -831,10 +1078,16 @@ export class ApiService {
       }
     }
 
+    if (config?.idempotencyKey) {
+      headers = headers.set(IDEMPOTENCY_KEY_HEADER, config.idempotencyKey);
+    }
+
     return {
       headers,
       params,
       withCredentials: config?.withCredentials,
+      // Picked up by the HTTP error interceptor's retry policy
+      context: config?.retry !== undefined ? new HttpContext().set(RETRY_POLICY_OVERRIDE, config.retry) : undefined,
     };
   }
 
@@ -862,35 +1115,192 @@ export class ApiService {
   }
 
   /**
-   * Get cached response
+   * Build the cache key of a GET request from its URL and query parameters
    */
-  private getFromCache<T>(key: string): Observable<T> | null {
-    const cached = this.cache.get(key);
-    if (cached && cached.expiry > Date.now()) {
-      return new Observable((subscriber) => {
-        subscriber.next(cached.data as T);
-        subscriber.complete();
-      });
+  private buildCacheKey(url: string, params?: HttpParams): string {
+    const query = params?.toString();
+    return query ? `${url}?${query}` : url;
+  }
+
+  /**
+   * Share a single in-flight request between identical callers
+   */
+  private dedupe<T>(key: string, send: () => Observable<T>): Observable<T> {
+    return defer(() => {
+      const pending = this.inFlight.get(key) as Observable<T> | undefined;
+      if (pending) {
+        return pending;
+      }
+
+      const request$ = send().pipe(
+        finalize(() => this.inFlight.delete(key)),
+        share()
+      );
+      this.inFlight.set(key, request$);
+      return request$;
+    });
+  }
+
+  /**
+   * Refresh a cached response without a subscriber, keeping the stale copy on failure
+   */
+  private refreshInBackground(refresh$: Observable<unknown>): void {
+    refresh$.subscribe({
+      error: (error) => console.warn('Background revalidation failed:', error),
+    });
+  }
+
+  /**
+   * Send a mutation and apply its cache invalidation
+   *
+   * With `offline`, a mutation that cannot reach the server (or that would
+   * overtake mutations already queued) goes to the outbox instead; the
+   * returned Observable then completes without emitting.
+   */
+  private mutate<T>(
+    method: MutationMethod,
+    endpoint: string,
+    body: unknown,
+    config?: TypedRequestConfig<T>
+  ): Observable<T> {
+    const url = this.buildUrl(endpoint);
+    const send = (requestConfig?: RequestConfig) =>
+      this.http
+        .request<T>(method, url, { ...this.buildOptions(requestConfig), body })
+        .pipe(tap(() => this.cache.invalidate(requestConfig?.invalidates)));
+
+    if (!config?.offline) {
+      return this.withLimits(
+        send(config).pipe(catchError((error) => this.handleError(error, config))),
+        url,
+        config
+      ).pipe(this.decodeWith(url, config?.decoder));
     }
-    this.cache.delete(key);
-    return null;
+
+    const queueable$ = defer(() => {
+      // Every attempt, including replays, carries the same idempotency key
+      const offlineConfig = { ...config, idempotencyKey: config.idempotencyKey ?? crypto.randomUUID() };
+      if (this.outbox.shouldQueue()) {
+        this.outbox.enqueue(method, url, body, offlineConfig);
+        return EMPTY;
+      }
+
+      return send(offlineConfig).pipe(
+        catchError((error) => {
+          if (this.isNetworkError(error)) {
+            this.outbox.enqueue(method, url, body, offlineConfig);
+            // The browser may still be online, so no `online` event will trigger the replay
+            void this.outbox.replay();
+            return EMPTY;
+          }
+          return this.handleError(error, config);
+        })
+      );
+    });
+
+    return this.withLimits(queueable$, url, config).pipe(this.decodeWith(url, config.decoder));
   }
 
   /**
-   * Set cache entry
+   * Apply the request timeout and cancellation signals
+   *
+   * The timeout bounds the wait for each emission: the response, or the
+   * next progress event of an upload.
    */
-  private setCache(key: string, data: unknown, ttl: number): void {
-    this.cache.set(key, {
-      data,
-      expiry: Date.now() + ttl,
+  private withLimits<T>(request$: Observable<T>, url: string, config?: RequestConfig): Observable<T> {
+    const timeoutMs = config?.timeout ?? this.dataAccessConfig.timeout;
+    const limited$ = timeoutMs
+      ? request$.pipe(
+          timeout({ each: timeoutMs, with: () => throwError(() => this.createTimeoutError(url, timeoutMs)) })
+        )
+      : request$;
+
+    return defer(() => {
+      // Resolve the navigation scope when the request starts, not when it is declared
+      const cancelOnNavigation = config?.cancelOnNavigation ?? this.dataAccessConfig.cancelOnNavigation ?? false;
+      const signals = [config?.signal, cancelOnNavigation ? this.cancellation.navigationSignal : undefined].filter(
+        (signal): signal is AbortSignal => !!signal
+      );
+
+      if (signals.some((signal) => signal.aborted)) {
+        return EMPTY;
+      }
+      return signals.length > 0
+        ? limited$.pipe(takeUntil(merge(...signals.map((signal) => fromEvent(signal, 'abort')))))
+        : limited$;
     });
   }
 
+  /**
+   * Validate responses with a decoder, failing with an ApiValidationError when they do not match
+   */
+  private decodeWith<T>(url: string, decoder?: Decoder<T>): MonoTypeOperatorFunction<T> {
+    if (!decoder) {
+      return (source) => source;
+    }
+
+    return map((body) => {
+      const result = decoder.decode(body);
+      if (result.ok) {
+        return result.value;
+      }
+
+      const details: Record<string, string[]> = {};
+      result.failures.forEach(({ path, message }) => (details[path] = [...(details[path] ?? []), message]));
+      const error: ApiValidationError = {
+        code: VALIDATION_ERROR_CODE,
+        message: `Response does not match the expected schema at ${Object.keys(details).join(', ')}`,
+        timestamp: new Date().toISOString(),
+        path: url,
+        details,
+      };
+      throw error;
+    });
+  }
+
+  /**
+   * Describe a request that exceeded its timeout
+   */
+  private createTimeoutError(url: string, timeoutMs: number): ApiTimeoutError {
+    return {
+      code: TIMEOUT_ERROR_CODE,
+      message: `Request timed out after ${timeoutMs}ms`,
+      timestamp: new Date().toISOString(),
+      path: url,
+      timeout: timeoutMs,
+    };
+  }
+
+  /**
+   * Describe a streamed record that failed to parse
+   */
+  private createStreamParseError(url: string, record: string, error: unknown): ApiStreamParseError {
+    return {
+      code: STREAM_PARSE_ERROR_CODE,
+      message: `Failed to parse streamed record: ${(error as Error)?.message ?? error}`,
+      timestamp: new Date().toISOString(),
+      path: url,
+      record,
+    };
+  }
+
+  /**
+   * Whether a request failed because the server could not be reached
+   */
+  private isNetworkError(error: unknown): boolean {
+    if (isApiCircuitOpenError(error)) {
+      return true;
+    }
+    // An HttpErrorResponse, or the plain `{ status, ... }` object httpErrorInterceptor rethrows
+    const status = (error as { status?: number } | null | undefined)?.status;
+    return status === 0 || (error as ApiErrorResponse | null | undefined)?.code === '0';
+  }
+
   /**
    * Handle HTTP errors
    */
   private handleError(error: HttpErrorResponse, config?: RequestConfig): Observable<never> {
-    if (config?.skipErrorHandler) {
+    if (config?.skipErrorHandler || isApiCircuitOpenError(error)) {
       return throwError(() => error);
     }
 
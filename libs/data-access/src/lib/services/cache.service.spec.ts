@@ -0,0 +1,101 @@
+/**
+ * @flyfront/data-access - Cache Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { CACHE_STORAGE, CacheService } from './cache.service';
+import { CacheStorageAdapter, PersistedCacheEntry } from '../models/data-access.models';
+
+/**
+ * Storage backend keeping entries in a map
+ */
+class MemoryCacheStorage implements CacheStorageAdapter {
+  readonly store = new Map<string, PersistedCacheEntry>();
+
+  async entries(): Promise<PersistedCacheEntry[]> {
+    return [...this.store.values()];
+  }
+
+  async get(key: string): Promise<PersistedCacheEntry | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(entry: PersistedCacheEntry): Promise<void> {
+    this.store.set(entry.key, entry);
+  }
+
+  async touch(): Promise<void> {
+    // No recency tracking
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async deleteWhere(predicate: (entry: PersistedCacheEntry) => boolean): Promise<void> {
+    [...this.store.values()].filter(predicate).forEach((entry) => this.store.delete(entry.key));
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+}
+
+function entry(key: string, data: unknown, expiresIn: number, tags: string[] = []): PersistedCacheEntry {
+  const now = Date.now();
+  return { key, data, expiry: now + expiresIn, staleUntil: now + expiresIn, createdAt: now, tags };
+}
+
+describe('CacheService', () => {
+  let storage: MemoryCacheStorage;
+
+  beforeEach(() => {
+    storage = new MemoryCacheStorage();
+    TestBed.configureTestingModule({
+      providers: [{ provide: CACHE_STORAGE, useValue: storage }],
+    });
+  });
+
+  describe('persistence', () => {
+    it('should restore unexpired entries from the storage backend', async () => {
+      storage.store.set('catalog', entry('catalog', ['book'], 60000));
+      storage.store.set('prices', entry('prices', [10], -1000));
+
+      const cache = TestBed.inject(CacheService);
+      await cache.restored;
+
+      expect(cache.get('catalog')).toEqual(['book']);
+      expect(cache.has('prices')).toBe(false);
+      expect(await cache.getPersisted('prices')).toEqual([10]);
+    });
+
+    it('should write through only entries marked for persistence', async () => {
+      const cache = TestBed.inject(CacheService);
+      await cache.restored;
+
+      cache.set('catalog', ['book'], 60000, { persist: true, tags: ['products'] });
+      cache.set('draft', { title: '' });
+      await Promise.resolve();
+
+      expect([...storage.store.keys()]).toEqual(['catalog']);
+
+      cache.invalidateTags(['products']);
+      await Promise.resolve();
+      expect(storage.store.size).toBe(0);
+    });
+
+    it('should not resurrect entries removed while restoring', async () => {
+      storage.store.set('catalog', entry('catalog', ['book'], 60000, ['products']));
+      storage.store.set('profile', entry('profile', { name: 'Ada' }, 60000));
+
+      const cache = TestBed.inject(CacheService);
+      cache.invalidateTags(['products']);
+      await cache.restored;
+
+      expect(cache.has('catalog')).toBe(false);
+      expect(cache.get('profile')).toEqual({ name: 'Ada' });
+    });
+  });
+});
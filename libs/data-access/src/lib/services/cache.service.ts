@@ -4,14 +4,43 @@
  * @copyright 2026 Firefly Software Solutions Inc.
  */
 
-import { Injectable, signal, computed } from '@angular/core';
+import { Injectable, InjectionToken, signal, computed, inject } from '@angular/core';
 import { Observable, of, Subject } from 'rxjs';
 import { tap, shareReplay } from 'rxjs/operators';
+import { CacheInvalidation, CacheStorageAdapter, PersistedCacheEntry } from '../models/data-access.models';
+
+/**
+ * Injection token for the persistent CacheService storage backend
+ */
+export const CACHE_STORAGE = new InjectionToken<CacheStorageAdapter>('CACHE_STORAGE');
 
 interface CacheEntry<T> {
   data: T;
   expiry: number;
+  staleUntil: number;
   createdAt: number;
+  tags: string[];
+  persisted: boolean;
+}
+
+/**
+ * Options for a cached value
+ */
+export interface CacheSetOptions {
+  /** Tags for grouped invalidation with `invalidateTags` */
+  tags?: string[];
+  /** How long (ms) after expiry the value is kept and returned as stale by `lookup` */
+  staleWhileRevalidate?: number;
+  /** Also write the value to the storage backend provided with `CACHE_STORAGE` */
+  persist?: boolean;
+}
+
+/**
+ * Result of a cache lookup that accepts stale values
+ */
+export interface CacheLookup<T> {
+  data: T;
+  stale: boolean;
 }
 
 interface CacheStats {
@@ -31,9 +60,16 @@ interface CacheStats {
  * // Cache a value
  * this.cache.set('user-123', userData, 60000); // 1 minute TTL
  *
+ * // Cache a value with tags and invalidate by tag
+ * this.cache.set('user-123', userData, 60000, { tags: ['users'] });
+ * this.cache.invalidateTags(['users']);
+ *
  * // Get a cached value
  * const user = this.cache.get<User>('user-123');
  *
+ * // Keep a value across reloads (requires a storage backend, e.g. provideIndexedDbCache())
+ * this.cache.set('catalog', catalog, 3600000, { persist: true });
+ *
  * // Cache an Observable
  * getUser(id: string): Observable<User> {
  *   return this.cache.wrap(
@@ -49,6 +85,10 @@ export class CacheService {
   private readonly cache = new Map<string, CacheEntry<unknown>>();
   private readonly observables = new Map<string, Observable<unknown>>();
   private readonly invalidated$ = new Subject<string>();
+  private readonly storage = inject(CACHE_STORAGE, { optional: true });
+
+  /** Removals made while persisted entries are being restored, so they are not resurrected */
+  private removedDuringRestore: Array<(entry: Pick<PersistedCacheEntry, 'key' | 'tags'>) => boolean> | null = null;
 
   private readonly _stats = signal<CacheStats>({ hits: 0, misses: 0, size: 0 });
 
@@ -65,6 +105,9 @@ export class CacheService {
   /** Observable of invalidated cache keys */
   readonly invalidated = this.invalidated$.asObservable();
 
+  /** Resolves once unexpired entries have been restored from the storage backend */
+  readonly restored: Promise<void> = this.restore();
+
   /**
    * Get a cached value
    */
@@ -77,27 +120,72 @@ export class CacheService {
     }
 
     if (this.isExpired(entry)) {
-      this.delete(key);
+      this.evictIfUnusable(key, entry);
       this.recordMiss();
       return null;
     }
 
     this.recordHit();
+    this.touch(key, entry);
     return entry.data;
   }
 
+  /**
+   * Get a cached value, including one that has expired but is still within
+   * its stale-while-revalidate window
+   */
+  lookup<T>(key: string): CacheLookup<T> | null {
+    const entry = this.cache.get(key) as CacheEntry<T> | undefined;
+
+    if (!entry || this.evictIfUnusable(key, entry)) {
+      this.recordMiss();
+      return null;
+    }
+
+    this.recordHit();
+    this.touch(key, entry);
+    return { data: entry.data, stale: this.isExpired(entry) };
+  }
+
+  /**
+   * Read a value from the storage backend, even if it has expired
+   *
+   * Used as an offline fallback when the network is unavailable.
+   */
+  async getPersisted<T>(key: string): Promise<T | null> {
+    try {
+      const entry = await this.storage?.get(key);
+      return entry ? (entry.data as T) : null;
+    } catch (error) {
+      console.warn('Failed to read the persistent cache:', error);
+      return null;
+    }
+  }
+
   /**
    * Set a cached value
    */
-  set<T>(key: string, data: T, ttl = 60000): void {
+  set<T>(key: string, data: T, ttl = 60000, options: CacheSetOptions = {}): void {
+    const now = Date.now();
     const entry: CacheEntry<T> = {
       data,
-      expiry: Date.now() + ttl,
-      createdAt: Date.now(),
+      expiry: now + ttl,
+      staleUntil: now + ttl + (options.staleWhileRevalidate ?? 0),
+      createdAt: now,
+      tags: options.tags ?? [],
+      persisted: options.persist ?? false,
     };
 
+    const previous = this.cache.get(key);
     this.cache.set(key, entry);
     this.updateSize();
+
+    if (entry.persisted) {
+      const { expiry, staleUntil, createdAt, tags } = entry;
+      this.write((storage) => storage.set({ key, data, expiry, staleUntil, createdAt, tags }));
+    } else if (previous?.persisted) {
+      this.write((storage) => storage.delete(key));
+    }
   }
 
   /**
@@ -107,7 +195,7 @@ export class CacheService {
     const entry = this.cache.get(key);
     if (!entry) return false;
     if (this.isExpired(entry)) {
-      this.delete(key);
+      this.evictIfUnusable(key, entry);
       return false;
     }
     return true;
@@ -117,13 +205,9 @@ export class CacheService {
    * Delete a cached value
    */
   delete(key: string): boolean {
-    const deleted = this.cache.delete(key);
-    this.observables.delete(key);
-    if (deleted) {
-      this.invalidated$.next(key);
-      this.updateSize();
-    }
-    return deleted;
+    this.removedDuringRestore?.push((entry) => entry.key === key);
+    this.write((storage) => storage.delete(key));
+    return this.evict(key);
   }
 
   /**
@@ -131,6 +215,8 @@ export class CacheService {
    */
   clear(): void {
     const keys = Array.from(this.cache.keys());
+    this.removedDuringRestore?.push(() => true);
+    this.write((storage) => storage.clear());
     this.cache.clear();
     this.observables.clear();
     keys.forEach((key) => this.invalidated$.next(key));
@@ -143,8 +229,7 @@ export class CacheService {
   clearExpired(): number {
     let cleared = 0;
     for (const [key, entry] of this.cache.entries()) {
-      if (this.isExpired(entry)) {
-        this.delete(key);
+      if (this.evictIfUnusable(key, entry)) {
         cleared++;
       }
     }
@@ -160,14 +245,51 @@ export class CacheService {
 
     for (const key of this.cache.keys()) {
       if (regex.test(key)) {
-        this.delete(key);
+        this.evict(key);
         invalidated++;
       }
     }
 
+    const matches = (entry: Pick<PersistedCacheEntry, 'key'>) => regex.test(entry.key);
+    this.removedDuringRestore?.push(matches);
+    this.write((storage) => storage.deleteWhere(matches));
+
     return invalidated;
   }
 
+  /**
+   * Invalidate cache entries carrying any of the given tags
+   */
+  invalidateTags(tags: string[]): number {
+    let invalidated = 0;
+
+    for (const [key, entry] of this.cache.entries()) {
+      if (entry.tags.some((tag) => tags.includes(tag))) {
+        this.evict(key);
+        invalidated++;
+      }
+    }
+
+    const matches = (entry: Pick<PersistedCacheEntry, 'tags'>) => entry.tags.some((tag) => tags.includes(tag));
+    this.removedDuringRestore?.push(matches);
+    this.write((storage) => storage.deleteWhere(matches));
+
+    return invalidated;
+  }
+
+  /**
+   * Invalidate the entries selected by tags, key patterns and exact keys
+   */
+  invalidate(invalidation: CacheInvalidation = {}): void {
+    const { tags, patterns, keys } = invalidation;
+
+    if (tags?.length) {
+      this.invalidateTags(tags);
+    }
+    patterns?.forEach((pattern) => this.invalidatePattern(pattern));
+    keys?.forEach((key) => this.delete(key));
+  }
+
   /**
    * Wrap an Observable with caching
    */
@@ -221,12 +343,13 @@ export class CacheService {
   /**
    * Get cache entries info (without data)
    */
-  entries(): Array<{ key: string; expiry: number; createdAt: number; ttl: number }> {
+  entries(): Array<{ key: string; expiry: number; createdAt: number; ttl: number; tags: string[] }> {
     return Array.from(this.cache.entries()).map(([key, entry]) => ({
       key,
       expiry: entry.expiry,
       createdAt: entry.createdAt,
       ttl: entry.expiry - Date.now(),
+      tags: entry.tags,
     }));
   }
 
@@ -237,6 +360,80 @@ export class CacheService {
     return Date.now() > entry.expiry;
   }
 
+  /**
+   * Drop an entry that is past its stale window from memory
+   *
+   * The storage backend keeps it as an offline fallback until it is evicted there.
+   */
+  private evictIfUnusable(key: string, entry: CacheEntry<unknown>): boolean {
+    if (Date.now() <= entry.staleUntil) {
+      return false;
+    }
+    this.evict(key);
+    return true;
+  }
+
+  /**
+   * Remove an entry from memory
+   */
+  private evict(key: string): boolean {
+    const deleted = this.cache.delete(key);
+    this.observables.delete(key);
+    if (deleted) {
+      this.invalidated$.next(key);
+      this.updateSize();
+    }
+    return deleted;
+  }
+
+  /**
+   * Load unexpired entries from the storage backend into memory
+   */
+  private async restore(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    const removed: Array<(entry: Pick<PersistedCacheEntry, 'key' | 'tags'>) => boolean> = [];
+    this.removedDuringRestore = removed;
+
+    try {
+      const entries = await this.storage.entries();
+      const now = Date.now();
+
+      for (const { key, ...entry } of entries) {
+        // Values written or removed since startup win over the stored copy
+        const superseded = this.cache.has(key) || removed.some((matches) => matches({ key, tags: entry.tags }));
+        if (now <= entry.staleUntil && !superseded) {
+          this.cache.set(key, { ...entry, persisted: true });
+        }
+      }
+      this.updateSize();
+    } catch (error) {
+      console.warn('Failed to restore the persistent cache:', error);
+    } finally {
+      this.removedDuringRestore = null;
+    }
+  }
+
+  /**
+   * Mark a persisted entry as recently used in the storage backend
+   */
+  private touch(key: string, entry: CacheEntry<unknown>): void {
+    if (entry.persisted) {
+      this.write((storage) => storage.touch(key));
+    }
+  }
+
+  /**
+   * Apply a change to the storage backend, if one is provided
+   */
+  private write(change: (storage: CacheStorageAdapter) => Promise<void>): void {
+    if (this.storage) {
+      change(this.storage).catch((error) => console.warn('Failed to update the persistent cache:', error));
+    }
+  }
+
   /**
    * Record a cache hit
    */
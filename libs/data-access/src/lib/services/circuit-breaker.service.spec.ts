@@ -0,0 +1,132 @@
+/**
+ * @flyfront/data-access - Circuit Breaker Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { LoggerService, RETRY_POLICY, httpErrorInterceptor, provideConfig } from '@flyfront/core';
+import { ApiService } from './api.service';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import { circuitBreakerInterceptor } from '../interceptors/circuit-breaker.interceptor';
+import { provideDataAccess } from '../providers/data-access.providers';
+import { isApiCircuitOpenError } from '../utils/type-guards';
+
+const API = 'https://api.test';
+
+describe('CircuitBreakerService', () => {
+  let http: HttpClient;
+  let breaker: CircuitBreakerService;
+  let backend: HttpTestingController;
+
+  const fail = (url: string, status = 503) => {
+    http.get(url).subscribe({ error: () => undefined });
+    backend.expectOne(url).flush(null, { status, statusText: 'Error' });
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([circuitBreakerInterceptor])),
+        provideHttpClientTesting(),
+        provideDataAccess({
+          circuitBreaker: { failureThreshold: 2, resetTimeout: 1000, scopes: [`${API}/reports`] },
+        }),
+      ],
+    });
+    http = TestBed.inject(HttpClient);
+    breaker = TestBed.inject(CircuitBreakerService);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    backend.verify();
+  });
+
+  it('should open after consecutive failures and fail fast with a typed error', () => {
+    fail(`${API}/users`);
+    expect(breaker.state(API)).toMatchObject({ status: 'closed', failures: 1 });
+    fail(`${API}/users`);
+
+    const errors: unknown[] = [];
+    http.get(`${API}/orders`).subscribe({ error: (error) => errors.push(error) });
+
+    backend.expectNone(`${API}/orders`);
+    expect(isApiCircuitOpenError(errors[0])).toBe(true);
+    expect(errors[0]).toMatchObject({ code: 'CIRCUIT_OPEN', circuit: API, path: `${API}/orders` });
+    expect(breaker.isDegraded()).toBe(true);
+    expect(breaker.degraded().map((circuit) => circuit.status)).toEqual(['open']);
+  });
+
+  it('should let one trial request through when half-open', () => {
+    fail(`${API}/users`);
+    fail(`${API}/users`);
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state(API).status).toBe('half-open');
+
+    const rejected = vi.fn();
+    http.get(`${API}/users`).subscribe();
+    http.get(`${API}/orders`).subscribe({ error: rejected });
+    backend.expectNone(`${API}/orders`);
+    expect(rejected).toHaveBeenCalled();
+
+    backend.expectOne(`${API}/users`).flush([]);
+    expect(breaker.state(API)).toEqual({ key: API, status: 'closed', failures: 0 });
+    expect(breaker.isDegraded()).toBe(false);
+
+    fail(`${API}/users`);
+    fail(`${API}/users`);
+    vi.advanceTimersByTime(1000);
+    fail(`${API}/users`);
+    expect(breaker.state(API).status).toBe('open');
+  });
+
+  it('should keep separate circuits per scope and ignore client errors', () => {
+    fail(`${API}/reports/daily`);
+    fail(`${API}/reports/weekly`);
+    expect(breaker.state(`${API}/reports`).status).toBe('open');
+    expect(breaker.state(API).status).toBe('closed');
+
+    fail(`${API}/users`, 404);
+    fail(`${API}/users`, 404);
+    expect(breaker.state(API).failures).toBe(0);
+  });
+});
+
+describe('circuitBreakerInterceptor with retries', () => {
+  it('should stop retries once the circuit opens', () => {
+    vi.useFakeTimers();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([httpErrorInterceptor, circuitBreakerInterceptor])),
+        provideHttpClientTesting(),
+        provideConfig({ apiBaseUrl: API }),
+        provideDataAccess({ circuitBreaker: { failureThreshold: 2 } }),
+        { provide: RETRY_POLICY, useValue: { maxRetries: 5, retryDelay: 100, jitter: false, exponentialBackoff: false } },
+      ],
+    });
+    vi.spyOn(TestBed.inject(LoggerService), 'warn').mockImplementation(() => undefined);
+    vi.spyOn(TestBed.inject(LoggerService), 'error').mockImplementation(() => undefined);
+    const backend = TestBed.inject(HttpTestingController);
+    const errors: unknown[] = [];
+
+    TestBed.inject(ApiService)
+      .get('/users')
+      .subscribe({ error: (error) => errors.push(error) });
+    backend.expectOne(`${API}/users`).flush(null, { status: 503, statusText: 'Unavailable' });
+    vi.advanceTimersByTime(100);
+    backend.expectOne(`${API}/users`).flush(null, { status: 503, statusText: 'Unavailable' });
+    vi.advanceTimersByTime(100);
+
+    backend.expectNone(`${API}/users`);
+    expect(errors).toHaveLength(1);
+    expect(isApiCircuitOpenError(errors[0])).toBe(true);
+
+    vi.useRealTimers();
+    backend.verify();
+  });
+});
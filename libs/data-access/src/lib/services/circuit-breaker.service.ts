@@ -0,0 +1,239 @@
+/**
+ * @flyfront/data-access - Circuit Breaker Service
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { HttpErrorResponse } from '@angular/common/http';
+import { DATA_ACCESS_CONFIG } from './api.service';
+import {
+  ApiCircuitOpenError,
+  CIRCUIT_OPEN_ERROR_CODE,
+  CircuitBreakerConfig,
+  CircuitState,
+} from '../models/data-access.models';
+
+/**
+ * Default circuit breaker configuration
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  resetTimeout: 30000,
+  successThreshold: 1,
+  failureStatuses: [0, 500, 502, 503, 504],
+};
+
+/**
+ * Client-side circuit breakers, one per API origin or configured endpoint prefix
+ *
+ * A circuit opens after `failureThreshold` consecutive failures. While open,
+ * requests fail fast with an `ApiCircuitOpenError` instead of reaching the
+ * backend. After `resetTimeout` the circuit turns half-open and lets one
+ * trial request through at a time: `successThreshold` successes close it,
+ * a failure opens it again. Requests are guarded by
+ * `circuitBreakerInterceptor`; this service holds the state as signals.
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts
+ * provideHttpClient(withInterceptors([httpErrorInterceptor, circuitBreakerInterceptor])),
+ * provideDataAccess({ circuitBreaker: { failureThreshold: 3, scopes: ['https://api.example.com/reports'] } }),
+ *
+ * // In a component
+ * readonly circuits = inject(CircuitBreakerService);
+ * // template:
+ * // @if (circuits.isDegraded()) {
+ * //   <fly-alert type="warning" title="Service degraded">Some data may be unavailable.</fly-alert>
+ * // }
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class CircuitBreakerService {
+  private readonly document = inject(DOCUMENT);
+  private readonly config: CircuitBreakerConfig = {
+    ...DEFAULT_CIRCUIT_BREAKER_CONFIG,
+    ...inject(DATA_ACCESS_CONFIG, { optional: true })?.circuitBreaker,
+  };
+
+  private readonly _circuits = signal<Record<string, CircuitState>>({});
+  private readonly successes = new Map<string, number>();
+  private readonly trials = new Set<string>();
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /** Circuits that have seen failures, closed ones included */
+  readonly circuits = computed(() => Object.values(this._circuits()));
+
+  /** Circuits currently open or half-open */
+  readonly degraded = computed(() => this.circuits().filter((circuit) => circuit.status !== 'closed'));
+
+  /** Whether any backend is considered down */
+  readonly isDegraded = computed(() => this.degraded().length > 0);
+
+  /**
+   * State of a circuit (closed when it has never failed)
+   */
+  state(key: string): CircuitState {
+    return this._circuits()[key] ?? { key, status: 'closed', failures: 0 };
+  }
+
+  /**
+   * Circuit guarding a URL: the longest matching scope, or the URL origin
+   */
+  keyFor(url: string): string {
+    const href = this.resolve(url);
+    const scope = (this.config.scopes ?? [])
+      .filter((prefix) => href.startsWith(this.resolve(prefix)))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return scope ?? new URL(href).origin;
+  }
+
+  /**
+   * Whether a request may be sent now
+   *
+   * In the half-open state this reserves the single trial slot, which
+   * `recordSuccess`, `recordFailure` or `release` frees again.
+   */
+  acquire(key: string): boolean {
+    const circuit = this.state(key);
+    if (circuit.status === 'closed') {
+      return true;
+    }
+    if (circuit.status === 'open') {
+      if (Date.now() < (circuit.retryAt ?? 0)) {
+        return false;
+      }
+      this.halfOpen(key);
+    }
+    if (this.trials.has(key)) {
+      return false;
+    }
+
+    this.trials.add(key);
+    return true;
+  }
+
+  /**
+   * Free a trial slot when a request ends without a response (cancelled)
+   */
+  release(key: string): void {
+    this.trials.delete(key);
+  }
+
+  /**
+   * Record a response from the backend
+   */
+  recordSuccess(key: string): void {
+    this.trials.delete(key);
+    const circuit = this.state(key);
+
+    if (circuit.status === 'half-open') {
+      const successes = (this.successes.get(key) ?? 0) + 1;
+      this.successes.set(key, successes);
+      if (successes >= this.config.successThreshold) {
+        this.reset(key);
+      }
+    } else if (circuit.status === 'closed' && circuit.failures > 0) {
+      this.reset(key);
+    }
+  }
+
+  /**
+   * Record a failed request
+   */
+  recordFailure(key: string): void {
+    this.trials.delete(key);
+    const circuit = this.state(key);
+    const failures = circuit.failures + 1;
+
+    // Requests sent before the circuit opened do not extend the reset timeout
+    if (circuit.status === 'open') {
+      return;
+    }
+    if (circuit.status === 'half-open' || failures >= this.config.failureThreshold) {
+      this.open(key, failures);
+    } else {
+      this.update({ key, status: 'closed', failures });
+    }
+  }
+
+  /**
+   * Whether an error counts as a failure of the backend
+   */
+  isFailure(error: unknown): boolean {
+    return error instanceof HttpErrorResponse && this.config.failureStatuses.includes(error.status);
+  }
+
+  /**
+   * Close one circuit, or all of them
+   */
+  reset(key?: string): void {
+    const keys = key ? [key] : Object.keys(this._circuits());
+    keys.forEach((item) => {
+      clearTimeout(this.timers.get(item));
+      this.timers.delete(item);
+      this.successes.delete(item);
+      this.trials.delete(item);
+    });
+
+    this._circuits.update((circuits) =>
+      key ? Object.fromEntries(Object.entries(circuits).filter(([item]) => item !== key)) : {}
+    );
+  }
+
+  /**
+   * Describe a request rejected by an open circuit
+   */
+  createOpenError(key: string, url: string): ApiCircuitOpenError {
+    const retryAt = this.state(key).retryAt ?? Date.now();
+    return {
+      code: CIRCUIT_OPEN_ERROR_CODE,
+      message: `Service unavailable: ${key} is failing, retrying after ${new Date(retryAt).toISOString()}`,
+      timestamp: new Date().toISOString(),
+      path: url,
+      circuit: key,
+      retryAt,
+    };
+  }
+
+  /**
+   * Fail fast until the reset timeout elapses
+   */
+  private open(key: string, failures: number): void {
+    clearTimeout(this.timers.get(key));
+    this.successes.delete(key);
+    this.update({ key, status: 'open', failures, retryAt: Date.now() + this.config.resetTimeout });
+
+    // Surface the half-open state without waiting for the next request
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        if (this.state(key).status === 'open') {
+          this.halfOpen(key);
+        }
+      }, this.config.resetTimeout)
+    );
+  }
+
+  /**
+   * Let trial requests through
+   */
+  private halfOpen(key: string): void {
+    clearTimeout(this.timers.get(key));
+    this.timers.delete(key);
+    this.update({ ...this.state(key), status: 'half-open', retryAt: undefined });
+  }
+
+  private update(circuit: CircuitState): void {
+    this._circuits.update((circuits) => ({ ...circuits, [circuit.key]: circuit }));
+  }
+
+  /**
+   * Absolute form of a URL, relative ones resolved against the document
+   */
+  private resolve(url: string): string {
+    return new URL(url, this.document.baseURI ?? 'http://localhost').href;
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * @flyfront/data-access - GraphQL Normalized Cache
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Observable, Subject } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { isObject } from '@flyfront/core';
+
+type StoreObject = Record<string, unknown>;
+
+/**
+ * Pointer from a stored result or entity to an entity
+ */
+interface Reference {
+  __ref: string;
+}
+
+/**
+ * State of one denormalization pass
+ */
+interface ReadContext {
+  /** Entities and results the value was built from */
+  dependencies: Set<string>;
+  /** Entities already built in this pass, so cyclic references share one object */
+  built: Map<string, StoreObject>;
+  /** False when the value refers to an entity that is no longer cached */
+  complete: boolean;
+}
+
+function isReference(value: unknown): value is Reference {
+  return isObject(value) && typeof value['__ref'] === 'string' && Object.keys(value).length === 1;
+}
+
+/**
+ * Normalized store for GraphQL results
+ *
+ * Objects carrying `__typename` and `id` are stored once under `Type:id`
+ * and query results keep references to them, so a mutation or
+ * subscription returning an updated entity updates every query showing
+ * it. Fields are stored under their response keys, without arguments:
+ * select `__typename` and `id`, and alias fields that are queried with
+ * different arguments.
+ *
+ * @example
+ * ```typescript
+ * const graphql = inject(GraphQLService);
+ *
+ * graphql.cache.writeEntity('User', 42, { name: 'Ada' });
+ * graphql.cache.readEntity<User>('User', 42);
+ * graphql.cache.evict('User', 42);
+ * ```
+ */
+export class GraphQLCache {
+  private readonly entities = new Map<string, StoreObject>();
+  private readonly results = new Map<string, unknown>();
+  /** Keys of changed entities and results; null when everything changed */
+  private readonly changes = new Subject<Set<string> | null>();
+
+  /**
+   * Cache key of an entity, or undefined for objects without `__typename` and `id`
+   */
+  identify(value: unknown): string | undefined {
+    if (!isObject(value)) {
+      return undefined;
+    }
+
+    const { __typename, id } = value;
+    return typeof __typename === 'string' && (typeof id === 'string' || typeof id === 'number')
+      ? `${__typename}:${id}`
+      : undefined;
+  }
+
+  /**
+   * Read a stored result; undefined when it is missing or refers to evicted entities
+   */
+  read<T>(key: string): T | undefined {
+    return this.resolve<T>(key).value;
+  }
+
+  /**
+   * Normalize a result into the store, keeping the result itself under `key` unless it is null
+   */
+  write(key: string | null, data: unknown): void {
+    const changed = new Set<string>();
+    const normalized = this.normalize(data, changed);
+    if (key !== null) {
+      this.results.set(key, normalized);
+      changed.add(key);
+    }
+    if (changed.size > 0) {
+      this.changes.next(changed);
+    }
+  }
+
+  /**
+   * Emit a stored result now and again whenever it or one of its entities changes
+   */
+  watch<T>(key: string): Observable<T | undefined> {
+    return new Observable<T | undefined>((subscriber) => {
+      let current = this.resolve<T>(key);
+      subscriber.next(current.value);
+
+      return this.changes
+        .pipe(filter((changed) => !changed || [...current.dependencies].some((dependency) => changed.has(dependency))))
+        .subscribe(() => {
+          current = this.resolve<T>(key);
+          subscriber.next(current.value);
+        });
+    });
+  }
+
+  /**
+   * Read one entity with its references resolved
+   */
+  readEntity<T>(typename: string, id: string | number): T | undefined {
+    const context = this.createContext();
+    const value = this.denormalize({ __ref: `${typename}:${id}` }, context);
+    return context.complete ? (value as T) : undefined;
+  }
+
+  /**
+   * Merge fields into an entity, creating it if needed
+   */
+  writeEntity(typename: string, id: string | number, fields: StoreObject): void {
+    this.write(null, { ...fields, __typename: typename, id });
+  }
+
+  /**
+   * Remove an entity; results referring to it read as missing until they are fetched again
+   */
+  evict(typename: string, id: string | number): void {
+    const key = `${typename}:${id}`;
+    if (this.entities.delete(key)) {
+      this.changes.next(new Set([key]));
+    }
+  }
+
+  /**
+   * Remove all entities and results
+   */
+  reset(): void {
+    this.entities.clear();
+    this.results.clear();
+    this.changes.next(null);
+  }
+
+  private createContext(): ReadContext {
+    return { dependencies: new Set(), built: new Map(), complete: true };
+  }
+
+  private resolve<T>(key: string): { value?: T; dependencies: Set<string> } {
+    const context = this.createContext();
+    context.dependencies.add(key);
+    if (!this.results.has(key)) {
+      return { dependencies: context.dependencies };
+    }
+
+    const value = this.denormalize(this.results.get(key), context);
+    return { value: context.complete ? (value as T) : undefined, dependencies: context.dependencies };
+  }
+
+  /**
+   * Replace entities by references, storing them along the way
+   */
+  private normalize(value: unknown, changed: Set<string>): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.normalize(item, changed));
+    }
+    if (!isObject(value)) {
+      return value;
+    }
+
+    const fields: StoreObject = {};
+    Object.entries(value).forEach(([field, item]) => (fields[field] = this.normalize(item, changed)));
+
+    const key = this.identify(value);
+    if (!key) {
+      return fields;
+    }
+
+    const existing = this.entities.get(key);
+    const merged = { ...existing, ...fields };
+    if (!existing || JSON.stringify(merged) !== JSON.stringify(existing)) {
+      this.entities.set(key, merged);
+      changed.add(key);
+    }
+    return { __ref: key };
+  }
+
+  /**
+   * Resolve references; references to missing entities are dropped from lists
+   * and make the value incomplete anywhere else
+   */
+  private denormalize(value: unknown, context: ReadContext): unknown {
+    if (Array.isArray(value)) {
+      return value
+        .filter((item) => {
+          if (isReference(item) && !this.entities.has(item.__ref)) {
+            context.dependencies.add(item.__ref);
+            return false;
+          }
+          return true;
+        })
+        .map((item) => this.denormalize(item, context));
+    }
+
+    if (isReference(value)) {
+      context.dependencies.add(value.__ref);
+      const built = context.built.get(value.__ref);
+      if (built) {
+        return built;
+      }
+
+      const entity = this.entities.get(value.__ref);
+      if (!entity) {
+        context.complete = false;
+        return undefined;
+      }
+
+      const result: StoreObject = {};
+      context.built.set(value.__ref, result);
+      Object.entries(entity).forEach(([field, item]) => (result[field] = this.denormalize(item, context)));
+      return result;
+    }
+
+    if (isObject(value)) {
+      const result: StoreObject = {};
+      Object.entries(value).forEach(([field, item]) => (result[field] = this.denormalize(item, context)));
+      return result;
+    }
+
+    return value;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * @flyfront/data-access - GraphQL Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Subject } from 'rxjs';
+import { TOKEN_PROVIDER, provideConfig } from '@flyfront/core';
+import { GRAPHQL_WEBSOCKET, GraphQLService, gql } from './graphql.service';
+import { WebSocketConnection } from './websocket-connection';
+import { WebSocketMessage } from '../models/data-access.models';
+import { isApiGraphQLError } from '../utils/type-guards';
+
+const API = 'https://api.test';
+
+interface User {
+  __typename: 'User';
+  id: string;
+  name: string;
+}
+
+const GET_USER = gql<{ user: User }, { id: string }>`
+  query GetUser($id: ID!) {
+    user(id: $id) { __typename id name }
+  }
+`;
+
+const RENAME_USER = gql<{ renameUser: User }, { id: string; name: string }>`
+  mutation RenameUser($id: ID!, $name: String!) {
+    renameUser(id: $id, name: $name) { __typename id name }
+  }
+`;
+
+describe('GraphQLService', () => {
+  let graphql: GraphQLService;
+  let backend: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideConfig({ apiBaseUrl: API })],
+    });
+    graphql = TestBed.inject(GraphQLService);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => backend.verify());
+
+  it('should answer queries from the normalized cache and update them after mutations', () => {
+    const names: string[] = [];
+    graphql.watchQuery(GET_USER, { id: '1' }).subscribe(({ user }) => names.push(user.name));
+
+    const request = backend.expectOne(`${API}/graphql`);
+    expect(request.request.method).toBe('POST');
+    expect(request.request.body).toMatchObject({ operationName: 'GetUser', variables: { id: '1' } });
+    request.flush({ data: { user: { __typename: 'User', id: '1', name: 'Ada' } } });
+
+    const cached = vi.fn();
+    graphql.query(GET_USER, { id: '1' }).subscribe(cached);
+    backend.expectNone(`${API}/graphql`);
+    expect(cached).toHaveBeenCalledWith({ user: { __typename: 'User', id: '1', name: 'Ada' } });
+
+    graphql.mutate(RENAME_USER, { id: '1', name: 'Ada Lovelace' }).subscribe();
+    backend.expectOne(`${API}/graphql`).flush({ data: { renameUser: { __typename: 'User', id: '1', name: 'Ada Lovelace' } } });
+
+    expect(names).toEqual(['Ada', 'Ada Lovelace']);
+    expect(graphql.cache.readEntity<User>('User', '1')?.name).toBe('Ada Lovelace');
+  });
+
+  it('should fail with an ApiGraphQLError when the response carries errors', () => {
+    const errors: unknown[] = [];
+    graphql.query(GET_USER, { id: '2' }).subscribe({ error: (error) => errors.push(error) });
+    backend.expectOne(`${API}/graphql`).flush({ data: { user: null }, errors: [{ message: 'Not allowed', path: ['user'] }] });
+
+    graphql.query('{ broken').subscribe({ error: (error) => errors.push(error) });
+    backend
+      .expectOne(`${API}/graphql`)
+      .flush({ errors: [{ message: 'Syntax Error' }] }, { status: 400, statusText: 'Bad Request' });
+
+    expect(errors.every(isApiGraphQLError)).toBe(true);
+    expect(errors[0]).toMatchObject({ message: 'Not allowed', data: { user: null }, path: `${API}/graphql` });
+    expect(errors[1]).toMatchObject({ message: 'Syntax Error' });
+  });
+});
+
+describe('GraphQLService subscriptions', () => {
+  it('should speak graphql-ws over the GraphQL socket', () => {
+    const opened$ = new Subject<void>();
+    const messages$ = new Subject<WebSocketMessage>();
+    let connected = false;
+    const socket = {
+      opened$,
+      messages$,
+      isConnected: () => connected,
+      connect: vi.fn(() => {
+        connected = true;
+        opened$.next();
+      }),
+      disconnect: vi.fn(() => (connected = false)),
+      send: vi.fn(),
+    };
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideConfig({ apiBaseUrl: API }),
+        { provide: GRAPHQL_WEBSOCKET, useValue: socket as unknown as WebSocketConnection },
+        { provide: TOKEN_PROVIDER, useValue: { getAccessToken: () => 'secret' } },
+      ],
+    });
+    const graphql = TestBed.inject(GraphQLService);
+    const updates: string[] = [];
+
+    const subscription = graphql
+      .subscribe(gql<{ userUpdated: User }>`subscription { userUpdated { __typename id name } }`)
+      .subscribe(({ userUpdated }) => updates.push(userUpdated.name));
+
+    expect(socket.connect).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'wss://api.test/graphql', protocols: 'graphql-transport-ws' })
+    );
+    expect(socket.send).toHaveBeenLastCalledWith({ type: 'connection_init', payload: { Authorization: 'Bearer secret' } });
+
+    messages$.next({ type: 'connection_ack', payload: null });
+    expect(socket.send).toHaveBeenLastCalledWith(
+      expect.objectContaining({ id: '1', type: 'subscribe', payload: expect.objectContaining({ query: expect.stringContaining('userUpdated') }) })
+    );
+
+    messages$.next({ id: '1', type: 'next', payload: { data: { userUpdated: { __typename: 'User', id: '7', name: 'Grace' } } } });
+    messages$.next({ type: 'ping', payload: null });
+    expect(socket.send).toHaveBeenLastCalledWith({ type: 'pong', payload: null });
+
+    subscription.unsubscribe();
+    expect(socket.send).toHaveBeenLastCalledWith({ id: '1', type: 'complete', payload: null });
+    expect(socket.disconnect).toHaveBeenCalled();
+    expect(updates).toEqual(['Grace']);
+    expect(graphql.cache.readEntity<User>('User', '7')?.name).toBe('Grace');
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * @flyfront/data-access - GraphQL Service
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { DOCUMENT } from '@angular/common';
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable, Subscriber, defer, of, throwError } from 'rxjs';
+import { catchError, filter, map, switchMap, tap } from 'rxjs/operators';
+import { ConfigService, TOKEN_PROVIDER, isObject } from '@flyfront/core';
+import { ApiService, DATA_ACCESS_CONFIG } from './api.service';
+import { GraphQLCache } from './graphql-cache';
+import { WebSocketConnection } from './websocket-connection';
+import { WebSocketService } from './websocket.service';
+import {
+  ApiGraphQLError,
+  GRAPHQL_ERROR_CODE,
+  GraphQLConfig,
+  GraphQLDocument,
+  GraphQLError,
+  GraphQLMutationOptions,
+  GraphQLQueryOptions,
+  GraphQLResponse,
+  GraphQLVariables,
+  RequestConfig,
+  WebSocketMessage,
+} from '../models/data-access.models';
+
+/**
+ * Connection used for GraphQL subscriptions, separate from the default WebSocketService connection
+ */
+export const GRAPHQL_WEBSOCKET = new InjectionToken<WebSocketConnection>('GRAPHQL_WEBSOCKET', {
+  providedIn: 'root',
+  factory: () => inject(WebSocketService).connection('graphql'),
+});
+
+/** Subprotocol of the graphql-ws library */
+const GRAPHQL_WS_PROTOCOL = 'graphql-transport-ws';
+
+/**
+ * Body of a GraphQL request and payload of a `subscribe` message
+ */
+interface OperationPayload {
+  query: string;
+  variables?: GraphQLVariables;
+  operationName?: string;
+}
+
+/**
+ * Create a typed GraphQL document
+ *
+ * Works as a function or a template tag; interpolated documents (fragments)
+ * are inlined.
+ *
+ * @example
+ * ```typescript
+ * const USER_FIELDS = gql`fragment UserFields on User { __typename id name }`;
+ *
+ * const GET_USER = gql<{ user: User }, { id: string }>`
+ *   query GetUser($id: ID!) { user(id: $id) { ...UserFields } }
+ *   ${USER_FIELDS}
+ * `;
+ * ```
+ */
+export function gql<TData = unknown, TVariables extends GraphQLVariables = GraphQLVariables>(
+  source: string | TemplateStringsArray,
+  ...values: Array<GraphQLDocument<unknown, GraphQLVariables> | string | number>
+): GraphQLDocument<TData, TVariables> {
+  const text =
+    typeof source === 'string'
+      ? source
+      : source.reduce((result, part, index) => {
+          const value = values[index - 1];
+          return `${result}${typeof value === 'object' ? value.source : String(value)}${part}`;
+        });
+
+  return {
+    source: text.trim(),
+    operationName: /\b(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/.exec(text)?.[1],
+  };
+}
+
+/**
+ * GraphQL client on top of ApiService
+ *
+ * Queries and mutations are POSTed through ApiService, so they use its base
+ * URL, interceptors (auth, retries, circuit breaker) and error handling.
+ * Responses with `errors` fail with an `ApiGraphQLError`. Results are
+ * normalized into `cache`; subscriptions use the graphql-ws protocol over a
+ * dedicated `graphql` connection of WebSocketService that is opened with the
+ * first subscription and closed with the last one.
+ *
+ * @example
+ * ```typescript
+ * private graphql = inject(GraphQLService);
+ *
+ * // Typed query, answered from the cache when possible
+ * this.graphql.query(GET_USER, { id: '42' }).subscribe(({ user }) => ...);
+ *
+ * // Live view of the query, updated by mutations and subscriptions
+ * readonly user = toSignal(this.graphql.watchQuery(GET_USER, { id: '42' }));
+ *
+ * // Mutation; the returned User updates every query that shows it
+ * this.graphql.mutate(RENAME_USER, { id: '42', name: 'Ada' }).subscribe();
+ *
+ * // Subscription over graphql-ws
+ * this.graphql.subscribe(USER_UPDATED, { id: '42' }).subscribe(({ userUpdated }) => ...);
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class GraphQLService {
+  private readonly api = inject(ApiService);
+  private readonly appConfig = inject(ConfigService);
+  private readonly document = inject(DOCUMENT);
+  private readonly socket = inject(GRAPHQL_WEBSOCKET);
+  private readonly tokenProvider = inject(TOKEN_PROVIDER, { optional: true });
+  private readonly config: GraphQLConfig = {
+    endpoint: '/graphql',
+    ...inject(DATA_ACCESS_CONFIG, { optional: true })?.graphql,
+  };
+
+  private readonly subscriptions = new Map<string, { payload: OperationPayload; subscriber: Subscriber<unknown> }>();
+  private socketOpen = false;
+  private acknowledged = false;
+  private lastSubscriptionId = 0;
+
+  /** Normalized entity cache shared by queries, mutations and subscriptions */
+  readonly cache = new GraphQLCache();
+
+  constructor() {
+    this.socket.opened$.pipe(takeUntilDestroyed()).subscribe(() => {
+      this.acknowledged = false;
+      this.socket.send({ type: 'connection_init', payload: this.connectionParams() });
+    });
+
+    this.socket.messages$.pipe(takeUntilDestroyed()).subscribe((message) => this.handleMessage(message));
+  }
+
+  /**
+   * Run a query and complete with its result
+   */
+  query<TData, TVariables extends GraphQLVariables = GraphQLVariables>(
+    document: GraphQLDocument<TData, TVariables> | string,
+    variables?: TVariables,
+    options?: GraphQLQueryOptions
+  ): Observable<TData> {
+    const operation = this.toPayload(document, variables);
+    const key = this.cacheKey(operation);
+    const fetchPolicy = options?.fetchPolicy ?? 'cache-first';
+
+    return defer(() => {
+      const cached = fetchPolicy === 'cache-first' ? this.cache.read<TData>(key) : undefined;
+      if (cached !== undefined) {
+        return of(cached);
+      }
+
+      return this.execute<TData>(operation, options).pipe(
+        tap((data) => fetchPolicy !== 'no-cache' && this.cache.write(key, data))
+      );
+    });
+  }
+
+  /**
+   * Run a query, then emit its result again whenever the cached entities change
+   *
+   * With `fetchPolicy: 'no-cache'` only the network result is emitted. After an
+   * eviction, incomplete results are not emitted until the query is fetched again.
+   */
+  watchQuery<TData, TVariables extends GraphQLVariables = GraphQLVariables>(
+    document: GraphQLDocument<TData, TVariables> | string,
+    variables?: TVariables,
+    options?: GraphQLQueryOptions
+  ): Observable<TData> {
+    const query$ = this.query(document, variables, options);
+    if (options?.fetchPolicy === 'no-cache') {
+      return query$;
+    }
+
+    const key = this.cacheKey(this.toPayload(document, variables));
+    return query$.pipe(
+      switchMap(() => this.cache.watch<TData>(key)),
+      filter((data): data is TData => data !== undefined)
+    );
+  }
+
+  /**
+   * Run a mutation and write the entities it returns to the cache
+   */
+  mutate<TData, TVariables extends GraphQLVariables = GraphQLVariables>(
+    document: GraphQLDocument<TData, TVariables> | string,
+    variables?: TVariables,
+    options?: GraphQLMutationOptions<TData>
+  ): Observable<TData> {
+    return this.execute<TData>(this.toPayload(document, variables), options).pipe(
+      tap((data) => {
+        if (options?.fetchPolicy !== 'no-cache') {
+          this.cache.write(null, data);
+        }
+        options?.update?.(data);
+      })
+    );
+  }
+
+  /**
+   * Start a subscription over graphql-ws; unsubscribing stops it on the server
+   *
+   * Active subscriptions are sent again when the socket reconnects.
+   */
+  subscribe<TData, TVariables extends GraphQLVariables = GraphQLVariables>(
+    document: GraphQLDocument<TData, TVariables> | string,
+    variables?: TVariables
+  ): Observable<TData> {
+    const payload = this.toPayload(document, variables);
+
+    return new Observable<TData>((subscriber) => {
+      const id = String(++this.lastSubscriptionId);
+      this.subscriptions.set(id, { payload, subscriber: subscriber as Subscriber<unknown> });
+
+      if (this.isReady()) {
+        this.socket.send({ id, type: 'subscribe', payload });
+      } else {
+        this.openSocket();
+      }
+
+      return () => {
+        if (this.subscriptions.delete(id) && this.isReady()) {
+          this.socket.send({ id, type: 'complete', payload: null });
+        }
+        if (this.subscriptions.size === 0) {
+          this.closeSocket();
+        }
+      };
+    });
+  }
+
+  /**
+   * POST an operation and unwrap its data
+   */
+  private execute<TData>(operation: OperationPayload, config?: RequestConfig): Observable<TData> {
+    const path = this.httpUrl;
+
+    return this.api.post<GraphQLResponse<TData>>(this.config.endpoint, operation, config).pipe(
+      // Servers may answer invalid operations with a 4xx status and an `errors` body
+      catchError((error) =>
+        throwError(() =>
+          isObject(error) && Array.isArray(error['errors'])
+            ? this.createError(error['errors'] as GraphQLError[], path)
+            : error
+        )
+      ),
+      map((response) => {
+        if (response.errors?.length) {
+          throw this.createError(response.errors, path, response.data);
+        }
+        return response.data as TData;
+      })
+    );
+  }
+
+  /**
+   * Handle a graphql-ws message
+   */
+  private handleMessage(message: WebSocketMessage): void {
+    const active = message.id ? this.subscriptions.get(message.id) : undefined;
+
+    switch (message.type) {
+      case 'connection_ack':
+        this.acknowledged = true;
+        this.subscriptions.forEach(({ payload }, id) => this.socket.send({ id, type: 'subscribe', payload }));
+        break;
+      case 'ping':
+        this.socket.send({ type: 'pong', payload: null });
+        break;
+      case 'next': {
+        const result = message.payload as GraphQLResponse;
+        if (result.errors?.length) {
+          active?.subscriber.error(this.createError(result.errors, this.wsUrl, result.data));
+        } else if (active) {
+          this.cache.write(null, result.data);
+          active.subscriber.next(result.data);
+        }
+        break;
+      }
+      case 'error':
+        if (active && message.id) {
+          this.subscriptions.delete(message.id);
+          active.subscriber.error(this.createError(message.payload as GraphQLError[], this.wsUrl));
+        }
+        break;
+      case 'complete':
+        if (active && message.id) {
+          this.subscriptions.delete(message.id);
+          active.subscriber.complete();
+        }
+        break;
+    }
+  }
+
+  private openSocket(): void {
+    if (this.socketOpen) {
+      return;
+    }
+
+    this.socketOpen = true;
+    // graphql-ws requires connection_init first, so nothing is queued ahead of it
+    this.socket.connect({ ...this.config.websocket, url: this.wsUrl, protocols: GRAPHQL_WS_PROTOCOL, queueLimit: 0 });
+  }
+
+  private closeSocket(): void {
+    this.socketOpen = false;
+    this.acknowledged = false;
+    this.socket.disconnect();
+  }
+
+  /**
+   * Whether the server accepted the connection and takes subscriptions
+   */
+  private isReady(): boolean {
+    return this.acknowledged && this.socket.isConnected();
+  }
+
+  /**
+   * Payload of `connection_init`: configured params, or the access token
+   */
+  private connectionParams(): Record<string, unknown> | null {
+    if (this.config.connectionParams) {
+      return this.config.connectionParams();
+    }
+
+    const token = this.tokenProvider?.getAccessToken();
+    return token ? { Authorization: `Bearer ${token}` } : null;
+  }
+
+  /**
+   * Subscription endpoint, derived from the HTTP endpoint unless configured
+   */
+  private get wsUrl(): string {
+    if (this.config.wsUrl) {
+      return this.config.wsUrl;
+    }
+
+    const url = new URL(this.httpUrl, this.document.baseURI ?? 'http://localhost');
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    return url.href;
+  }
+
+  /**
+   * HTTP endpoint with the API base URL applied
+   */
+  private get httpUrl(): string {
+    return /^https?:\/\//.test(this.config.endpoint)
+      ? this.config.endpoint
+      : this.appConfig.getApiUrl(this.config.endpoint);
+  }
+
+  private toPayload(document: GraphQLDocument<unknown, GraphQLVariables> | string, variables?: GraphQLVariables): OperationPayload {
+    const { source, operationName } = typeof document === 'string' ? gql(document) : document;
+    return { query: source, variables, operationName };
+  }
+
+  /**
+   * Cache key of a query: its source and variables, with object keys sorted
+   */
+  private cacheKey({ query, variables }: OperationPayload): string {
+    const sorted = JSON.stringify(variables ?? {}, (_key, value: unknown) =>
+      isObject(value) ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b))) : value
+    );
+    return `${query}|${sorted}`;
+  }
+
+  private createError(errors: GraphQLError[], path: string, data?: unknown): ApiGraphQLError {
+    return {
+      code: GRAPHQL_ERROR_CODE,
+      message: errors.map((error) => error.message).join('; '),
+      timestamp: new Date().toISOString(),
+      path,
+      errors,
+      ...(data != null ? { data } : {}),
+    };
+  }
+}
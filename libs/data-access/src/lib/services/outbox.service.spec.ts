@@ -0,0 +1,199 @@
+/**
+ * @flyfront/data-access - Outbox Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { HttpInterceptorFn, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { httpErrorInterceptor, provideConfig } from '@flyfront/core';
+import { ApiService } from './api.service';
+import { CacheService } from './cache.service';
+import { IDEMPOTENCY_KEY_HEADER, OutboxService } from './outbox.service';
+
+const API = 'https://api.test';
+
+describe('OutboxService', () => {
+  let api: ApiService;
+  let outbox: OutboxService;
+  let backend: HttpTestingController;
+  let online: boolean;
+
+  function setup(interceptors: HttpInterceptorFn[] = []): void {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors(interceptors)),
+        provideHttpClientTesting(),
+        provideConfig({ apiBaseUrl: API }),
+      ],
+    });
+    api = TestBed.inject(ApiService);
+    outbox = TestBed.inject(OutboxService);
+    backend = TestBed.inject(HttpTestingController);
+  }
+
+  function goOnline(): void {
+    online = true;
+    window.dispatchEvent(new Event('online'));
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    online = true;
+    vi.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+    setup();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    backend.verify();
+  });
+
+  it('should queue mutations while offline and replay them in order', async () => {
+    online = false;
+    const completed = vi.fn();
+
+    api.post('/notes', { text: 'a' }, { offline: true }).subscribe({ complete: completed });
+    api.patch('/notes/1', { text: 'b' }, { offline: true }).subscribe();
+
+    backend.expectNone(() => true);
+    expect(completed).toHaveBeenCalled();
+    expect(outbox.pending().map((entry) => entry.method)).toEqual(['POST', 'PATCH']);
+
+    goOnline();
+    const first = backend.expectOne(`${API}/notes`);
+    expect(first.request.headers.get(IDEMPOTENCY_KEY_HEADER)).toBe(outbox.pending()[0].id);
+    first.flush({});
+
+    const second = await vi.waitFor(() => backend.expectOne(`${API}/notes/1`));
+    expect(second.request.method).toBe('PATCH');
+    expect(second.request.body).toEqual({ text: 'b' });
+    second.flush({});
+
+    await vi.waitFor(() => expect(outbox.pendingCount()).toBe(0));
+  });
+
+  it('should queue a mutation that fails to reach the server and replay it with backoff', async () => {
+    vi.useFakeTimers();
+    api
+      .put('/notes/1', { text: 'a' }, { offline: true, headers: { 'X-Trace': '1' }, params: { draft: true } })
+      .subscribe();
+
+    const attempt = backend.expectOne(`${API}/notes/1?draft=true`);
+    const key = attempt.request.headers.get(IDEMPOTENCY_KEY_HEADER);
+    attempt.error(new ProgressEvent('error'));
+
+    expect(outbox.pending()[0].id).toBe(key);
+
+    // Replayed right away, as no `online` event follows while the browser stays online
+    const replayed = backend.expectOne(`${API}/notes/1?draft=true`);
+    expect(replayed.request.headers.get(IDEMPOTENCY_KEY_HEADER)).toBe(key);
+    expect(replayed.request.headers.get('X-Trace')).toBe('1');
+    replayed.error(new ProgressEvent('error'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(outbox.pending()[0].attempts).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(999);
+    backend.expectNone(`${API}/notes/1?draft=true`);
+    await vi.advanceTimersByTimeAsync(1);
+    backend.expectOne(`${API}/notes/1?draft=true`).flush({}, { status: 503, statusText: 'Service Unavailable' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(outbox.pending()[0].attempts).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    backend.expectOne(`${API}/notes/1?draft=true`).flush({});
+    await vi.advanceTimersByTimeAsync(0);
+    expect(outbox.pendingCount()).toBe(0);
+  });
+
+  it('should not leave later mutations behind one that failed while online', async () => {
+    api.put('/notes/1', { text: 'a' }, { offline: true }).subscribe();
+    backend.expectOne(`${API}/notes/1`).error(new ProgressEvent('error'));
+    const replayed = backend.expectOne(`${API}/notes/1`);
+
+    // Queued behind the first mutation to keep the order
+    api.post('/notes', { text: 'b' }, { offline: true }).subscribe();
+    expect(outbox.pendingCount()).toBe(2);
+
+    replayed.flush({});
+    (await vi.waitFor(() => backend.expectOne(`${API}/notes`))).flush({});
+    await vi.waitFor(() => expect(outbox.pendingCount()).toBe(0));
+
+    api.post('/notes', { text: 'c' }, { offline: true }).subscribe();
+    backend.expectOne(`${API}/notes`).flush({});
+    expect(outbox.pendingCount()).toBe(0);
+  });
+
+  it('should ignore a mutation whose idempotency key is already queued', () => {
+    online = false;
+
+    api.post('/orders', { sku: 'a' }, { offline: true, idempotencyKey: 'order-1' }).subscribe();
+    api.post('/orders', { sku: 'a' }, { offline: true, idempotencyKey: 'order-1' }).subscribe();
+
+    expect(outbox.pendingCount()).toBe(1);
+  });
+
+  it('should park rejected mutations as conflicts and keep replaying', async () => {
+    const cache = TestBed.inject(CacheService);
+    cache.set(`${API}/notes`, [], 60000, { tags: ['notes'] });
+    online = false;
+
+    api.put('/notes/1', { text: 'a' }, { offline: true }).subscribe();
+    api.post('/notes', { text: 'b' }, { offline: true, invalidates: { tags: ['notes'] } }).subscribe();
+
+    goOnline();
+    backend.expectOne(`${API}/notes/1`).flush({ message: 'Version mismatch' }, { status: 409, statusText: 'Conflict' });
+    (await vi.waitFor(() => backend.expectOne(`${API}/notes`))).flush({});
+
+    await vi.waitFor(() => expect(outbox.pendingCount()).toBe(0));
+    expect(cache.has(`${API}/notes`)).toBe(false);
+    expect(outbox.conflicts()).toHaveLength(1);
+    expect(outbox.conflicts()[0].error).toMatchObject({ code: '409', message: 'Version mismatch' });
+
+    outbox.retry(outbox.conflicts()[0].entry.id);
+    (await vi.waitFor(() => backend.expectOne(`${API}/notes/1`))).flush({});
+    await vi.waitFor(() => expect(outbox.pendingCount()).toBe(0));
+    expect(outbox.conflicts()).toEqual([]);
+  });
+
+  it('should classify the errors rethrown by httpErrorInterceptor', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    TestBed.resetTestingModule();
+    setup([httpErrorInterceptor]);
+    vi.useFakeTimers();
+    const failed = vi.fn();
+
+    api.post('/notes', { text: 'a' }, { offline: true }).subscribe({ error: failed });
+    backend.expectOne(`${API}/notes`).error(new ProgressEvent('error'));
+    expect(failed).not.toHaveBeenCalled();
+    expect(outbox.pendingCount()).toBe(1);
+
+    backend.expectOne(`${API}/notes`).flush(null, { status: 503, statusText: 'Service Unavailable' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(outbox.pending()[0].attempts).toBe(1);
+    expect(outbox.conflicts()).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    backend
+      .expectOne(`${API}/notes`)
+      .flush({ message: 'Version mismatch' }, { status: 409, statusText: 'Conflict' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(outbox.pendingCount()).toBe(0);
+    expect(outbox.conflicts()[0].error).toMatchObject({ code: '409', message: 'Version mismatch', path: `${API}/notes` });
+  });
+
+  it('should persist the queue across reloads', async () => {
+    online = false;
+    api.delete('/notes/1', { offline: true }).subscribe();
+
+    TestBed.resetTestingModule();
+    online = true;
+    setup();
+
+    expect(outbox.pendingCount()).toBe(1);
+    (await vi.waitFor(() => backend.expectOne(`${API}/notes/1`))).flush(null);
+    await vi.waitFor(() => expect(outbox.pendingCount()).toBe(0));
+  });
+});
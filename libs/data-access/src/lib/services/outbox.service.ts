@@ -0,0 +1,358 @@
+/**
+ * @flyfront/data-access - Outbox Service
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { DestroyRef, Injectable, computed, inject, signal, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
+import { firstValueFrom, fromEvent } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { StorageService } from '@flyfront/core';
+import { CacheService } from './cache.service';
+import {
+  ApiErrorResponse,
+  MutationMethod,
+  OutboxConflict,
+  OutboxEntry,
+  RequestConfig,
+} from '../models/data-access.models';
+import { isApiCircuitOpenError } from '../utils/type-guards';
+
+/**
+ * Header carrying the idempotency key of a mutation
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const OUTBOX_KEY = 'outbox';
+const CONFLICTS_KEY = 'outbox_conflicts';
+const REPLAY_LOCK = 'fly_outbox_replay';
+
+/** Delay before replaying after the first transient failure, doubled on each further one */
+const REPLAY_RETRY_DELAY = 1000;
+const MAX_REPLAY_RETRY_DELAY = 60000;
+
+/**
+ * Persisted outbox contents
+ */
+interface OutboxState {
+  pending: OutboxEntry[];
+  conflicts: OutboxConflict[];
+}
+
+/**
+ * Convert HttpHeaders/HttpParams into a plain record that survives JSON serialization
+ */
+function toRecord(
+  values: HttpHeaders | HttpParams | Record<string, string | number | boolean | string[]> | undefined
+): Record<string, string | string[]> | undefined {
+  if (!(values instanceof HttpHeaders || values instanceof HttpParams)) {
+    return values as Record<string, string | string[]> | undefined;
+  }
+  return Object.fromEntries(values.keys().map((key) => [key, values.getAll(key) ?? []]));
+}
+
+/**
+ * Offline outbox for mutations made with `RequestConfig.offline`
+ *
+ * Mutations that cannot reach the server are persisted with their request
+ * configuration and replayed in order when the browser comes back online,
+ * or after a growing delay when the server could not be reached while online.
+ * Every attempt carries the same `Idempotency-Key` header, so the server can
+ * discard duplicates. Mutations the server rejects are parked as conflicts
+ * for the user to retry or discard.
+ *
+ * @example
+ * ```typescript
+ * // Queue the mutation if the network is unavailable
+ * this.api.post('/notes', note, { offline: true }).subscribe();
+ *
+ * // Show pending changes and conflicts
+ * readonly outbox = inject(OutboxService);
+ * // template: @if (outbox.pendingCount()) { {{ outbox.pendingCount() }} unsynced changes }
+ *
+ * // Resolve a conflict
+ * this.outbox.retry(conflict.entry.id);
+ * this.outbox.discard(conflict.entry.id);
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class OutboxService {
+  private readonly http = inject(HttpClient);
+  private readonly storage = inject(StorageService);
+  private readonly cache = inject(CacheService);
+  private readonly isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  private readonly _pending = signal<OutboxEntry[]>([]);
+  private readonly _conflicts = signal<OutboxConflict[]>([]);
+  private readonly _isReplaying = signal(false);
+  private replaying: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Mutations waiting to be sent, oldest first */
+  readonly pending = this._pending.asReadonly();
+
+  /** Mutations rejected by the server during replay */
+  readonly conflicts = this._conflicts.asReadonly();
+
+  /** Number of mutations waiting to be sent */
+  readonly pendingCount = computed(() => this._pending().length);
+
+  /** Whether queued mutations are being sent */
+  readonly isReplaying = this._isReplaying.asReadonly();
+
+  constructor() {
+    this.load();
+    inject(DestroyRef).onDestroy(() => this.cancelScheduledReplay());
+
+    if (this.isBrowser) {
+      fromEvent(window, 'online')
+        .pipe(takeUntilDestroyed())
+        .subscribe(() => void this.replay());
+
+      // Follow changes made by other tabs
+      fromEvent<StorageEvent>(window, 'storage')
+        .pipe(
+          filter((event) => event.key?.startsWith(`fly_${OUTBOX_KEY}`) ?? false),
+          takeUntilDestroyed()
+        )
+        .subscribe(() => this.load());
+
+      if (this._pending().length > 0) {
+        void this.replay();
+      }
+    }
+  }
+
+  /**
+   * Whether a new mutation must be queued instead of sent
+   *
+   * True while offline, and while earlier mutations are still queued so that
+   * mutations reach the server in the order they were made.
+   */
+  shouldQueue(): boolean {
+    return (this.isBrowser && !navigator.onLine) || this._pending().length > 0;
+  }
+
+  /**
+   * Queue a mutation; one with an idempotency key already queued is ignored
+   */
+  enqueue(method: MutationMethod, url: string, body: unknown, config: RequestConfig = {}): OutboxEntry {
+    const id = config.idempotencyKey ?? crypto.randomUUID();
+    const existing = this._pending().find((entry) => entry.id === id);
+    if (existing) {
+      return existing;
+    }
+
+    const { patterns } = config.invalidates ?? {};
+    const entry: OutboxEntry = {
+      id,
+      method,
+      url,
+      body,
+      config: {
+        ...config,
+        idempotencyKey: id,
+        signal: undefined,
+        headers: toRecord(config.headers),
+        params: toRecord(config.params),
+        // RegExp patterns do not survive JSON serialization
+        invalidates: config.invalidates && {
+          ...config.invalidates,
+          patterns: patterns?.map((pattern) => (typeof pattern === 'string' ? pattern : pattern.source)),
+        },
+      },
+      createdAt: Date.now(),
+      attempts: 0,
+    };
+
+    this.save({ pending: [...this._pending(), entry], conflicts: this._conflicts() });
+    return entry;
+  }
+
+  /**
+   * Send queued mutations in order
+   *
+   * Stops at the first mutation that still cannot reach the server. Only
+   * one tab replays at a time when the Web Locks API is available.
+   */
+  replay(): Promise<void> {
+    this.cancelScheduledReplay();
+    this.replaying ??= this.runExclusive(() => this.drain()).finally(() => {
+      this.replaying = null;
+      this._isReplaying.set(false);
+    });
+    return this.replaying;
+  }
+
+  /**
+   * Queue a conflicting mutation again and replay
+   */
+  retry(id: string): void {
+    const conflict = this._conflicts().find(({ entry }) => entry.id === id);
+    if (!conflict) {
+      return;
+    }
+
+    this.save({
+      pending: [...this._pending(), conflict.entry],
+      conflicts: this._conflicts().filter(({ entry }) => entry.id !== id),
+    });
+    void this.replay();
+  }
+
+  /**
+   * Drop a queued or conflicting mutation
+   */
+  discard(id: string): void {
+    this.save({
+      pending: this._pending().filter((entry) => entry.id !== id),
+      conflicts: this._conflicts().filter(({ entry }) => entry.id !== id),
+    });
+  }
+
+  /**
+   * Send queued mutations until the queue is empty or the network fails
+   */
+  private async drain(): Promise<void> {
+    // Another tab may have sent or queued mutations meanwhile
+    this.load();
+    this._isReplaying.set(true);
+
+    let entry = this._pending()[0];
+    while (entry && !(this.isBrowser && !navigator.onLine)) {
+      const { id, config } = entry;
+      try {
+        await firstValueFrom(
+          this.http.request(entry.method, entry.url, {
+            body: entry.body,
+            headers: { ...toRecord(config.headers), [IDEMPOTENCY_KEY_HEADER]: id },
+            params: toRecord(config.params),
+            withCredentials: config.withCredentials,
+          })
+        );
+        this.cache.invalidate(config.invalidates);
+        this.save({ pending: this.without(id), conflicts: this._conflicts() });
+      } catch (error) {
+        if (this.isTransient(error)) {
+          this.save({
+            pending: this._pending().map((item) =>
+              item.id === id ? { ...item, attempts: item.attempts + 1 } : item
+            ),
+            conflicts: this._conflicts(),
+          });
+          this.scheduleReplay(entry.attempts + 1);
+          return;
+        }
+
+        this.save({
+          pending: this.without(id),
+          conflicts: [
+            ...this._conflicts(),
+            { entry: { ...entry, attempts: entry.attempts + 1 }, error: this.toApiError(error) },
+          ],
+        });
+      }
+      entry = this._pending()[0];
+    }
+  }
+
+  /**
+   * Replay again after a transient failure, backing off with each attempt
+   *
+   * While offline the `online` event triggers the replay instead.
+   */
+  private scheduleReplay(attempts: number): void {
+    if (!this.isBrowser || !navigator.onLine) {
+      return;
+    }
+    const delay = Math.min(REPLAY_RETRY_DELAY * 2 ** (attempts - 1), MAX_REPLAY_RETRY_DELAY);
+    this.cancelScheduledReplay();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.replay();
+    }, delay);
+  }
+
+  private cancelScheduledReplay(): void {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Pending mutations except one
+   */
+  private without(id: string): OutboxEntry[] {
+    return this._pending().filter((item) => item.id !== id);
+  }
+
+  /**
+   * Whether a failed replay should be retried later rather than parked as a conflict
+   */
+  private isTransient(error: unknown): boolean {
+    if (isApiCircuitOpenError(error)) {
+      return true;
+    }
+    // An HttpErrorResponse, or the plain `{ status, ... }` object httpErrorInterceptor rethrows
+    const status = (error as { status?: number } | null | undefined)?.status;
+    if (typeof status !== 'number') {
+      return false;
+    }
+    return status === 0 || status === 408 || status === 429 || status >= 500;
+  }
+
+  /**
+   * Describe a rejected replay
+   */
+  private toApiError(error: unknown): ApiErrorResponse {
+    const response = error as
+      | { status?: number; message?: string; url?: string | null; error?: unknown }
+      | null
+      | undefined;
+    const apiError: ApiErrorResponse = {
+      code: response?.status?.toString() ?? 'UNKNOWN',
+      message: response?.message ?? 'An unexpected error occurred',
+      timestamp: new Date().toISOString(),
+      path: response?.url ?? undefined,
+    };
+
+    if (response?.error && typeof response.error === 'object') {
+      Object.assign(apiError, response.error);
+    }
+    return apiError;
+  }
+
+  /**
+   * Run a task while holding the cross-tab replay lock, when supported
+   */
+  private async runExclusive(task: () => Promise<void>): Promise<void> {
+    const locks = this.isBrowser ? navigator.locks : undefined;
+    if (locks) {
+      await locks.request(REPLAY_LOCK, task);
+    } else {
+      await task();
+    }
+  }
+
+  /**
+   * Read the outbox from storage
+   */
+  private load(): void {
+    this._pending.set(this.storage.get<OutboxEntry[]>(OUTBOX_KEY) ?? []);
+    this._conflicts.set(this.storage.get<OutboxConflict[]>(CONFLICTS_KEY) ?? []);
+  }
+
+  /**
+   * Update and persist the outbox
+   */
+  private save(state: OutboxState): void {
+    this._pending.set(state.pending);
+    this._conflicts.set(state.conflicts);
+    this.storage.set(OUTBOX_KEY, state.pending);
+    this.storage.set(CONFLICTS_KEY, state.conflicts);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * @flyfront/data-access - Request Cancellation Service
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { DestroyRef, Injectable, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { NavigationStart, Router } from '@angular/router';
+import { filter } from 'rxjs/operators';
+
+/**
+ * Cancellation scopes for ApiService requests
+ *
+ * Requests take an `AbortSignal` through `RequestConfig.signal`. This
+ * service provides signals for the current navigation (aborted when the
+ * next navigation starts) and for the lifetime of a component.
+ *
+ * @example
+ * ```typescript
+ * // Cancel everything a component started when it is destroyed
+ * private readonly scope = inject(RequestCancellationService).createScope(inject(DestroyRef));
+ *
+ * load() {
+ *   return this.api.get<Report>('/reports/1', { signal: this.scope.signal });
+ * }
+ *
+ * // Cancel a group of requests explicitly
+ * this.scope.abort();
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class RequestCancellationService {
+  private readonly router = inject(Router, { optional: true });
+  private navigation = new AbortController();
+
+  constructor() {
+    this.router?.events
+      .pipe(
+        filter((event) => event instanceof NavigationStart),
+        takeUntilDestroyed()
+      )
+      .subscribe(() => {
+        this.navigation.abort();
+        this.navigation = new AbortController();
+      });
+  }
+
+  /** Signal aborted when the next navigation starts */
+  get navigationSignal(): AbortSignal {
+    return this.navigation.signal;
+  }
+
+  /**
+   * Create a cancellation scope, aborted when `destroyRef` is destroyed if given
+   */
+  createScope(destroyRef?: DestroyRef): AbortController {
+    const scope = new AbortController();
+    destroyRef?.onDestroy(() => scope.abort());
+    return scope;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * @flyfront/data-access - Upload Queue Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { StorageService, provideConfig } from '@flyfront/core';
+import { UploadQueueService } from './upload-queue.service';
+import { provideDataAccess } from '../providers/data-access.providers';
+
+const API = 'https://api.test';
+const SESSION_KEY = 'upload_session_/uploads_report.txt_10_1';
+
+describe('UploadQueueService', () => {
+  let uploads: UploadQueueService;
+  let backend: HttpTestingController;
+  const file = () => new File(['0123456789'], 'report.txt', { type: 'text/plain', lastModified: 1 });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideConfig({ apiBaseUrl: API }),
+        provideDataAccess({ upload: { chunkSize: 4, concurrency: 2, checksum: false } }),
+      ],
+    });
+    uploads = TestBed.inject(UploadQueueService);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    backend.verify();
+    localStorage.clear();
+  });
+
+  it('should upload chunks in parallel and report the combined progress', () => {
+    const id = uploads.add(file(), { endpoint: '/uploads', metadata: { folder: 'reports' } });
+
+    const create = backend.expectOne({ method: 'POST', url: `${API}/uploads` });
+    expect(create.request.body).toMatchObject({ fileName: 'report.txt', size: 10, chunkSize: 4, chunkCount: 3 });
+    create.flush({ uploadId: 'u1' });
+    expect(TestBed.inject(StorageService).get(SESSION_KEY)).toBe('u1');
+
+    const [first, second] = backend.match((request) => request.url.startsWith(`${API}/uploads/u1/chunks/`));
+    expect(first.request.method).toBe('PUT');
+    expect(first.request.headers.get('Content-Range')).toBe('bytes 0-3/10');
+    expect(second.request.url).toBe(`${API}/uploads/u1/chunks/1`);
+
+    second.flush(null);
+    expect(uploads.progress()).toEqual({ loaded: 4, total: 10, percentage: 40 });
+
+    const last = backend.expectOne(`${API}/uploads/u1/chunks/2`);
+    expect(last.request.headers.get('Content-Range')).toBe('bytes 8-9/10');
+    last.flush(null);
+    first.flush(null);
+
+    backend.expectOne({ method: 'POST', url: `${API}/uploads/u1/complete` }).flush({ url: '/files/report.txt' });
+    expect(uploads.uploads()[0]).toMatchObject({ id, status: 'completed', result: { url: '/files/report.txt' } });
+    expect(uploads.progress().percentage).toBe(100);
+    expect(uploads.isUploading()).toBe(false);
+    expect(TestBed.inject(StorageService).get(SESSION_KEY)).toBeUndefined();
+  });
+
+  it('should re-send mismatched chunks and pause, resume and cancel uploads', () => {
+    const id = uploads.add(file(), { endpoint: '/uploads', concurrency: 1 });
+    backend.expectOne(`${API}/uploads`).flush({ uploadId: 'u1' });
+
+    backend
+      .expectOne(`${API}/uploads/u1/chunks/0`)
+      .flush(null, { status: 460, statusText: 'Checksum Mismatch' });
+    backend.expectOne(`${API}/uploads/u1/chunks/0`).flush(null);
+
+    const inFlight = backend.expectOne(`${API}/uploads/u1/chunks/1`);
+    uploads.pause(id);
+    expect(inFlight.cancelled).toBe(true);
+    expect(uploads.uploads()[0].status).toBe('paused');
+
+    // Resumes in the same session with the chunks not received yet
+    uploads.resume(id);
+    backend.expectOne(`${API}/uploads/u1/chunks/1`);
+
+    uploads.cancel(id);
+    backend.expectOne({ method: 'DELETE', url: `${API}/uploads/u1` }).flush(null);
+    expect(uploads.uploads()[0].status).toBe('cancelled');
+    expect(uploads.progress()).toEqual({ loaded: 0, total: 0, percentage: 0 });
+  });
+
+  it('should resume a remembered session when the same file is added again', () => {
+    TestBed.inject(StorageService).set(SESSION_KEY, 'u7');
+
+    uploads.add(file(), { endpoint: '/uploads' });
+    backend.expectOne({ method: 'GET', url: `${API}/uploads/u7` }).flush({ uploadedChunks: [0, 2] });
+
+    expect(uploads.progress().loaded).toBe(6);
+    backend.expectOne(`${API}/uploads/u7/chunks/1`).flush(null);
+    backend.expectOne(`${API}/uploads/u7/complete`).flush({});
+    expect(uploads.uploads()[0].status).toBe('completed');
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * @flyfront/data-access - Upload Queue Service
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Injectable, OnDestroy, computed, inject, signal } from '@angular/core';
+import { Observable, Subscription, concat, from, of, throwError } from 'rxjs';
+import { catchError, ignoreElements, map, mergeMap, switchMap, tap } from 'rxjs/operators';
+import { StorageService } from '@flyfront/core';
+import { ApiService, DATA_ACCESS_CONFIG } from './api.service';
+import {
+  ApiErrorResponse,
+  ChunkedUploadOptions,
+  UploadItem,
+  UploadProgress,
+  UploadQueueConfig,
+} from '../models/data-access.models';
+
+/**
+ * Default upload queue configuration
+ */
+export const DEFAULT_UPLOAD_QUEUE_CONFIG: UploadQueueConfig = {
+  chunkSize: 5 * 1024 * 1024,
+  concurrency: 3,
+  maxConcurrentFiles: 2,
+  checksum: true,
+  maxChecksumRetries: 3,
+  persist: true,
+};
+
+/** Error code of a chunk whose digest did not match, as in tus */
+const CHECKSUM_MISMATCH_CODE = '460';
+
+/** Error codes of a session the server no longer knows */
+const UNKNOWN_SESSION_CODES = ['404', '410'];
+
+interface UploadTask {
+  id: string;
+  file: File;
+  options: ChunkedUploadOptions & UploadQueueConfig;
+  chunkCount: number;
+  uploadId: string | null;
+  uploaded: Set<number>;
+  subscription?: Subscription;
+}
+
+function toProgress(loaded: number, total: number): UploadProgress {
+  return { loaded, total, percentage: total ? Math.round((loaded / total) * 100) : 0 };
+}
+
+/**
+ * Queue of chunked, resumable file uploads
+ *
+ * Files are split into chunks sent in parallel, a few files at a time. Each
+ * file can be paused, resumed and cancelled; paused and failed files resume
+ * with the chunks the server has not received yet. Upload sessions are
+ * remembered, so adding the same file again (e.g. after a reload) resumes it.
+ *
+ * The server implements a simple chunk protocol under `endpoint`:
+ *
+ * - `POST {endpoint}` with `{ fileName, size, type, chunkSize, chunkCount, metadata }`
+ *   creates a session and answers `{ uploadId }`
+ * - `GET {endpoint}/{uploadId}` answers `{ uploadedChunks: number[] }` when resuming
+ * - `PUT {endpoint}/{uploadId}/chunks/{index}` receives the bytes with `Content-Range`
+ *   and `Content-Digest: sha-256=:<base64>:`; a digest mismatch is answered with 460
+ * - `POST {endpoint}/{uploadId}/complete` answers the result of the upload
+ * - `DELETE {endpoint}/{uploadId}` discards a cancelled upload
+ *
+ * Requests go through `ApiService`, so failed chunks are retried by the HTTP
+ * error interceptor like any other idempotent request.
+ *
+ * @example
+ * ```typescript
+ * readonly uploads = inject(UploadQueueService);
+ *
+ * onFiles(files: FileList) {
+ *   Array.from(files).forEach((file) => this.uploads.add(file, { endpoint: '/documents/uploads' }));
+ * }
+ *
+ * // template:
+ * // <fly-progress [value]="uploads.progress().percentage" />
+ * // @for (upload of uploads.uploads(); track upload.id) {
+ * //   {{ upload.file.name }} {{ upload.status }}
+ * //   <button (click)="uploads.pause(upload.id)">Pause</button>
+ * // }
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class UploadQueueService implements OnDestroy {
+  private readonly api = inject(ApiService);
+  private readonly storage = inject(StorageService);
+  private readonly config: UploadQueueConfig = {
+    ...DEFAULT_UPLOAD_QUEUE_CONFIG,
+    ...inject(DATA_ACCESS_CONFIG, { optional: true })?.upload,
+  };
+
+  private readonly _uploads = signal<UploadItem[]>([]);
+  private readonly tasks = new Map<string, UploadTask>();
+  private nextId = 0;
+
+  /** Files in the queue, in the order they were added */
+  readonly uploads = this._uploads.asReadonly();
+
+  /** Combined progress of the files that were not cancelled */
+  readonly progress = computed(() => {
+    const items = this._uploads().filter((item) => item.status !== 'cancelled');
+    return toProgress(
+      items.reduce((sum, item) => sum + item.progress.loaded, 0),
+      items.reduce((sum, item) => sum + item.progress.total, 0)
+    );
+  });
+
+  /** Whether files are waiting or being uploaded */
+  readonly isUploading = computed(() =>
+    this._uploads().some((item) => item.status === 'queued' || item.status === 'uploading')
+  );
+
+  /**
+   * Add a file to the queue and return its upload ID
+   */
+  add(file: File, options: ChunkedUploadOptions): string {
+    const id = `upload-${++this.nextId}`;
+    const resolved = { ...this.config, ...options };
+
+    this.tasks.set(id, {
+      id,
+      file,
+      options: resolved,
+      chunkCount: Math.max(1, Math.ceil(file.size / resolved.chunkSize)),
+      uploadId: null,
+      uploaded: new Set(),
+    });
+    this._uploads.update((items) => [...items, { id, file, status: 'queued', progress: toProgress(0, file.size) }]);
+    this.schedule();
+    return id;
+  }
+
+  /**
+   * Pause an upload, aborting the chunks in flight
+   */
+  pause(id: string): void {
+    const status = this.item(id)?.status;
+    if (status === 'queued' || status === 'uploading') {
+      this.tasks.get(id)?.subscription?.unsubscribe();
+      this.update(id, { status: 'paused' });
+      this.schedule();
+    }
+  }
+
+  /**
+   * Resume a paused or failed upload with the chunks not received yet
+   */
+  resume(id: string): void {
+    const status = this.item(id)?.status;
+    if (status === 'paused' || status === 'error') {
+      this.update(id, { status: 'queued', error: undefined });
+      this.schedule();
+    }
+  }
+
+  /**
+   * Cancel an upload and let the server discard its chunks
+   */
+  cancel(id: string): void {
+    const task = this.tasks.get(id);
+    const status = this.item(id)?.status;
+    if (!task || status === 'completed' || status === 'cancelled') {
+      return;
+    }
+
+    task.subscription?.unsubscribe();
+    if (task.uploadId) {
+      // Best effort: the upload is cancelled whether or not the server answers
+      this.api.delete(`${task.options.endpoint}/${task.uploadId}`).subscribe({ error: () => undefined });
+    }
+    this.forgetSession(task);
+    this.update(id, { status: 'cancelled' });
+    this.schedule();
+  }
+
+  /**
+   * Remove an upload from the queue, cancelling it when unfinished
+   */
+  remove(id: string): void {
+    this.cancel(id);
+    this.tasks.delete(id);
+    this._uploads.update((items) => items.filter((item) => item.id !== id));
+  }
+
+  /**
+   * Remove completed and cancelled uploads from the queue
+   */
+  clearFinished(): void {
+    this._uploads()
+      .filter((item) => item.status === 'completed' || item.status === 'cancelled')
+      .forEach((item) => this.remove(item.id));
+  }
+
+  ngOnDestroy(): void {
+    // Sessions are kept on the server, so the files can be resumed later
+    this.tasks.forEach((task) => task.subscription?.unsubscribe());
+  }
+
+  private item(id: string): UploadItem | undefined {
+    return this._uploads().find((item) => item.id === id);
+  }
+
+  private update(id: string, changes: Partial<UploadItem>): void {
+    this._uploads.update((items) => items.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }
+
+  /**
+   * Start queued uploads while fewer than `maxConcurrentFiles` are running
+   */
+  private schedule(): void {
+    const running = () => this._uploads().filter((item) => item.status === 'uploading').length;
+
+    while (running() < this.config.maxConcurrentFiles) {
+      const next = this._uploads().find((item) => item.status === 'queued');
+      const task = next && this.tasks.get(next.id);
+      if (!task) {
+        return;
+      }
+      this.start(task);
+    }
+  }
+
+  private start(task: UploadTask): void {
+    const { endpoint, concurrency } = task.options;
+    this.update(task.id, { status: 'uploading' });
+
+    task.subscription = this.openSession(task)
+      .pipe(
+        switchMap((uploadId) => {
+          const pending = Array.from({ length: task.chunkCount }, (_, index) => index).filter(
+            (index) => !task.uploaded.has(index)
+          );
+          const chunks$ = from(pending).pipe(
+            mergeMap(
+              (index) =>
+                this.sendChunk(task, uploadId, index).pipe(
+                  tap(() => {
+                    task.uploaded.add(index);
+                    this.reportProgress(task);
+                  })
+                ),
+              concurrency
+            ),
+            ignoreElements()
+          );
+
+          return concat(chunks$, this.api.post<unknown>(`${endpoint}/${uploadId}/complete`, {}));
+        })
+      )
+      .subscribe({
+        next: (result) => {
+          this.forgetSession(task);
+          this.update(task.id, { status: 'completed', result, progress: toProgress(task.file.size, task.file.size) });
+        },
+        error: (error: ApiErrorResponse) => {
+          this.update(task.id, { status: 'error', error });
+          this.schedule();
+        },
+        complete: () => this.schedule(),
+      });
+  }
+
+  /**
+   * Upload ID of the task: its own, a remembered session, or a new one
+   */
+  private openSession(task: UploadTask): Observable<string> {
+    if (task.uploadId) {
+      return of(task.uploadId);
+    }
+
+    const { endpoint, chunkSize, metadata, persist } = task.options;
+    const { file } = task;
+    const create$ = this.api
+      .post<{ uploadId: string }>(endpoint, {
+        fileName: file.name,
+        size: file.size,
+        type: file.type,
+        chunkSize,
+        chunkCount: task.chunkCount,
+        metadata,
+      })
+      .pipe(map(({ uploadId }) => uploadId));
+
+    const saved = persist ? this.storage.get<string>(this.sessionKey(task)) : undefined;
+    const session$ = saved
+      ? this.api.get<{ uploadedChunks: number[] }>(`${endpoint}/${saved}`).pipe(
+          tap(({ uploadedChunks }) =>
+            uploadedChunks.filter((index) => index < task.chunkCount).forEach((index) => task.uploaded.add(index))
+          ),
+          map(() => saved),
+          catchError((error: ApiErrorResponse) =>
+            UNKNOWN_SESSION_CODES.includes(error.code) ? create$ : throwError(() => error)
+          )
+        )
+      : create$;
+
+    return session$.pipe(
+      tap((uploadId) => {
+        task.uploadId = uploadId;
+        if (persist) {
+          this.storage.set(this.sessionKey(task), uploadId);
+        }
+        this.reportProgress(task);
+      })
+    );
+  }
+
+  /**
+   * Send one chunk, again when the server reports a checksum mismatch
+   */
+  private sendChunk(task: UploadTask, uploadId: string, index: number, attempt = 0): Observable<unknown> {
+    const { endpoint, chunkSize, checksum, maxChecksumRetries } = task.options;
+    const size = task.file.size;
+    const start = index * chunkSize;
+    const end = Math.min(start + chunkSize, size);
+    const chunk = task.file.slice(start, end);
+    // SubtleCrypto is only available in secure contexts
+    const digest$: Observable<string | null> = checksum && globalThis.crypto?.subtle ? from(this.digest(chunk)) : of(null);
+
+    return digest$.pipe(
+      switchMap((digest) =>
+        this.api.put(`${endpoint}/${uploadId}/chunks/${index}`, chunk, {
+          headers: {
+            'Content-Type': 'application/octet-stream',
+            'Content-Range': end > start ? `bytes ${start}-${end - 1}/${size}` : `bytes */${size}`,
+            ...(digest ? { 'Content-Digest': `sha-256=:${digest}:` } : {}),
+          },
+        })
+      ),
+      catchError((error: ApiErrorResponse) =>
+        error.code === CHECKSUM_MISMATCH_CODE && attempt < maxChecksumRetries
+          ? this.sendChunk(task, uploadId, index, attempt + 1)
+          : throwError(() => error)
+      )
+    );
+  }
+
+  /**
+   * Base64 SHA-256 digest of a chunk
+   */
+  private async digest(chunk: Blob): Promise<string> {
+    const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', await chunk.arrayBuffer()));
+    return btoa(String.fromCharCode(...hash));
+  }
+
+  private reportProgress(task: UploadTask): void {
+    const { chunkSize } = task.options;
+    const size = task.file.size;
+    const loaded = [...task.uploaded].reduce(
+      (sum, index) => sum + Math.max(0, Math.min(chunkSize, size - index * chunkSize)),
+      0
+    );
+    this.update(task.id, { progress: toProgress(loaded, size) });
+  }
+
+  private sessionKey(task: UploadTask): string {
+    const { file } = task;
+    return `upload_session_${task.options.endpoint}_${file.name}_${file.size}_${file.lastModified}`;
+  }
+
+  private forgetSession(task: UploadTask): void {
+    if (task.options.persist) {
+      this.storage.remove(this.sessionKey(task));
+    }
+  }
+}
@@ -0,0 +1,453 @@
+/**
+ * @flyfront/data-access - WebSocket Connection
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { signal, computed } from '@angular/core';
+import { Subject, Observable, timer } from 'rxjs';
+import { filter, finalize, map, takeUntil, tap } from 'rxjs/operators';
+import { webSocket, WebSocketSubject } from 'rxjs/webSocket';
+import { StorageService, isObject } from '@flyfront/core';
+import {
+  WebSocketCodec,
+  WebSocketConfig,
+  WebSocketFrame,
+  WebSocketMessage,
+  WebSocketState,
+  WebSocketTopicProtocol,
+} from '../models/data-access.models';
+import { jsonCodec } from '../utils/websocket-codecs';
+
+/**
+ * Default topic messages: `{ type: 'subscribe', payload: { channel } }`
+ */
+const DEFAULT_TOPIC_PROTOCOL: WebSocketTopicProtocol = {
+  subscribe: (topic, params) => ({ type: 'subscribe', payload: { channel: topic, ...(isObject(params) ? params : {}) } }),
+  unsubscribe: (topic) => ({ type: 'unsubscribe', payload: { channel: topic } }),
+  matches: (message, topic) => isObject(message.payload) && message.payload['channel'] === topic,
+};
+
+/**
+ * One WebSocket connection with reconnection, heartbeat, an outbound queue and topic subscriptions
+ *
+ * Obtained from `WebSocketService`, which is itself the default connection.
+ * Messages sent while disconnected are queued and flushed in order once the
+ * socket opens; topics subscribed with `topic()` are subscribed again after
+ * every reconnect.
+ *
+ * @example
+ * ```typescript
+ * const market = inject(WebSocketService).connection('market');
+ * market.connect({ url: 'wss://market.example.com/ws' });
+ *
+ * market.topic<Quote>('quotes:ACME').subscribe((message) => ...);
+ * market.send({ type: 'order', payload: order }); // queued until connected
+ * market.state(); // 'connecting' | 'connected' | ...
+ * ```
+ */
+export class WebSocketConnection {
+  private socket$: WebSocketSubject<WebSocketMessage | null> | null = null;
+  private readonly messagesSubject = new Subject<WebSocketMessage>();
+  private readonly openedSubject = new Subject<void>();
+  private readonly destroy$ = new Subject<void>();
+  private config: WebSocketConfig | null = null;
+  private reconnectAttempts = 0;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private queue: WebSocketMessage[] = [];
+  private readonly topics = new Map<string, { params: unknown; subscribers: number }>();
+
+  // Reactive state
+  private readonly _state = signal<WebSocketState>('disconnected');
+  private readonly _lastMessage = signal<WebSocketMessage | null>(null);
+  private readonly _error = signal<Error | null>(null);
+  private readonly _queued = signal(0);
+
+  /** Current connection state */
+  readonly state = this._state.asReadonly();
+
+  /** Whether the connection is active */
+  readonly isConnected = computed(() => this._state() === 'connected');
+
+  /** Last received message */
+  readonly lastMessage = this._lastMessage.asReadonly();
+
+  /** Last error */
+  readonly error = this._error.asReadonly();
+
+  /** Number of messages waiting for the connection */
+  readonly queued = this._queued.asReadonly();
+
+  /** Observable stream of all messages */
+  readonly messages$ = this.messagesSubject.asObservable();
+
+  /** Emits each time the connection opens, including after a reconnect */
+  readonly opened$ = this.openedSubject.asObservable();
+
+  constructor(
+    /** Connection name, also used as the storage key of a persisted queue */
+    readonly name: string,
+    protected readonly storage?: StorageService
+  ) {}
+
+  /**
+   * Connect to a WebSocket server
+   */
+  connect(config: WebSocketConfig): void {
+    if (this.socket$) {
+      this.disconnect();
+    }
+
+    this.config = {
+      reconnect: true,
+      reconnectInterval: 3000,
+      reconnectAttempts: 10,
+      heartbeatInterval: 30000,
+      queueLimit: 100,
+      ...config,
+    };
+
+    if (this.config.persistQueue) {
+      this.restoreQueue();
+    }
+
+    this._state.set('connecting');
+    this._error.set(null);
+    this.reconnectAttempts = 0;
+
+    this.createConnection();
+  }
+
+  /**
+   * Disconnect from the WebSocket server
+   *
+   * Queued messages and topic subscriptions are kept for the next `connect()`.
+   */
+  disconnect(): void {
+    this.stopHeartbeat();
+
+    if (this.socket$) {
+      this.socket$.complete();
+      this.socket$ = null;
+    }
+
+    this._state.set('disconnected');
+    this.config = null;
+    this.reconnectAttempts = 0;
+  }
+
+  /**
+   * Send a message, or queue it until the connection opens
+   */
+  send<T>(message: WebSocketMessage<T>): void {
+    const messageWithMeta: WebSocketMessage<T> = {
+      ...message,
+      timestamp: Date.now(),
+      id: message.id ?? this.generateMessageId(),
+    };
+
+    if (this.socket$ && this._state() === 'connected') {
+      this.socket$.next(messageWithMeta as WebSocketMessage);
+      return;
+    }
+
+    const limit = this.config?.queueLimit ?? 100;
+    if (limit <= 0) {
+      console.warn('WebSocket is not connected. Message not sent:', message);
+      return;
+    }
+
+    // Oldest messages give way when the queue is full
+    this.queue = [...this.queue, messageWithMeta as WebSocketMessage].slice(-limit);
+    this.queueChanged();
+  }
+
+  /**
+   * Drop queued messages
+   */
+  clearQueue(): void {
+    this.queue = [];
+    this.queueChanged();
+  }
+
+  /**
+   * Subscribe to messages of a specific type
+   */
+  on<T>(type: string): Observable<T> {
+    return this.messages$.pipe(
+      filter((msg) => msg.type === type),
+      map((msg) => msg.payload as T)
+    );
+  }
+
+  /**
+   * Subscribe to a server topic and receive its messages
+   *
+   * The subscribe message is sent with the first subscriber (and after every
+   * reconnect), the unsubscribe message when the last one unsubscribes.
+   */
+  topic<T>(topic: string, params?: unknown): Observable<WebSocketMessage<T>> {
+    return new Observable<WebSocketMessage<T>>((subscriber) => {
+      const active = this.topics.get(topic);
+      if (active) {
+        active.subscribers++;
+      } else {
+        this.topics.set(topic, { params, subscribers: 1 });
+        if (this.isConnected()) {
+          this.transmit(this.topicProtocol.subscribe(topic, params));
+        }
+      }
+
+      return this.messages$
+        .pipe(
+          filter((message) => this.topicProtocol.matches(message, topic)),
+          finalize(() => {
+            const current = this.topics.get(topic);
+            if (current && --current.subscribers === 0) {
+              this.topics.delete(topic);
+              if (this.isConnected()) {
+                this.transmit(this.topicProtocol.unsubscribe(topic, current.params));
+              }
+            }
+          }),
+          map((message) => message as WebSocketMessage<T>)
+        )
+        .subscribe(subscriber);
+    });
+  }
+
+  /**
+   * Send a message and wait for a response
+   */
+  request<TReq, TRes>(
+    type: string,
+    payload: TReq,
+    responseType: string,
+    timeout = 30000
+  ): Observable<TRes> {
+    const id = this.generateMessageId();
+
+    return new Observable<TRes>((subscriber) => {
+      const timeoutId = setTimeout(() => {
+        subscriber.error(new Error(`WebSocket request timeout: ${type}`));
+      }, timeout);
+
+      const subscription = this.messages$
+        .pipe(
+          filter((msg) => msg.type === responseType && msg.id === id),
+          map((msg) => msg.payload as TRes),
+          takeUntil(this.destroy$)
+        )
+        .subscribe({
+          next: (response) => {
+            clearTimeout(timeoutId);
+            subscriber.next(response);
+            subscriber.complete();
+          },
+          error: (err) => {
+            clearTimeout(timeoutId);
+            subscriber.error(err);
+          },
+        });
+
+      this.send({ type, payload, id });
+
+      return () => {
+        clearTimeout(timeoutId);
+        subscription.unsubscribe();
+      };
+    });
+  }
+
+  /**
+   * Close the connection for good
+   */
+  destroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+    this.disconnect();
+  }
+
+  private get topicProtocol(): WebSocketTopicProtocol {
+    return { ...DEFAULT_TOPIC_PROTOCOL, ...this.config?.topics };
+  }
+
+  /**
+   * Create the WebSocket connection
+   */
+  private createConnection(): void {
+    if (!this.config) return;
+
+    const codec = this.config.codec ?? jsonCodec();
+    this.socket$ = webSocket<WebSocketMessage | null>({
+      url: this.config.url,
+      protocol: this.config.protocols,
+      binaryType: codec.binaryType,
+      serializer: (message) => codec.encode(message as WebSocketMessage),
+      deserializer: (event) => this.decode(codec, event.data),
+      openObserver: {
+        next: () => {
+          this._state.set('connected');
+          this._error.set(null);
+          this.reconnectAttempts = 0;
+          this.startHeartbeat();
+          this.resubscribe();
+          this.flushQueue();
+          this.openedSubject.next();
+        },
+      },
+      closeObserver: {
+        next: (event) => {
+          this._state.set('disconnected');
+          this.stopHeartbeat();
+
+          if (this.config?.reconnect && !event.wasClean) {
+            this.attemptReconnect();
+          }
+        },
+      },
+    });
+
+    this.socket$
+      .pipe(
+        filter((message): message is WebSocketMessage => message !== null),
+        tap((message) => {
+          this._lastMessage.set(message);
+          this.messagesSubject.next(message);
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        error: (error) => {
+          this._error.set(error);
+          // An unclean close has already scheduled the reconnect
+          if (this._state() === 'reconnecting') return;
+          this._state.set('error');
+
+          if (this.config?.reconnect) {
+            this.attemptReconnect();
+          }
+        },
+      });
+  }
+
+  /**
+   * Decode a received frame; frames that cannot be decoded are skipped instead of closing the socket
+   */
+  private decode(codec: WebSocketCodec, frame: WebSocketFrame): WebSocketMessage | null {
+    try {
+      return codec.decode(frame);
+    } catch (error) {
+      console.warn('WebSocket frame could not be decoded:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Send a protocol message right away, bypassing the queue
+   */
+  private transmit(message: WebSocketMessage): void {
+    this.socket$?.next({ ...message, timestamp: Date.now(), id: message.id ?? this.generateMessageId() });
+  }
+
+  /**
+   * Subscribe to the active topics again on a new socket
+   */
+  private resubscribe(): void {
+    this.topics.forEach(({ params }, topic) => this.transmit(this.topicProtocol.subscribe(topic, params)));
+  }
+
+  /**
+   * Send queued messages in order
+   */
+  private flushQueue(): void {
+    if (this.queue.length === 0) return;
+
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach((message) => this.socket$?.next(message));
+    this.queueChanged();
+  }
+
+  private queueChanged(): void {
+    this._queued.set(this.queue.length);
+
+    if (this.config?.persistQueue && this.storage) {
+      if (this.queue.length > 0) {
+        this.storage.set(this.storageKey, this.queue);
+      } else {
+        this.storage.remove(this.storageKey);
+      }
+    }
+  }
+
+  /**
+   * Add messages persisted by an earlier session to the queue
+   */
+  private restoreQueue(): void {
+    const persisted = this.storage?.get<WebSocketMessage[]>(this.storageKey) ?? [];
+    const known = new Set(this.queue.map((message) => message.id));
+    this.queue = [...persisted.filter((message) => !known.has(message.id)), ...this.queue];
+    this.queueChanged();
+  }
+
+  private get storageKey(): string {
+    return `ws_queue_${this.name}`;
+  }
+
+  /**
+   * Attempt to reconnect
+   */
+  private attemptReconnect(): void {
+    if (!this.config) return;
+
+    const maxAttempts = this.config.reconnectAttempts ?? 10;
+    if (this.reconnectAttempts >= maxAttempts) {
+      this._error.set(new Error('Max reconnection attempts reached'));
+      return;
+    }
+
+    this._state.set('reconnecting');
+    this.reconnectAttempts++;
+
+    const delay = this.config.reconnectInterval ?? 3000;
+    timer(delay)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        if (this._state() === 'reconnecting') {
+          this.createConnection();
+        }
+      });
+  }
+
+  /**
+   * Start heartbeat to keep connection alive
+   */
+  private startHeartbeat(): void {
+    if (!this.config?.heartbeatInterval) return;
+
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (this._state() === 'connected') {
+        this.send({ type: 'ping', payload: null });
+      }
+    }, this.config.heartbeatInterval);
+  }
+
+  /**
+   * Stop heartbeat
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Generate a unique message ID
+   */
+  private generateMessageId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * @flyfront/data-access - WebSocket Service Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { StorageService } from '@flyfront/core';
+import { WebSocketService } from './websocket.service';
+import { WebSocketFrame, WebSocketMessage } from '../models/data-access.models';
+import { decodeMessagePack, encodeMessagePack } from '../utils/msgpack';
+import { envelopeCodec, msgpackCodec } from '../utils/websocket-codecs';
+
+/**
+ * Stand-in for the browser WebSocket, driven by the tests
+ */
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  binaryType: BinaryType = 'blob';
+  frames: WebSocketFrame[] = [];
+  onopen?: (event: Event) => void;
+  onclose?: (event: Partial<CloseEvent>) => void;
+  onmessage?: (event: Partial<MessageEvent>) => void;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  /** Sent JSON frames, parsed */
+  get sent(): WebSocketMessage[] {
+    return this.frames.map((frame) => JSON.parse(frame as string));
+  }
+
+  send(frame: WebSocketFrame): void {
+    this.frames.push(frame);
+  }
+
+  close(): void {
+    this.readyState = 3;
+  }
+
+  open(): void {
+    this.readyState = 1;
+    this.onopen?.(new Event('open'));
+  }
+
+  drop(): void {
+    this.readyState = 3;
+    this.onclose?.({ wasClean: false, code: 1006 });
+  }
+
+  receive(message: WebSocketMessage): void {
+    this.receiveFrame(JSON.stringify(message));
+  }
+
+  receiveFrame(data: WebSocketFrame): void {
+    this.onmessage?.({ data });
+  }
+}
+
+describe('WebSocketService', () => {
+  let ws: WebSocketService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    FakeWebSocket.instances = [];
+    localStorage.clear();
+    ws = TestBed.inject(WebSocketService);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should queue messages while disconnected and renew topics after a reconnect', () => {
+    const quotes: unknown[] = [];
+    ws.send({ type: 'hello', payload: 1 });
+    const subscription = ws.topic('quotes').subscribe((message) => quotes.push(message.payload));
+    expect(ws.queued()).toBe(1);
+
+    ws.connect({ url: 'wss://api.test/ws', heartbeatInterval: 0, reconnectInterval: 100 });
+    const first = FakeWebSocket.instances[0];
+    first.open();
+    expect(first.sent.map((message) => message.type)).toEqual(['subscribe', 'hello']);
+    expect(first.sent[0].payload).toEqual({ channel: 'quotes' });
+    expect(ws.queued()).toBe(0);
+
+    first.receive({ type: 'quote', payload: { channel: 'quotes', price: 10 } });
+    first.receive({ type: 'quote', payload: { channel: 'news' } });
+    expect(quotes).toEqual([{ channel: 'quotes', price: 10 }]);
+
+    first.drop();
+    expect(ws.state()).toBe('reconnecting');
+    ws.send({ type: 'while-down', payload: null });
+    vi.advanceTimersByTime(100);
+
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    const second = FakeWebSocket.instances[1];
+    second.open();
+    expect(second.sent.map((message) => message.type)).toEqual(['subscribe', 'while-down']);
+
+    subscription.unsubscribe();
+    expect(second.sent[second.sent.length - 1]).toMatchObject({ type: 'unsubscribe', payload: { channel: 'quotes' } });
+  });
+
+  it('should encode and decode frames with the configured codec', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    ws.connect({ url: 'wss://telemetry.test/ws', heartbeatInterval: 0, codec: msgpackCodec() });
+    const binary = FakeWebSocket.instances[0];
+    binary.open();
+    expect(binary.binaryType).toBe('arraybuffer');
+
+    ws.send({ type: 'tick', payload: { count: 300, values: [-1, -200, 1.5, 'é', null] } });
+    expect(decodeMessagePack(binary.frames[0] as Uint8Array)).toMatchObject({
+      type: 'tick',
+      payload: { count: 300, values: [-1, -200, 1.5, 'é', null] },
+    });
+    binary.receiveFrame(encodeMessagePack({ type: 'quote', payload: { price: 70000, delta: -40000 } }).buffer as ArrayBuffer);
+    expect(ws.lastMessage()).toEqual({ type: 'quote', payload: { price: 70000, delta: -40000 } });
+
+    const legacy = ws.connection('legacy');
+    const received: unknown[] = [];
+    legacy.on('welcome').subscribe((payload) => received.push(payload));
+    legacy.connect({
+      url: 'wss://legacy.test/ws',
+      heartbeatInterval: 0,
+      codec: envelopeCodec<{ event: string; data: unknown }>({
+        wrap: (message) => ({ event: message.type, data: message.payload }),
+        unwrap: (frame) => ({ type: frame.event, payload: frame.data }),
+      }),
+    });
+    const text = FakeWebSocket.instances[1];
+    text.open();
+
+    legacy.send({ type: 'join', payload: { room: 'lobby' } });
+    expect(text.frames).toEqual(['{"event":"join","data":{"room":"lobby"}}']);
+    text.receiveFrame('not json');
+    text.receiveFrame('{"event":"welcome","data":1}');
+    expect(received).toEqual([1]);
+    expect(legacy.state()).toBe('connected');
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep named connections independent', () => {
+    const market = ws.connection('market');
+    expect(ws.connection('market')).toBe(market);
+    expect(ws.connection('default')).toBe(ws);
+
+    market.connect({ url: 'wss://market.test/ws', heartbeatInterval: 0 });
+    FakeWebSocket.instances[0].open();
+    expect(market.state()).toBe('connected');
+    expect(ws.state()).toBe('disconnected');
+
+    const news = ws.connection('news');
+    news.connect({ url: 'wss://news.test/ws', persistQueue: true });
+    news.send({ type: 'read', payload: { id: 7 } });
+    expect(TestBed.inject(StorageService).get<WebSocketMessage[]>('ws_queue_news')).toEqual([
+      expect.objectContaining({ type: 'read', payload: { id: 7 } }),
+    ]);
+  });
+});
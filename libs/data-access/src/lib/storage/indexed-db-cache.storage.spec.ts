@@ -0,0 +1,115 @@
+/**
+ * @flyfront/data-access - IndexedDB Cache Storage Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { IDBFactory } from 'fake-indexeddb';
+import { CacheEntryMeta, IndexedDbCacheStorage, selectEvictions } from './indexed-db-cache.storage';
+import { PersistedCacheEntry } from '../models/data-access.models';
+
+function meta(key: string, size: number, lastAccessed: number): CacheEntryMeta {
+  return { key, size, lastAccessed, expiry: 0, staleUntil: 0, createdAt: 0, tags: [] };
+}
+
+function entry(key: string, data: unknown, tags: string[] = []): PersistedCacheEntry {
+  return { key, data, expiry: 1000, staleUntil: 2000, createdAt: 500, tags };
+}
+
+describe('selectEvictions', () => {
+  it('should evict least recently used entries until the total fits the quota', () => {
+    const entries = [meta('a', 400, 3), meta('b', 300, 1), meta('c', 200, 2), meta('d', 100, 4)];
+
+    expect(selectEvictions(entries, 1000)).toEqual([]);
+    expect(selectEvictions(entries, 700)).toEqual(['b']);
+    expect(selectEvictions(entries, 300)).toEqual(['b', 'c', 'a']);
+  });
+});
+
+describe('IndexedDbCacheStorage', () => {
+  it('should do nothing when IndexedDB is unavailable', async () => {
+    const storage = new IndexedDbCacheStorage();
+
+    await storage.set({ key: 'a', data: 1, expiry: 0, staleUntil: 0, createdAt: 0, tags: [] });
+
+    expect(await storage.entries()).toEqual([]);
+    expect(await storage.get('a')).toBeUndefined();
+  });
+});
+
+describe('IndexedDbCacheStorage with IndexedDB', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    // Distinct access times without faking the timers IndexedDB schedules its events with
+    vi.spyOn(Date, 'now').mockImplementation(() => ++now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should round-trip entries with their metadata', async () => {
+    const storage = new IndexedDbCacheStorage();
+
+    await storage.set(entry('users', [{ id: 1 }], ['api', 'users']));
+    await storage.set(entry('settings', { theme: 'dark' }, ['api']));
+
+    expect(await storage.get('users')).toEqual(entry('users', [{ id: 1 }], ['api', 'users']));
+    expect(await storage.get('missing')).toBeUndefined();
+    expect(await storage.entries()).toEqual(
+      expect.arrayContaining([entry('users', [{ id: 1 }], ['api', 'users']), entry('settings', { theme: 'dark' }, ['api'])])
+    );
+
+    await storage.deleteWhere((item) => item.tags.includes('users'));
+    await storage.delete('settings');
+    expect(await storage.entries()).toEqual([]);
+  });
+
+  it('should evict the least recently used entries once the quota is exceeded', async () => {
+    // Each payload serializes to 10 bytes
+    const storage = new IndexedDbCacheStorage({ quota: 25 });
+
+    await storage.set(entry('a', 'aaaaaaaa'));
+    await storage.set(entry('b', 'bbbbbbbb'));
+    await storage.touch('a');
+    await storage.set(entry('c', 'cccccccc'));
+
+    expect((await storage.entries()).map((item) => item.key).sort()).toEqual(['a', 'c']);
+
+    // Reading marks an entry as used as well
+    await storage.get('a');
+    await storage.set(entry('d', 'dddddddd'));
+    expect((await storage.entries()).map((item) => item.key).sort()).toEqual(['a', 'd']);
+
+    // An entry larger than the whole quota is not stored
+    await storage.set(entry('huge', 'x'.repeat(100)));
+    expect(await storage.get('huge')).toBeUndefined();
+  });
+
+  it('should open a database created at version 1 by an earlier release', async () => {
+    const legacy = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open('fly_cache', 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore('entries', { keyPath: 'key' });
+        request.result.createObjectStore('meta', { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    const tx = legacy.transaction(['entries', 'meta'], 'readwrite');
+    tx.objectStore('entries').put({ key: 'users', data: ['ada'] });
+    tx.objectStore('meta').put({ ...meta('users', 7, 1), expiry: 1000, staleUntil: 2000, createdAt: 500 });
+    await new Promise((resolve) => (tx.oncomplete = resolve));
+    legacy.close();
+
+    const storage = new IndexedDbCacheStorage();
+
+    expect(await storage.entries()).toEqual([entry('users', ['ada'])]);
+    await storage.set(entry('settings', {}));
+    expect(await storage.get('settings')).toEqual(entry('settings', {}));
+  });
+});
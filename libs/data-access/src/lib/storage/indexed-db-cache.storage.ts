@@ -0,0 +1,262 @@
+/**
+ * @flyfront/data-access - IndexedDB Cache Storage
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import {
+  CacheStorageAdapter,
+  IndexedDbCacheOptions,
+  PersistedCacheEntry,
+} from '../models/data-access.models';
+
+const DATA_STORE = 'entries';
+const META_STORE = 'meta';
+const DEFAULT_QUOTA = 50 * 1024 * 1024;
+
+/**
+ * Entry bookkeeping, kept apart from the data so eviction never reads payloads
+ */
+export interface CacheEntryMeta extends Omit<PersistedCacheEntry, 'data'> {
+  size: number;
+  lastAccessed: number;
+}
+
+/**
+ * Schema migrations; the database version is the number of migrations
+ *
+ * Append new steps, never edit released ones: `onupgradeneeded` runs every
+ * step after the version found on the user's device.
+ */
+const MIGRATIONS: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  // v1: payloads and bookkeeping keyed by cache key
+  (db) => {
+    db.createObjectStore(DATA_STORE, { keyPath: 'key' });
+    db.createObjectStore(META_STORE, { keyPath: 'key' });
+  },
+];
+
+/**
+ * Pick the least recently used entries to delete so the total size fits the quota
+ */
+export function selectEvictions(entries: CacheEntryMeta[], quota: number): string[] {
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const evicted: string[] = [];
+
+  for (const entry of [...entries].sort((a, b) => a.lastAccessed - b.lastAccessed)) {
+    if (total <= quota) {
+      break;
+    }
+    total -= entry.size;
+    evicted.push(entry.key);
+  }
+
+  return evicted;
+}
+
+/**
+ * Approximate serialized size of a payload in bytes
+ */
+function sizeOf(data: unknown): number {
+  if (data instanceof Blob) {
+    return data.size;
+  }
+  try {
+    return new TextEncoder().encode(JSON.stringify(data) ?? '').length;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * CacheService storage backend persisting entries in IndexedDB
+ *
+ * Tracks the size of every entry and evicts the least recently used ones
+ * when the total exceeds the quota. Entries are kept past their expiry so
+ * they can serve as an offline fallback. When IndexedDB is unavailable
+ * (server rendering, some private modes) every operation is a no-op.
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts
+ * providers: [provideIndexedDbCache({ quota: 20 * 1024 * 1024 })]
+ * ```
+ */
+export class IndexedDbCacheStorage implements CacheStorageAdapter {
+  private readonly name: string;
+  private readonly quota: number;
+  private db?: Promise<IDBDatabase | null>;
+
+  constructor(options: IndexedDbCacheOptions = {}) {
+    this.name = options.name ?? 'fly_cache';
+    this.quota = options.quota ?? DEFAULT_QUOTA;
+  }
+
+  async entries(): Promise<PersistedCacheEntry[]> {
+    const requests = await this.transaction('readonly', (data, meta) => ({
+      data: data.getAll() as IDBRequest<Array<Pick<PersistedCacheEntry, 'key' | 'data'>>>,
+      meta: meta.getAll() as IDBRequest<CacheEntryMeta[]>,
+    }));
+    if (!requests) {
+      return [];
+    }
+
+    const payloads = new Map(requests.data.result.map((record) => [record.key, record.data]));
+    return requests.meta.result
+      .filter((meta) => payloads.has(meta.key))
+      .map((meta) => ({
+        key: meta.key,
+        data: payloads.get(meta.key),
+        expiry: meta.expiry,
+        staleUntil: meta.staleUntil,
+        createdAt: meta.createdAt,
+        tags: meta.tags,
+      }));
+  }
+
+  async get(key: string): Promise<PersistedCacheEntry | undefined> {
+    const requests = await this.transaction('readwrite', (data, meta) => {
+      const metaRequest = meta.get(key) as IDBRequest<CacheEntryMeta | undefined>;
+      metaRequest.onsuccess = () => {
+        if (metaRequest.result) {
+          meta.put({ ...metaRequest.result, lastAccessed: Date.now() });
+        }
+      };
+      return {
+        data: data.get(key) as IDBRequest<Pick<PersistedCacheEntry, 'key' | 'data'> | undefined>,
+        meta: metaRequest,
+      };
+    });
+
+    const payload = requests?.data.result;
+    const meta = requests?.meta.result;
+    if (!payload || !meta) {
+      return undefined;
+    }
+
+    return {
+      key,
+      data: payload.data,
+      expiry: meta.expiry,
+      staleUntil: meta.staleUntil,
+      createdAt: meta.createdAt,
+      tags: meta.tags,
+    };
+  }
+
+  async set(entry: PersistedCacheEntry): Promise<void> {
+    const size = sizeOf(entry.data);
+
+    await this.transaction('readwrite', (data, meta) => {
+      if (size > this.quota) {
+        data.delete(entry.key);
+        meta.delete(entry.key);
+        return;
+      }
+
+      const { data: payload, ...info } = entry;
+      data.put({ key: entry.key, data: payload });
+      meta.put({ ...info, size, lastAccessed: Date.now() });
+
+      const all = meta.getAll() as IDBRequest<CacheEntryMeta[]>;
+      all.onsuccess = () => {
+        for (const key of selectEvictions(all.result, this.quota)) {
+          data.delete(key);
+          meta.delete(key);
+        }
+      };
+    });
+  }
+
+  async touch(key: string): Promise<void> {
+    await this.transaction('readwrite', (_data, meta) => {
+      const request = meta.get(key) as IDBRequest<CacheEntryMeta | undefined>;
+      request.onsuccess = () => {
+        if (request.result) {
+          meta.put({ ...request.result, lastAccessed: Date.now() });
+        }
+      };
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.transaction('readwrite', (data, meta) => {
+      data.delete(key);
+      meta.delete(key);
+    });
+  }
+
+  async deleteWhere(predicate: (entry: Pick<PersistedCacheEntry, 'key' | 'tags'>) => boolean): Promise<void> {
+    await this.transaction('readwrite', (data, meta) => {
+      const all = meta.getAll() as IDBRequest<CacheEntryMeta[]>;
+      all.onsuccess = () => {
+        for (const entry of all.result.filter(predicate)) {
+          data.delete(entry.key);
+          meta.delete(entry.key);
+        }
+      };
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.transaction('readwrite', (data, meta) => {
+      data.clear();
+      meta.clear();
+    });
+  }
+
+  /**
+   * Run an operation over both stores and resolve with its result once the transaction completes
+   */
+  private async transaction<T>(
+    mode: IDBTransactionMode,
+    operation: (data: IDBObjectStore, meta: IDBObjectStore) => T
+  ): Promise<T | undefined> {
+    const db = await this.open();
+    if (!db) {
+      return undefined;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction([DATA_STORE, META_STORE], mode);
+      const result = operation(tx.objectStore(DATA_STORE), tx.objectStore(META_STORE));
+      tx.oncomplete = () => resolve(result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Open the database, running pending schema migrations
+   */
+  private open(): Promise<IDBDatabase | null> {
+    this.db ??= new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(this.name, MIGRATIONS.length);
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+          MIGRATIONS[version](request.result, request.transaction as IDBTransaction);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version of the app upgrade the schema in another tab
+        db.onversionchange = () => {
+          db.close();
+          this.db = undefined;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        console.warn('IndexedDB cache storage is unavailable:', request.error);
+        resolve(null);
+      };
+    });
+
+    return this.db;
+  }
+}
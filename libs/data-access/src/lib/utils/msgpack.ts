@@ -0,0 +1,241 @@
+/**
+ * @flyfront/data-access - MessagePack
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { isObject } from '@flyfront/core';
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Encode a JSON-like value as MessagePack
+ *
+ * Follows JSON semantics: `undefined` properties are skipped, `toJSON()` is
+ * honoured (dates become strings) and `Uint8Array`/`ArrayBuffer` values are
+ * written as binary. Integers beyond 32 bits are written as float64.
+ */
+export function encodeMessagePack(value: unknown): Uint8Array {
+  const bytes: number[] = [];
+  write(value, bytes);
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Decode MessagePack bytes; extension types are not supported
+ */
+export function decodeMessagePack(bytes: Uint8Array): unknown {
+  const reader = { view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), offset: 0 };
+  const value = read(reader);
+  if (reader.offset !== bytes.byteLength) {
+    throw new Error(`Unexpected data after MessagePack value at byte ${reader.offset}`);
+  }
+  return value;
+}
+
+function pushBytes(bytes: number[], values: Uint8Array): void {
+  values.forEach((value) => bytes.push(value));
+}
+
+function pushUint(bytes: number[], value: number, size: 1 | 2 | 4): void {
+  for (let shift = (size - 1) * 8; shift >= 0; shift -= 8) {
+    bytes.push(Math.floor(value / 2 ** shift) & 0xff);
+  }
+}
+
+/**
+ * Header of a length-prefixed type: fix form when short, otherwise 8/16/32-bit length
+ */
+function pushHeader(bytes: number[], length: number, fix: [prefix: number, max: number] | null, codes: number[]): void {
+  if (fix && length <= fix[1]) {
+    bytes.push(fix[0] | length);
+  } else if (codes.length === 3 && length <= 0xff) {
+    bytes.push(codes[0], length);
+  } else if (length <= 0xffff) {
+    bytes.push(codes[codes.length - 2]);
+    pushUint(bytes, length, 2);
+  } else {
+    bytes.push(codes[codes.length - 1]);
+    pushUint(bytes, length, 4);
+  }
+}
+
+function writeNumber(value: number, bytes: number[]): void {
+  if (!Number.isInteger(value) || value < -0x80000000 || value > 0xffffffff) {
+    const buffer = new DataView(new ArrayBuffer(8));
+    buffer.setFloat64(0, value);
+    bytes.push(0xcb);
+    pushBytes(bytes, new Uint8Array(buffer.buffer));
+  } else if (value >= 0 && value <= 0x7f) {
+    bytes.push(value);
+  } else if (value >= 0) {
+    const size = value <= 0xff ? 1 : value <= 0xffff ? 2 : 4;
+    bytes.push({ 1: 0xcc, 2: 0xcd, 4: 0xce }[size]);
+    pushUint(bytes, value, size);
+  } else if (value >= -0x20) {
+    bytes.push(value & 0xff);
+  } else {
+    const size = value >= -0x80 ? 1 : value >= -0x8000 ? 2 : 4;
+    bytes.push({ 1: 0xd0, 2: 0xd1, 4: 0xd2 }[size]);
+    // Two's complement of the value in `size` bytes
+    pushUint(bytes, value + 2 ** (size * 8), size);
+  }
+}
+
+function write(value: unknown, bytes: number[]): void {
+  if (value === null || value === undefined) {
+    bytes.push(0xc0);
+  } else if (typeof value === 'boolean') {
+    bytes.push(value ? 0xc3 : 0xc2);
+  } else if (typeof value === 'number') {
+    writeNumber(value, bytes);
+  } else if (typeof value === 'string') {
+    const encoded = textEncoder.encode(value);
+    pushHeader(bytes, encoded.length, [0xa0, 31], [0xd9, 0xda, 0xdb]);
+    pushBytes(bytes, encoded);
+  } else if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+    const binary = value instanceof ArrayBuffer ? new Uint8Array(value) : value;
+    pushHeader(bytes, binary.length, null, [0xc4, 0xc5, 0xc6]);
+    pushBytes(bytes, binary);
+  } else if (Array.isArray(value)) {
+    pushHeader(bytes, value.length, [0x90, 15], [0xdc, 0xdd]);
+    value.forEach((item) => write(item, bytes));
+  } else if (isObject(value) && typeof value['toJSON'] === 'function') {
+    write((value['toJSON'] as () => unknown)(), bytes);
+  } else if (isObject(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    pushHeader(bytes, entries.length, [0x80, 15], [0xde, 0xdf]);
+    entries.forEach(([key, item]) => {
+      write(key, bytes);
+      write(item, bytes);
+    });
+  } else {
+    throw new TypeError(`Cannot encode ${typeof value} as MessagePack`);
+  }
+}
+
+interface Reader {
+  view: DataView;
+  offset: number;
+}
+
+function take(reader: Reader, size: number): number {
+  const offset = reader.offset;
+  if (offset + size > reader.view.byteLength) {
+    throw new Error('Truncated MessagePack data');
+  }
+  reader.offset += size;
+  return offset;
+}
+
+function readUint(reader: Reader, size: 1 | 2 | 4 | 8): number {
+  const offset = take(reader, size);
+  switch (size) {
+    case 1:
+      return reader.view.getUint8(offset);
+    case 2:
+      return reader.view.getUint16(offset);
+    case 4:
+      return reader.view.getUint32(offset);
+    default:
+      return Number(reader.view.getBigUint64(offset));
+  }
+}
+
+function readInt(reader: Reader, size: 1 | 2 | 4 | 8): number {
+  const offset = take(reader, size);
+  switch (size) {
+    case 1:
+      return reader.view.getInt8(offset);
+    case 2:
+      return reader.view.getInt16(offset);
+    case 4:
+      return reader.view.getInt32(offset);
+    default:
+      return Number(reader.view.getBigInt64(offset));
+  }
+}
+
+function readBytes(reader: Reader, length: number): Uint8Array {
+  const offset = take(reader, length);
+  return new Uint8Array(reader.view.buffer, reader.view.byteOffset + offset, length).slice();
+}
+
+function readString(reader: Reader, length: number): string {
+  return textDecoder.decode(readBytes(reader, length));
+}
+
+function readArray(reader: Reader, length: number): unknown[] {
+  return Array.from({ length }, () => read(reader));
+}
+
+function readMap(reader: Reader, length: number): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (let index = 0; index < length; index++) {
+    const key = read(reader);
+    result[String(key)] = read(reader);
+  }
+  return result;
+}
+
+function read(reader: Reader): unknown {
+  const code = readUint(reader, 1);
+
+  if (code <= 0x7f) return code;
+  if (code <= 0x8f) return readMap(reader, code & 0x0f);
+  if (code <= 0x9f) return readArray(reader, code & 0x0f);
+  if (code <= 0xbf) return readString(reader, code & 0x1f);
+  if (code >= 0xe0) return code - 0x100;
+
+  switch (code) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+      return readBytes(reader, readUint(reader, 1));
+    case 0xc5:
+      return readBytes(reader, readUint(reader, 2));
+    case 0xc6:
+      return readBytes(reader, readUint(reader, 4));
+    case 0xca:
+      return reader.view.getFloat32(take(reader, 4));
+    case 0xcb:
+      return reader.view.getFloat64(take(reader, 8));
+    case 0xcc:
+      return readUint(reader, 1);
+    case 0xcd:
+      return readUint(reader, 2);
+    case 0xce:
+      return readUint(reader, 4);
+    case 0xcf:
+      return readUint(reader, 8);
+    case 0xd0:
+      return readInt(reader, 1);
+    case 0xd1:
+      return readInt(reader, 2);
+    case 0xd2:
+      return readInt(reader, 4);
+    case 0xd3:
+      return readInt(reader, 8);
+    case 0xd9:
+      return readString(reader, readUint(reader, 1));
+    case 0xda:
+      return readString(reader, readUint(reader, 2));
+    case 0xdb:
+      return readString(reader, readUint(reader, 4));
+    case 0xdc:
+      return readArray(reader, readUint(reader, 2));
+    case 0xdd:
+      return readArray(reader, readUint(reader, 4));
+    case 0xde:
+      return readMap(reader, readUint(reader, 2));
+    case 0xdf:
+      return readMap(reader, readUint(reader, 4));
+    default:
+      throw new Error(`Unsupported MessagePack type 0x${code.toString(16)}`);
+  }
+}
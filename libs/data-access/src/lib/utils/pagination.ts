@@ -0,0 +1,83 @@
+/**
+ * @flyfront/data-access - Pagination Strategies
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import {
+  CursorPaginatedResponse,
+  PageInfo,
+  PaginatedResponse,
+  PaginationStrategy,
+} from '../models/data-access.models';
+
+/**
+ * Page-number pagination over `PaginatedResponse` (`?page=2&pageSize=20`)
+ *
+ * Starting past the first page lets the stream load earlier pages with `loadPrevious`.
+ *
+ * @example
+ * ```typescript
+ * api.createPaginatedStream<User>('/users', { strategy: pageNumberPagination({ initialPage: 3 }) });
+ * ```
+ */
+export function pageNumberPagination<T>(options?: {
+  initialPage?: number;
+}): PaginationStrategy<T, PaginatedResponse<T>> {
+  return {
+    initialCursor: options?.initialPage ?? 1,
+    params: (cursor, _direction, pageSize) => ({ page: cursor ?? options?.initialPage ?? 1, pageSize }),
+    pageInfo: ({ data, meta }) => ({
+      items: data,
+      nextCursor: meta.hasNextPage ? meta.page + 1 : null,
+      previousCursor: meta.hasPreviousPage ? meta.page - 1 : null,
+    }),
+  };
+}
+
+/**
+ * Cursor (keyset) pagination (`?after=abc&limit=20`, `?before=abc&limit=20`)
+ *
+ * Reads `CursorPaginatedResponse` unless `pageInfo` is given for other shapes.
+ *
+ * @example
+ * ```typescript
+ * // Chat history around a message: older pages are prepended, newer ones appended
+ * api.createPaginatedStream<Message, MessagePage>('/messages', {
+ *   strategy: cursorPagination({
+ *     initialCursor: anchorId,
+ *     pageInfo: (page) => ({ items: page.messages, nextCursor: page.newer, previousCursor: page.older }),
+ *   }),
+ * });
+ * ```
+ */
+export function cursorPagination<T, R = CursorPaginatedResponse<T>>(options?: {
+  /** Cursor of the first page (default: none, the server's first page) */
+  initialCursor?: string | null;
+  /** Query parameter of the cursor for following pages (default: 'after') */
+  afterParam?: string;
+  /** Query parameter of the cursor for preceding pages (default: 'before') */
+  beforeParam?: string;
+  /** Query parameter of the page size (default: 'limit') */
+  limitParam?: string;
+  /** Items and cursors of a response (default: `data` and `meta` of CursorPaginatedResponse) */
+  pageInfo?: (response: R) => PageInfo<T>;
+}): PaginationStrategy<T, R> {
+  const afterParam = options?.afterParam ?? 'after';
+  const beforeParam = options?.beforeParam ?? 'before';
+  const limitParam = options?.limitParam ?? 'limit';
+
+  return {
+    initialCursor: options?.initialCursor ?? null,
+    params: (cursor, direction, pageSize) => ({
+      [limitParam]: pageSize,
+      ...(cursor !== null ? { [direction === 'backward' ? beforeParam : afterParam]: cursor } : {}),
+    }),
+    pageInfo:
+      options?.pageInfo ??
+      ((response) => {
+        const { data, meta } = response as CursorPaginatedResponse<T>;
+        return { items: data, nextCursor: meta.nextCursor, previousCursor: meta.previousCursor };
+      }),
+  };
+}
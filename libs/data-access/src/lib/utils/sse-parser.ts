@@ -0,0 +1,108 @@
+/**
+ * @flyfront/data-access - Server-Sent Events Parser
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+/**
+ * An event dispatched by the `text/event-stream` format
+ */
+export interface SSEParsedEvent {
+  type: string;
+  data: string;
+  lastEventId: string;
+}
+
+const LINE_BREAK = /\r\n|\r|\n/g;
+
+/**
+ * Incremental parser of the `text/event-stream` format
+ *
+ * Chunks may split lines anywhere, including between the CR and LF of a line
+ * break. Follows the WHATWG interpretation: `id` persists across events, `retry`
+ * only accepts digits and events without `data` are not dispatched.
+ */
+export class SSEParser {
+  /** ID of the last event, sent back as `Last-Event-ID` on reconnect */
+  lastEventId = '';
+
+  /** Reconnection time from the last `retry:` field */
+  retry: number | null = null;
+
+  private buffer = '';
+  private started = false;
+  private data: string[] = [];
+  private eventType = '';
+
+  constructor(private readonly dispatch: (event: SSEParsedEvent) => void) {}
+
+  /** Parse the next chunk of the stream */
+  push(chunk: string): void {
+    let text = this.buffer + chunk;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      text = text.replace(/^\uFEFF/, '');
+    }
+
+    let start = 0;
+    LINE_BREAK.lastIndex = 0;
+    for (let match = LINE_BREAK.exec(text); match; match = LINE_BREAK.exec(text)) {
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (match[0] === '\r' && match.index === text.length - 1) break;
+      this.line(text.slice(start, match.index));
+      start = match.index + match[0].length;
+    }
+    this.buffer = text.slice(start);
+  }
+
+  /** Whether the text parsed so far ends between events */
+  get atEventBoundary(): boolean {
+    return this.buffer === '' && this.data.length === 0 && this.eventType === '';
+  }
+
+  /** Drop a partially received event, e.g. before reconnecting */
+  reset(): void {
+    this.buffer = '';
+    this.started = false;
+    this.data = [];
+    this.eventType = '';
+  }
+
+  private line(line: string): void {
+    if (line === '') {
+      this.flush();
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+    }
+  }
+
+  private flush(): void {
+    const data = this.data;
+    const type = this.eventType || 'message';
+    this.data = [];
+    this.eventType = '';
+    if (data.length > 0) {
+      this.dispatch({ type, data: data.join('\n'), lastEventId: this.lastEventId });
+    }
+  }
+}
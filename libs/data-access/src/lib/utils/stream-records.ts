@@ -0,0 +1,41 @@
+/**
+ * @flyfront/data-access - Stream Records
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { StreamFormat } from '../models/data-access.models';
+
+/**
+ * Incremental splitter of a streamed body into records
+ *
+ * Takes the text received so far, as reported by HttpClient progress events,
+ * and returns the records completed since the last call. Only the unfinished
+ * last line is kept between calls.
+ */
+export class StreamRecordReader {
+  private received = 0;
+  private pending = '';
+
+  constructor(private readonly format: StreamFormat) {}
+
+  /** Records completed by the text received so far; `final` flushes an unterminated last line */
+  read(text: string, final = false): string[] {
+    const chunk = text.slice(this.received);
+    this.received = Math.max(this.received, text.length);
+
+    if (this.format === 'text') {
+      return chunk ? [chunk] : [];
+    }
+
+    const lines = (this.pending + chunk).split('\n');
+    this.pending = lines.pop() ?? '';
+    if (final && this.pending) {
+      lines.push(this.pending);
+      this.pending = '';
+    }
+
+    const records = lines.map((line) => (line.endsWith('\r') ? line.slice(0, -1) : line));
+    return this.format === 'ndjson' ? records.filter((line) => line.trim() !== '') : records;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * @flyfront/data-access - Type Guards
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import {
+  ApiCircuitOpenError,
+  ApiGraphQLError,
+  ApiStreamParseError,
+  ApiTimeoutError,
+  ApiValidationError,
+  CIRCUIT_OPEN_ERROR_CODE,
+  GRAPHQL_ERROR_CODE,
+  STREAM_PARSE_ERROR_CODE,
+  TIMEOUT_ERROR_CODE,
+  VALIDATION_ERROR_CODE,
+} from '../models/data-access.models';
+
+/**
+ * Check if an error is a request timeout raised by ApiService
+ */
+export function isApiTimeoutError(error: unknown): error is ApiTimeoutError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as ApiTimeoutError).code === TIMEOUT_ERROR_CODE &&
+    typeof (error as ApiTimeoutError).timeout === 'number'
+  );
+}
+
+/**
+ * Check if an error is a request rejected by an open circuit
+ */
+export function isApiCircuitOpenError(error: unknown): error is ApiCircuitOpenError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as ApiCircuitOpenError).code === CIRCUIT_OPEN_ERROR_CODE &&
+    typeof (error as ApiCircuitOpenError).circuit === 'string'
+  );
+}
+
+/**
+ * Check if an error is a response that failed validation
+ */
+export function isApiValidationError(error: unknown): error is ApiValidationError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as ApiValidationError).code === VALIDATION_ERROR_CODE &&
+    typeof (error as ApiValidationError).details === 'object'
+  );
+}
+
+/**
+ * Check if an error is a GraphQL response carrying errors
+ */
+export function isApiGraphQLError(error: unknown): error is ApiGraphQLError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as ApiGraphQLError).code === GRAPHQL_ERROR_CODE &&
+    Array.isArray((error as ApiGraphQLError).errors)
+  );
+}
+
+/**
+ * Check if an error is a streamed record that failed to parse
+ */
+export function isApiStreamParseError(error: unknown): error is ApiStreamParseError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as ApiStreamParseError).code === STREAM_PARSE_ERROR_CODE &&
+    typeof (error as ApiStreamParseError).record === 'string'
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * @flyfront/data-access - WebSocket Codecs
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { WebSocketCodec, WebSocketFrame, WebSocketMessage } from '../models/data-access.models';
+import { decodeMessagePack, encodeMessagePack } from './msgpack';
+
+/**
+ * Bytes of a binary frame
+ */
+function toBytes(frame: WebSocketFrame): Uint8Array {
+  if (frame instanceof ArrayBuffer) {
+    return new Uint8Array(frame);
+  }
+  if (ArrayBuffer.isView(frame)) {
+    return new Uint8Array(frame.buffer, frame.byteOffset, frame.byteLength);
+  }
+  throw new TypeError('Expected a binary frame; set binaryType to "arraybuffer"');
+}
+
+/**
+ * JSON text frames (the default)
+ */
+export function jsonCodec<T = WebSocketMessage>(): WebSocketCodec<T> {
+  return {
+    encode: (value) => JSON.stringify(value),
+    decode: (frame) => JSON.parse(typeof frame === 'string' ? frame : new TextDecoder().decode(toBytes(frame))) as T,
+  };
+}
+
+/**
+ * MessagePack binary frames
+ *
+ * @example
+ * ```typescript
+ * ws.connect({ url: 'wss://telemetry.example.com/ws', codec: msgpackCodec() });
+ * ```
+ */
+export function msgpackCodec<T = WebSocketMessage>(): WebSocketCodec<T> {
+  return {
+    encode: (value) => encodeMessagePack(value),
+    decode: (frame) => decodeMessagePack(toBytes(frame)) as T,
+    binaryType: 'arraybuffer',
+  };
+}
+
+/**
+ * Map messages to and from a backend's own envelope, carried by another codec
+ *
+ * @example
+ * ```typescript
+ * // Backend speaking { event, data } JSON frames
+ * ws.connect({
+ *   url: 'wss://legacy.example.com/ws',
+ *   codec: envelopeCodec<{ event: string; data: unknown }>({
+ *     wrap: (message) => ({ event: message.type, data: message.payload }),
+ *     unwrap: (frame) => ({ type: frame.event, payload: frame.data }),
+ *   }),
+ * });
+ * ```
+ */
+export function envelopeCodec<E>(
+  envelope: {
+    wrap(message: WebSocketMessage): E;
+    /** Message of an envelope; null to ignore it */
+    unwrap(envelope: E): WebSocketMessage | null;
+  },
+  format: WebSocketCodec<E> = jsonCodec<E>()
+): WebSocketCodec {
+  return {
+    encode: (message) => format.encode(envelope.wrap(message)),
+    decode: (frame) => {
+      const decoded = format.decode(frame);
+      return decoded === null ? null : envelope.unwrap(decoded);
+    },
+    binaryType: format.binaryType,
+  };
+}
@@ -18,6 +18,7 @@ export * from './lib/components/switch/switch.component';
 
 // Feedback Components
 export * from './lib/components/dialog/dialog.component';
+export * from './lib/components/session-timeout/session-timeout-dialog.component';
 export * from './lib/components/toast/toast.component';
 export * from './lib/components/alert/alert.component';
 export * from './lib/components/progress/progress.component';
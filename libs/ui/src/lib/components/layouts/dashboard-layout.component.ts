@@ -59,6 +59,7 @@ export interface BreadcrumbItem {
  * - Collapsible sidebar navigation
  * - Header with breadcrumbs and user menu
  * - Footer support
+ * - Optional remaining session time indicator
  * - Responsive design with mobile menu
  *
  * @example
@@ -68,6 +69,7 @@ export interface BreadcrumbItem {
  *   [breadcrumbs]="breadcrumbs"
  *   [userName]="user.name"
  *   [userAvatar]="user.avatar"
+ *   [sessionTimeRemaining]="idle.remainingSeconds()"
  *   (navItemClick)="onNavClick($event)"
  *   (logout)="onLogout()"
  * >
@@ -209,6 +211,17 @@ export interface BreadcrumbItem {
           <!-- Header actions slot -->
           <ng-content select="[header-actions]"></ng-content>
 
+          <!-- Remaining session time -->
+          @if (sessionTimeRemaining !== null) {
+            <span
+              [class]="sessionTimeClasses()"
+              [attr.title]="sessionTimeLabel"
+              [attr.aria-label]="sessionTimeLabel + ' ' + formatSessionTime(sessionTimeRemaining)"
+            >
+              {{ formatSessionTime(sessionTimeRemaining) }}
+            </span>
+          }
+
           <!-- User menu -->
           @if (userName) {
             <div class="flex items-center gap-3">
@@ -287,6 +300,15 @@ export class DashboardLayoutComponent {
   /** Sidebar width when collapsed */
   @Input() sidebarCollapsedWidth = '4rem';
 
+  /** Remaining session time in seconds (hidden when null) */
+  @Input() sessionTimeRemaining: number | null = null;
+
+  /** Seconds below which the session time is highlighted */
+  @Input() sessionTimeWarningThreshold = 60;
+
+  /** Accessible label for the session time */
+  @Input() sessionTimeLabel = 'Session expires in';
+
   /** Event emitted when a nav item is clicked */
   @Output() navItemClick = new EventEmitter<DashboardNavItem>();
 
@@ -317,6 +339,26 @@ export class DashboardLayoutComponent {
     return `min-h-screen flex flex-col transition-all duration-200 ${margin}`;
   });
 
+  /**
+   * Get session time CSS classes
+   */
+  sessionTimeClasses(): string {
+    const base = 'hidden sm:inline-flex px-2 py-1 rounded-md text-xs font-medium tabular-nums';
+    const warning = (this.sessionTimeRemaining ?? Infinity) <= this.sessionTimeWarningThreshold;
+    return `${base} ${warning ? 'bg-red-50 text-red-600' : 'bg-gray-100 text-gray-600'}`;
+  }
+
+  /**
+   * Format seconds as `m:ss` (or `h:mm:ss`)
+   */
+  formatSessionTime(totalSeconds: number): string {
+    const total = Math.max(0, Math.ceil(totalSeconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const seconds = (total % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+  }
+
   /**
    * Toggle mobile sidebar visibility
    */
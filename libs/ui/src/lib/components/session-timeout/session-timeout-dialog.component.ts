@@ -0,0 +1,101 @@
+/**
+ * @flyfront/ui - Session Timeout Dialog Component
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  computed,
+  effect,
+  untracked,
+  viewChild,
+} from '@angular/core';
+import { DialogComponent } from '../dialog/dialog.component';
+
+/**
+ * Countdown dialog warning that the session is about to end
+ *
+ * Purely presentational: the parent decides when it is open and supplies the
+ * remaining time, and reacts to the `stay` and `signOut` outputs.
+ *
+ * @example
+ * ```html
+ * <fly-session-timeout-dialog
+ *   [open]="idle.isWarning()"
+ *   [remainingSeconds]="idle.remainingSeconds() ?? 0"
+ *   (stay)="idle.keepAlive()"
+ *   (signOut)="auth.logout()"
+ * />
+ * ```
+ */
+@Component({
+  selector: 'fly-session-timeout-dialog',
+  standalone: true,
+  imports: [DialogComponent],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <fly-dialog
+      [title]="title()"
+      size="sm"
+      [closable]="false"
+      [closeOnBackdrop]="false"
+      [closeOnEscape]="false"
+      [confirmText]="stayText()"
+      [cancelText]="signOutText()"
+      (confirmed)="stay.emit()"
+      (cancelled)="signOut.emit()"
+    >
+      <p class="text-sm text-gray-600 m-0">{{ message() }}</p>
+      <p class="mt-4 mb-0 text-3xl font-semibold text-gray-900 text-center tabular-nums" role="timer" aria-live="polite">
+        {{ countdown() }}
+      </p>
+    </fly-dialog>
+  `,
+})
+export class SessionTimeoutDialogComponent {
+  /** Whether the dialog is shown */
+  readonly open = input<boolean>(false);
+
+  /** Seconds left before the session ends */
+  readonly remainingSeconds = input<number>(0);
+
+  readonly title = input<string>('Your session is about to expire');
+  readonly message = input<string>('You will be signed out due to inactivity.');
+  readonly stayText = input<string>('Stay signed in');
+  readonly signOutText = input<string>('Sign out');
+
+  /** Emitted when the user chooses to keep the session */
+  readonly stay = output<void>();
+
+  /** Emitted when the user chooses to sign out */
+  readonly signOut = output<void>();
+
+  private readonly dialog = viewChild.required(DialogComponent);
+
+  /** Remaining time formatted as `m:ss` */
+  readonly countdown = computed(() => {
+    const total = Math.max(0, Math.ceil(this.remainingSeconds()));
+    const minutes = Math.floor(total / 60);
+    const seconds = total % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  });
+
+  constructor() {
+    effect(() => {
+      const open = this.open();
+      const dialog = this.dialog();
+
+      untracked(() => {
+        if (open && !dialog.isOpen()) {
+          dialog.open();
+        } else if (!open && dialog.isOpen()) {
+          dialog.close();
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * @flyfront/workspace-plugin - API Client Generator Tests
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Tree, addProjectConfiguration } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { apiClientGenerator } from './generator';
+
+const SPEC = 'specs/petstore.yaml';
+const OUTPUT = 'apps/shop/src/lib/petstore';
+
+describe('api-client generator', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    addProjectConfiguration(tree, 'shop', { root: 'apps/shop', sourceRoot: 'apps/shop/src' });
+    tree.write(SPEC, readFileSync(join(__dirname, '__fixtures__/petstore.yaml'), 'utf-8'));
+  });
+
+  it('should generate models from the schema components', async () => {
+    await apiClientGenerator(tree, { spec: SPEC, project: 'shop', directory: 'petstore', skipFormat: true });
+
+    const models = tree.read(`${OUTPUT}/models.ts`, 'utf-8');
+    expect(models).toContain(`export type PetStatus = "available" | "pending" | "sold";`);
+    expect(models).toContain('export interface NewPet {\nname: string;\ntag?: string | null;\n}');
+    expect(models).toContain('/**\n * A pet in the store\n */\nexport type Pet = NewPet & {\nid: number;\nstatus?: PetStatus;\n};');
+    expect(models).toContain('export interface Error {');
+  });
+
+  it('should generate one ApiService-based service per tag', async () => {
+    await apiClientGenerator(tree, { spec: SPEC, project: 'shop', directory: 'petstore', skipFormat: true });
+
+    const pets = tree.read(`${OUTPUT}/pets-api.service.ts`, 'utf-8');
+    expect(pets).toContain(`import { NewPet, Pet, PetStatus } from './models';`);
+    expect(pets).toContain('export class PetsApiService {');
+    expect(pets).toContain(
+      "listPets(query?: {\n/**\n * How many items to return at one time (max 100)\n */\nlimit?: number;\nstatus?: PetStatus;\n}, config?: RequestConfig): Observable<Pet[]> {\n    return this.api.get<Pet[]>(`/pets`, { ...config, params: query as RequestConfig['params'] });"
+    );
+    expect(pets).toContain('createPet(body: NewPet, config?: RequestConfig): Observable<Pet> {');
+    expect(pets).toContain('return this.api.post<Pet>(`/pets`, body, config);');
+    expect(pets).toContain(
+      'showPetById(petId: number, config?: RequestConfig): Observable<Pet> {\n    return this.api.get<Pet>(`/pets/${encodeURIComponent(String(petId))}`, config);'
+    );
+    expect(pets).toContain('   * @deprecated\n   */\n  deletePetsByPetId(petId: number, config?: RequestConfig): Observable<void> {');
+    expect(pets).toContain('getPetPhoto(petId: number, config?: RequestConfig): Observable<Blob> {\n    return this.api.download(');
+
+    const store = tree.read(`${OUTPUT}/store-api.service.ts`, 'utf-8');
+    expect(store).toContain('getInventory(config?: RequestConfig): Observable<Record<string, number>>');
+    expect(store).not.toContain('./models');
+
+    expect(tree.read(`${OUTPUT}/index.ts`, 'utf-8')).toContain(
+      "export * from './models';\nexport * from './pets-api.service';\nexport * from './store-api.service';"
+    );
+  });
+
+  it('should reject documents that are not OpenAPI 3', async () => {
+    tree.write('specs/swagger.json', JSON.stringify({ swagger: '2.0', paths: {} }));
+
+    await expect(apiClientGenerator(tree, { spec: 'specs/swagger.json', project: 'shop' })).rejects.toThrow(
+      'specs/swagger.json is not an OpenAPI 3 document'
+    );
+  });
+});
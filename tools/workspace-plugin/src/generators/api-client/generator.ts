@@ -0,0 +1,59 @@
+/**
+ * @flyfront/workspace-plugin - API Client Generator
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { Tree, formatFiles, joinPathFragments, readProjectConfiguration } from '@nx/devkit';
+import { parseSpec } from './lib/openapi';
+import { renderModels, renderServices } from './lib/render';
+import { ApiClientGeneratorSchema } from './schema';
+
+/**
+ * Generate typed models and injectable services from an OpenAPI 3 spec
+ *
+ * Writes `models.ts` (one type per schema component), one
+ * `<tag>-api.service.ts` per operation tag calling `ApiService`, and an
+ * `index.ts` to `<sourceRoot>/lib/<directory>` of the target project.
+ * Generating again overwrites the files.
+ *
+ * @example
+ * ```bash
+ * nx g @flyfront/workspace-plugin:api-client --spec=specs/billing.yaml --project=demo-app --directory=billing
+ * ```
+ */
+export async function apiClientGenerator(tree: Tree, options: ApiClientGeneratorSchema): Promise<void> {
+  const content = tree.read(options.spec, 'utf-8');
+  if (content === null) {
+    throw new Error(`Cannot find the OpenAPI spec ${options.spec}`);
+  }
+
+  const document = parseSpec(content, options.spec);
+  const project = readProjectConfiguration(tree, options.project);
+  const sourceRoot = project.sourceRoot ?? joinPathFragments(project.root, 'src');
+  const directory = joinPathFragments(sourceRoot, 'lib', options.directory ?? 'api');
+  const header = `// Generated by @flyfront/workspace-plugin:api-client from ${options.spec}. Do not edit.`;
+
+  const hasModels = Object.keys(document.components?.schemas ?? {}).length > 0;
+  if (hasModels) {
+    tree.write(joinPathFragments(directory, 'models.ts'), renderModels(document, header));
+  }
+
+  const services = renderServices(document, header);
+  services.forEach((service) => tree.write(joinPathFragments(directory, service.fileName), service.source));
+
+  const exports = [
+    ...(hasModels ? ['models'] : []),
+    ...services.map((service) => service.fileName.replace(/\.ts$/, '')),
+  ];
+  tree.write(
+    joinPathFragments(directory, 'index.ts'),
+    `${header}\n\n${exports.map((file) => `export * from './${file}';`).join('\n')}\n`
+  );
+
+  if (!options.skipFormat) {
+    await formatFiles(tree);
+  }
+}
+
+export default apiClientGenerator;
@@ -0,0 +1,186 @@
+/**
+ * @flyfront/workspace-plugin - OpenAPI Document
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { parse } from 'yaml';
+
+/**
+ * Reference to a component of the document
+ */
+export interface ReferenceObject {
+  $ref: string;
+}
+
+/**
+ * Schema object (the subset the generator understands)
+ */
+export interface SchemaObject {
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  enum?: Array<string | number | boolean | null>;
+  items?: SchemaObject | ReferenceObject;
+  properties?: Record<string, SchemaObject | ReferenceObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject | ReferenceObject;
+  allOf?: Array<SchemaObject | ReferenceObject>;
+  oneOf?: Array<SchemaObject | ReferenceObject>;
+  anyOf?: Array<SchemaObject | ReferenceObject>;
+  nullable?: boolean;
+  deprecated?: boolean;
+}
+
+export interface ParameterObject {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  description?: string;
+  required?: boolean;
+  schema?: SchemaObject | ReferenceObject;
+}
+
+export interface MediaTypeObject {
+  schema?: SchemaObject | ReferenceObject;
+}
+
+export interface RequestBodyObject {
+  description?: string;
+  required?: boolean;
+  content?: Record<string, MediaTypeObject>;
+}
+
+export interface ResponseObject {
+  description?: string;
+  content?: Record<string, MediaTypeObject>;
+}
+
+export interface OperationObject {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: Array<ParameterObject | ReferenceObject>;
+  requestBody?: RequestBodyObject | ReferenceObject;
+  responses?: Record<string, ResponseObject | ReferenceObject>;
+}
+
+export type PathItemObject = Partial<Record<HttpMethod, OperationObject>> & {
+  parameters?: Array<ParameterObject | ReferenceObject>;
+};
+
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  paths?: Record<string, PathItemObject>;
+  components?: {
+    schemas?: Record<string, SchemaObject | ReferenceObject>;
+    parameters?: Record<string, ParameterObject | ReferenceObject>;
+    requestBodies?: Record<string, RequestBodyObject | ReferenceObject>;
+    responses?: Record<string, ResponseObject | ReferenceObject>;
+  };
+}
+
+/**
+ * Methods ApiService can send
+ */
+export const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+/**
+ * Operation with its path and inherited parameters resolved
+ */
+export interface Operation {
+  method: HttpMethod;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tag: string;
+  deprecated: boolean;
+  parameters: ParameterObject[];
+  requestBody?: RequestBodyObject;
+  responses: Record<string, ResponseObject>;
+}
+
+export function isReference(value: unknown): value is ReferenceObject {
+  return typeof value === 'object' && value !== null && '$ref' in value;
+}
+
+/**
+ * Parse an OpenAPI 3 document from JSON or YAML
+ */
+export function parseSpec(content: string, source: string): OpenApiDocument {
+  // JSON is a subset of YAML
+  const document = parse(content) as OpenApiDocument | null;
+  if (!document || typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+    throw new Error(`${source} is not an OpenAPI 3 document`);
+  }
+  return document;
+}
+
+/**
+ * Name of the component a reference points to
+ */
+export function refName(ref: ReferenceObject): string {
+  return ref.$ref.slice(ref.$ref.lastIndexOf('/') + 1);
+}
+
+/**
+ * Follow a local reference (`#/components/...`) to its target
+ */
+export function resolveRef<T>(document: OpenApiDocument, value: T | ReferenceObject, seen = new Set<string>()): T {
+  if (!isReference(value)) {
+    return value;
+  }
+  if (!value.$ref.startsWith('#/') || seen.has(value.$ref)) {
+    throw new Error(`Cannot resolve reference ${value.$ref}`);
+  }
+
+  const target = value.$ref
+    .slice(2)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((node, segment) => (node as Record<string, unknown> | undefined)?.[segment], document);
+  if (target === undefined) {
+    throw new Error(`Cannot resolve reference ${value.$ref}`);
+  }
+  return resolveRef(document, target as T | ReferenceObject, seen.add(value.$ref));
+}
+
+/**
+ * All operations of the document, in document order
+ */
+export function collectOperations(document: OpenApiDocument): Operation[] {
+  return Object.entries(document.paths ?? {}).flatMap(([path, item]) =>
+    HTTP_METHODS.filter((method) => item[method]).map((method) => {
+      const operation = item[method] as OperationObject;
+      const parameters = new Map<string, ParameterObject>();
+
+      // Operation parameters override path-level ones with the same name and location
+      [...(item.parameters ?? []), ...(operation.parameters ?? [])]
+        .map((parameter) => resolveRef(document, parameter))
+        .forEach((parameter) => parameters.set(`${parameter.in}:${parameter.name}`, parameter));
+
+      return {
+        method,
+        path,
+        operationId: operation.operationId,
+        summary: operation.summary,
+        description: operation.description,
+        tag: operation.tags?.[0] ?? 'default',
+        deprecated: operation.deprecated ?? false,
+        parameters: [...parameters.values()],
+        requestBody: operation.requestBody && resolveRef(document, operation.requestBody),
+        responses: Object.fromEntries(
+          Object.entries(operation.responses ?? {}).map(([status, response]) => [
+            status,
+            resolveRef(document, response),
+          ])
+        ),
+      };
+    })
+  );
+}
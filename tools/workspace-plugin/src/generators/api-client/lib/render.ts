@@ -0,0 +1,324 @@
+/**
+ * @flyfront/workspace-plugin - API Client Rendering
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+import { names } from '@nx/devkit';
+import {
+  OpenApiDocument,
+  Operation,
+  ParameterObject,
+  ReferenceObject,
+  SchemaObject,
+  collectOperations,
+  isReference,
+  refName,
+} from './openapi';
+
+const JSON_CONTENT = /^application\/(.+\+)?json/;
+const FORM_CONTENT = /^(multipart\/form-data|application\/x-www-form-urlencoded)/;
+const SUCCESS_STATUSES = ['200', '201', '202', '203', '206', '2XX', '204'];
+
+/**
+ * TypeScript name of a schema component
+ */
+export function typeName(name: string): string {
+  const className = names(name).className.replace(/[^\w$]/g, '');
+  return /^\d/.test(className) ? `_${className}` : className;
+}
+
+/**
+ * TypeScript type of a schema
+ */
+export function schemaType(schema: SchemaObject | ReferenceObject | undefined): string {
+  if (!schema) {
+    return 'unknown';
+  }
+  if (isReference(schema)) {
+    return typeName(refName(schema));
+  }
+
+  const type = baseType(schema);
+  const nullable = schema.nullable || (Array.isArray(schema.type) && schema.type.includes('null'));
+  return nullable && type !== 'unknown' ? `${type} | null` : type;
+}
+
+function baseType(schema: SchemaObject): string {
+  if (schema.enum) {
+    return schema.enum
+      .filter((value) => value !== null)
+      .map((value) => JSON.stringify(value))
+      .join(' | ');
+  }
+  if (schema.allOf) {
+    return schema.allOf.map((part) => parenthesize(schemaType(part))).join(' & ');
+  }
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants) {
+    return variants.map((part) => parenthesize(schemaType(part))).join(' | ');
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((item) => item !== 'null') : schema.type;
+  switch (type) {
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return `${parenthesize(schemaType(schema.items))}[]`;
+    case 'object':
+    case undefined:
+      if (schema.properties) {
+        return `{\n${members(schema).join('\n')}\n}`;
+      }
+      if (schema.additionalProperties) {
+        return `Record<string, ${additionalType(schema)}>`;
+      }
+      return type === 'object' ? 'Record<string, unknown>' : 'unknown';
+    default:
+      return 'unknown';
+  }
+}
+
+function additionalType(schema: SchemaObject): string {
+  return typeof schema.additionalProperties === 'object' ? schemaType(schema.additionalProperties) : 'unknown';
+}
+
+/**
+ * Property signatures of an object schema
+ */
+function members(schema: SchemaObject): string[] {
+  const required = new Set(schema.required ?? []);
+  const properties = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const docs = isReference(property) ? '' : docComment([property.description], property.deprecated);
+    return `${docs}${propertyKey(name)}${required.has(name) ? '' : '?'}: ${schemaType(property)};`;
+  });
+
+  // Declared properties must fit the index signature, so it stays loose
+  return schema.additionalProperties ? [...properties, '[key: string]: unknown;'] : properties;
+}
+
+function parenthesize(type: string): string {
+  return /[|&]/.test(type) ? `(${type})` : type;
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * JSDoc block from description lines, empty when there is nothing to say
+ */
+function docComment(lines: Array<string | undefined>, deprecated = false, indent = ''): string {
+  const text = lines
+    .filter((line): line is string => !!line?.trim())
+    .flatMap((line, index) => [...(index > 0 ? [''] : []), ...line.trim().split('\n')])
+    .map((line) => line.replace(/\*\//g, '*\\/'));
+  if (deprecated) {
+    text.push('@deprecated');
+  }
+  if (text.length === 0) {
+    return '';
+  }
+  return `${indent}/**\n${text.map((line) => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`;
+}
+
+/**
+ * Render `models.ts` from the schema components
+ */
+export function renderModels(document: OpenApiDocument, header: string): string {
+  const declarations = Object.entries(document.components?.schemas ?? {}).map(([name, schema]) => {
+    const docs = isReference(schema) ? '' : docComment([schema.description], schema.deprecated);
+    const isInterface =
+      !isReference(schema) &&
+      !!schema.properties &&
+      !schema.allOf &&
+      !schema.oneOf &&
+      !schema.anyOf &&
+      !schema.enum &&
+      !schema.nullable;
+
+    return isInterface
+      ? `${docs}export interface ${typeName(name)} {\n${members(schema).join('\n')}\n}`
+      : `${docs}export type ${typeName(name)} = ${schemaType(schema)};`;
+  });
+
+  return `${header}\n\n${declarations.join('\n\n')}\n`;
+}
+
+/**
+ * Render one service per tag, keyed by file name
+ */
+export function renderServices(
+  document: OpenApiDocument,
+  header: string
+): Array<{ fileName: string; className: string; source: string }> {
+  const byTag = new Map<string, Operation[]>();
+  collectOperations(document).forEach((operation) =>
+    byTag.set(operation.tag, [...(byTag.get(operation.tag) ?? []), operation])
+  );
+  const modelNames = Object.keys(document.components?.schemas ?? {}).map(typeName);
+  const title = [document.info?.title, document.info?.version].filter(Boolean).join(' ');
+
+  return [...byTag.entries()].map(([tag, operations]) => {
+    const { className, fileName } = names(tag);
+    const serviceName = `${className.replace(/[^\w$]/g, '')}ApiService`;
+    const usedNames = new Set<string>();
+    const methods = operations.map((operation) => renderMethod(operation, usedNames));
+    const body = methods.join('\n\n');
+    const models = modelNames.filter((model) => new RegExp(`\\b${model}\\b`).test(body)).sort();
+
+    const imports = [
+      `import { Injectable, inject } from '@angular/core';`,
+      `import { Observable } from 'rxjs';`,
+      `import { ApiService, RequestConfig } from '@flyfront/data-access';`,
+      ...(models.length > 0 ? [`import { ${models.join(', ')} } from './models';`] : []),
+    ];
+    const docs = docComment([
+      `\`${tag}\` operations${title ? ` of ${title}` : ''}`,
+      'Requests go through ApiService, so failures error with an `ApiErrorResponse`.',
+    ]);
+
+    return {
+      fileName: `${fileName}-api.service.ts`,
+      className: serviceName,
+      source: [
+        header,
+        '',
+        imports.join('\n'),
+        '',
+        `${docs}@Injectable({ providedIn: 'root' })`,
+        `export class ${serviceName} {`,
+        '  private readonly api = inject(ApiService);',
+        '',
+        body,
+        '}',
+        '',
+      ].join('\n'),
+    };
+  });
+}
+
+function renderMethod(operation: Operation, usedNames: Set<string>): string {
+  const name = uniqueName(methodName(operation), usedNames);
+  const pathParams = pathParameters(operation);
+  const queryParams = operation.parameters.filter((parameter) => parameter.in === 'query');
+  const body = requestBodyType(operation);
+  const response = responseType(operation);
+
+  const args = [
+    ...pathParams.map(({ argument, parameter }) => `${argument}: ${schemaType(parameter.schema)}`),
+    ...(body ? [`body: ${body}`] : []),
+    ...(queryParams.length > 0
+      ? [
+          `query${queryParams.some((parameter) => parameter.required) ? '' : '?'}: {\n${queryParams
+            .map(
+              (parameter) =>
+                `${docComment([parameter.description])}${propertyKey(parameter.name)}${parameter.required ? '' : '?'}: ${schemaType(parameter.schema)};`
+            )
+            .join('\n')}\n}`,
+        ]
+      : []),
+    'config?: RequestConfig',
+  ];
+
+  const url = `\`${operation.path.replace(/\{([^}]+)\}/g, (_match, param: string) => {
+    const argument = pathParams.find(({ parameter }) => parameter.name === param)?.argument ?? names(param).propertyName;
+    return `\${encodeURIComponent(String(${argument}))}`;
+  })}\``;
+  const config =
+    queryParams.length > 0 ? `{ ...config, params: query as RequestConfig['params'] }` : 'config';
+
+  let call: string;
+  switch (operation.method) {
+    case 'get':
+      call =
+        response === 'Blob'
+          ? `this.api.download(${url}, ${config})`
+          : `this.api.get<${response}>(${url}, ${config})`;
+      break;
+    case 'delete':
+      call = `this.api.delete<${response}>(${url}, ${config})`;
+      break;
+    default:
+      call = `this.api.${operation.method}<${response}>(${url}, ${body ? 'body' : 'null'}, ${config})`;
+  }
+
+  const docs = docComment(
+    [operation.summary, operation.description, `\`${operation.method.toUpperCase()} ${operation.path}\``],
+    operation.deprecated,
+    '  '
+  );
+  return `${docs}  ${name}(${args.join(', ')}): Observable<${response}> {\n    return ${call};\n  }`;
+}
+
+function methodName(operation: Operation): string {
+  if (operation.operationId) {
+    return names(operation.operationId).propertyName.replace(/[^\w$]/g, '');
+  }
+
+  // GET /pets/{petId}/photos -> getPetsByPetIdPhotos
+  const segments = operation.path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      const param = /^\{(.+)\}$/.exec(segment)?.[1];
+      return param ? `By${names(param).className}` : names(segment).className;
+    });
+  return `${operation.method}${segments.join('')}`.replace(/[^\w$]/g, '');
+}
+
+function uniqueName(name: string, usedNames: Set<string>): string {
+  let unique = name;
+  for (let index = 2; usedNames.has(unique); index++) {
+    unique = `${name}${index}`;
+  }
+  usedNames.add(unique);
+  return unique;
+}
+
+/**
+ * Path parameters in the order they appear in the path
+ */
+function pathParameters(operation: Operation): Array<{ argument: string; parameter: ParameterObject }> {
+  return [...operation.path.matchAll(/\{([^}]+)\}/g)].map(([, param]) => ({
+    argument: names(param).propertyName.replace(/[^\w$]/g, ''),
+    parameter: operation.parameters.find(
+      (parameter) => parameter.in === 'path' && parameter.name === param
+    ) ?? { name: param, in: 'path', schema: { type: 'string' } },
+  }));
+}
+
+function requestBodyType(operation: Operation): string | undefined {
+  const content = operation.requestBody?.content;
+  if (!content) {
+    return undefined;
+  }
+
+  const json = Object.keys(content).find((type) => JSON_CONTENT.test(type));
+  if (json) {
+    return schemaType(content[json].schema);
+  }
+  return Object.keys(content).some((type) => FORM_CONTENT.test(type)) ? 'FormData' : 'Blob';
+}
+
+/**
+ * Type of the first success response; `Blob` for binary content, `void` without content
+ */
+function responseType(operation: Operation): string {
+  const status = SUCCESS_STATUSES.find((code) => operation.responses[code]);
+  const content = status ? operation.responses[status].content : undefined;
+  if (!content || Object.keys(content).length === 0) {
+    return 'void';
+  }
+
+  const json = Object.keys(content).find((type) => JSON_CONTENT.test(type));
+  if (json) {
+    return schemaType(content[json].schema);
+  }
+  return operation.method === 'get' ? 'Blob' : 'unknown';
+}
@@ -0,0 +1,6 @@
+export interface ApiClientGeneratorSchema {
+  spec: string;
+  project: string;
+  directory?: string;
+  skipFormat?: boolean;
+}
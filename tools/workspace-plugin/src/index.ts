@@ -0,0 +1,8 @@
+/**
+ * @flyfront/workspace-plugin - Workspace Nx Plugin
+ * @license Apache-2.0
+ * @copyright 2026 Firefly Software Solutions Inc.
+ */
+
+// Generators
+export * from './generators/api-client/generator';